@@ -0,0 +1,107 @@
+#  Copyright (c) 2023, Terwer . All rights reserved.
+#  DO NOT ALTER OR REMOVE COPYRIGHT NOTICES OR THIS FILE HEADER.
+#
+#  This code is free software; you can redistribute it and/or modify it
+#  under the terms of the GNU General Public License version 2 only, as
+#  published by the Free Software Foundation.  Terwer designates this
+#  particular file as subject to the "Classpath" exception as provided
+#  by Terwer in the LICENSE file that accompanied this code.
+#
+#  This code is distributed in the hope that it will be useful, but WITHOUT
+#  ANY WARRANTY; without even the implied warranty of MERCHANTABILITY or
+#  FITNESS FOR A PARTICULAR PURPOSE.  See the GNU General Public License
+#  version 2 for more details (a copy is included in the LICENSE file that
+#  accompanied this code).
+#
+#  You should have received a copy of the GNU General Public License version
+#  2 along with this work; if not, write to the Free Software Foundation,
+#  Inc., 51 Franklin St, Fifth Floor, Boston, MA 02110-1301 USA.
+#
+#  Please contact Terwer, Shenzhen, Guangdong, China, youweics@163.com
+#  or visit www.terwer.space if you need additional information or have any
+#  questions.
+
+
+import argparse
+import os
+
+import scriptutils
+
+
+def build_word_dict(src, user_src, dest, size):
+    """
+    合并 jieba 词典和 nodejieba 默认加载的用户词典，按词频排序，保留 词 词频 词性 格式
+    内置分词器须与 nodejieba 切分一致，默认保留全部词语，截取后低频的专有名词会被拆开
+    :param src: jieba.dict.utf8 路径
+    :param user_src: user.dict.utf8 路径，不存在时忽略
+    :param dest: 输出路径
+    :param size: 保留的词数，为 None 时保留全部
+    """
+    words = []
+    with open(src, encoding="utf-8") as f:
+        for line in f:
+            parts = line.strip().split(" ")
+            if len(parts) >= 2:
+                words.append((parts[0], int(parts[1]), parts[2] if len(parts) > 2 else ""))
+
+    # 与 cppjieba 一致，用户词典中未写词频的词使用词频的中位数
+    median = sorted(w[1] for w in words)[len(words) // 2]
+    if os.path.exists(user_src):
+        with open(user_src, encoding="utf-8") as f:
+            for line in f:
+                parts = line.strip().split(" ")
+                if len(parts) == 3:
+                    words.append((parts[0], int(parts[1]), parts[2]))
+                elif parts[0]:
+                    words.append((parts[0], median, parts[1] if len(parts) > 1 else ""))
+
+    words.sort(key=lambda w: w[1], reverse=True)
+    if size is not None:
+        words = words[:size]
+    with open(dest, "w", encoding="utf-8") as f:
+        for word, freq, tag in words:
+            f.write(f"{word} {freq} {tag}".strip() + "\n")
+    print(f"词典已生成：{dest}，共 {len(words)} 个词")
+
+
+def build_hmm_model(src, dest):
+    """
+    复制 HMM 模型，发射概率保留 3 位小数以减小体积
+    :param src: hmm_model.utf8 路径
+    :param dest: 输出路径
+    """
+    lines = []
+    with open(src, encoding="utf-8") as f:
+        for line in f:
+            line = line.rstrip("\n")
+            if not line.startswith("#") and ":" in line and "," in line and len(line) > 1000:
+                items = []
+                for item in line.split(","):
+                    char, prob = item.rsplit(":", 1)
+                    items.append(f"{char}:{float(prob):.3f}")
+                line = ",".join(items)
+            lines.append(line)
+
+    with open(dest, "w", encoding="utf-8") as f:
+        f.write("\n".join(lines) + "\n")
+    print(f"HMM 模型已生成：{dest}")
+
+
+if __name__ == "__main__":
+    # 获取当前工作空间
+    cwd = scriptutils.get_workdir()
+
+    # 参数解析
+    parser = argparse.ArgumentParser()
+    parser.add_argument("--jieba-dict-dir", required=True, help="the dict directory of nodejieba or cppjieba")
+    parser.add_argument("--size", type=int, default=None, help="the number of words to keep, all by default")
+    args = parser.parse_args()
+
+    dict_dir = os.path.join(cwd, "src", "data", "processor", "dict")
+    build_word_dict(
+        os.path.join(args.jieba_dict_dir, "jieba.dict.utf8"),
+        os.path.join(args.jieba_dict_dir, "user.dict.utf8"),
+        os.path.join(dict_dir, "jieba.dict.txt"),
+        args.size,
+    )
+    build_hmm_model(os.path.join(args.jieba_dict_dir, "hmm_model.utf8"), os.path.join(dict_dir, "hmm_model.txt"))
@@ -26,5 +26,6 @@
 export const workspaceDir = `${(window as any).siyuan.config.system.workspaceDir}`
 export const dataDir = `${(window as any).siyuan.config.system.dataDir}`
 export const isDev = process.env.DEV_MODE === "true"
+export const pluginDataDir = "/data/storage/petal/siyuan-plugin-ai-graph"
 export const siyuanApiUrl = "http://localhost:6806"
 export const siyuanApiToken = ""
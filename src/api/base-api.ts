@@ -72,10 +72,25 @@ export class BaseApi {
    * @param data - 数据
    */
   public async siyuanRequest(url: string, data: object): Promise<SiyuanData> {
+    const response = await this.siyuanFetch(url, JSON.stringify(data))
+    const resJson = (await response.json()) as SiyuanData
+    if (isDev) {
+      this.logger.info("思源请求数据返回，resJson=>", resJson)
+    }
+    return resJson
+  }
+
+  /**
+   * 向思源发送请求，返回原始响应，用于文件读写等非 JSON 接口
+   *
+   * @param url - url
+   * @param body - 请求体，JSON 字符串或表单
+   */
+  public async siyuanFetch(url: string, body: string | FormData): Promise<Response> {
     const reqUrl = `${siyuanApiUrl}${url}`
 
     const fetchOps = {
-      body: JSON.stringify(data),
+      body: body,
       method: "POST",
     }
     if (siyuanApiToken !== "") {
@@ -91,11 +106,6 @@ export class BaseApi {
       this.logger.info("开始向思源请求数据，fetchOps=>", fetchOps)
     }
 
-    const response = await fetch(reqUrl, fetchOps)
-    const resJson = (await response.json()) as SiyuanData
-    if (isDev) {
-      this.logger.info("思源请求数据返回，resJson=>", resJson)
-    }
-    return resJson
+    return await fetch(reqUrl, fetchOps)
   }
 }
@@ -0,0 +1,253 @@
+import { simpleLogger } from "zhi-lib-base"
+import { isDev, pluginDataDir } from "../Constants"
+import type { EntityExtractor, GazetteerEntry } from "../data/extractor/EntityExtractor"
+import type { RelationExtractor } from "../data/extractor/RelationExtractor"
+import type { InferenceEngine } from "../data/inference/InferenceEngine"
+import type { Tokenizer } from "../data/processor/Tokenizer"
+import KernelApi from "./kernel-api"
+
+/**
+ * 用户词典目录，jieba 格式，每行为 词 [词频] [词性]
+ */
+const DICT_DIR = `${pluginDataDir}/dict`
+
+/**
+ * 停用词目录，每行一个
+ */
+const STOPWORDS_DIR = `${pluginDataDir}/stopwords`
+
+/**
+ * 实体词典目录，每行为 名称 实体类型，名称中含空白时用制表符分隔
+ */
+const GAZETTEER_DIR = `${pluginDataDir}/gazetteer`
+
+/**
+ * 关系模式目录，.json、.yaml 或 .yml 文件，写法见 RelationPatternSpec；
+ * 同目录下的 .rules 文件为推理规则，每行一条，写法见 InferenceEngine.addRule
+ */
+const RELATIONS_DIR = `${pluginDataDir}/relations`
+
+/**
+ * 实体词典中未指定类型时的默认类型
+ */
+const DEFAULT_GAZETTEER_TYPE = "custom"
+
+/**
+ * 由文档标题生成的词典
+ */
+const TITLES_DICT_PATH = `${DICT_DIR}/titles.txt`
+
+/**
+ * 文档标题作为词条时的词性，与 jieba 的其他专名一致
+ */
+const TITLE_TAG = "nz"
+
+/**
+ * 作为词条的文档标题最大长度，过长的标题通常是句子而不是术语
+ */
+const MAX_TITLE_LENGTH = 20
+
+/**
+ * 分页查询思源数据库时的每页条数
+ */
+const SQL_PAGE_SIZE = 1000
+
+/**
+ * 词典加载结果
+ */
+export interface DictionaryLoadResult {
+  files: number // 读取的文件数
+  words: number // 加载的词条数
+  stopwords: number // 加载的停用词数
+}
+
+/**
+ * 词典服务
+ * 从插件数据目录加载用户词典、停用词、实体词典和关系模式，并支持由文档标题生成词典
+ */
+export class DictionaryAPIService {
+  private logger
+  private kernelApi: KernelApi
+
+  constructor(kernelApi?: KernelApi) {
+    this.logger = simpleLogger("dict-api", "ai-graph", isDev)
+    this.kernelApi = kernelApi ?? new KernelApi()
+  }
+
+  /**
+   * 将插件数据目录中的词典和停用词加载到分词器
+   *
+   * @param tokenizer - 分词器
+   */
+  async loadInto(tokenizer: Tokenizer): Promise<DictionaryLoadResult> {
+    const result: DictionaryLoadResult = { files: 0, words: 0, stopwords: 0 }
+
+    for (const text of await this.readTextFiles(DICT_DIR)) {
+      result.words += tokenizer.loadUserDict(text)
+      result.files++
+    }
+    for (const text of await this.readTextFiles(STOPWORDS_DIR)) {
+      result.stopwords += tokenizer.loadStopwords(text)
+      result.files++
+    }
+
+    this.logger.info(`词典加载完成，文件 ${result.files} 个，词条 ${result.words} 个，停用词 ${result.stopwords} 个`)
+    return result
+  }
+
+  /**
+   * 由文档标题生成 jieba 格式的词典，并保存到词典目录
+   * 包含空白的标题无法作为分词词条，会被跳过
+   *
+   * @returns 词典内容
+   */
+  async buildTitleDictionary(): Promise<string> {
+    const documents = await this.queryDocumentTitles()
+    const titles = new Set(Array.from(documents.values()).filter((title) => !/\s/.test(title)))
+
+    // 不写词频，由分词器计算能保证标题被整体切出的词频
+    const text = Array.from(titles)
+      .map((title) => `${title} ${TITLE_TAG}`)
+      .join("\n")
+    await this.kernelApi.putFile(TITLES_DICT_PATH, text)
+
+    this.logger.info(`文档标题词典已生成，词条 ${titles.size} 个`)
+    return text
+  }
+
+  /**
+   * 将插件数据目录中的实体词典和文档标题加载到实体抽取器
+   * 文档标题作为 document 类型的实体，用户词典在后加载，同名时以用户词典为准
+   *
+   * @param extractor - 实体抽取器
+   * @returns 加载的条目数
+   */
+  async loadGazetteerInto(extractor: EntityExtractor): Promise<number> {
+    const entries: GazetteerEntry[] = []
+
+    const documents = await this.queryDocumentTitles()
+    documents.forEach((title, docId) => entries.push({ name: title, type: "document", properties: { rootId: docId } }))
+
+    for (const text of await this.readTextFiles(GAZETTEER_DIR)) {
+      entries.push(...this.parseGazetteer(text))
+    }
+
+    extractor.addGazetteerEntries(entries)
+    this.logger.info(`实体词典加载完成，条目 ${entries.length} 个`)
+    return entries.length
+  }
+
+  /**
+   * 将插件数据目录中的关系模式加载到关系抽取器，已加载的模式会被替换
+   *
+   * @param extractor - 关系抽取器
+   * @returns 加载的模式数
+   */
+  async loadRelationPatternsInto(extractor: RelationExtractor): Promise<number> {
+    const files = await this.readFiles(RELATIONS_DIR, [".json", ".yaml", ".yml"])
+
+    extractor.clearRelationPatterns()
+    let count = 0
+    files.forEach((file) => {
+      count += extractor.loadRelationPatterns(file.text, file.name.endsWith(".json") ? "json" : "yaml")
+    })
+
+    this.logger.info(`关系模式加载完成，文件 ${files.length} 个，模式 ${count} 个`)
+    return count
+  }
+
+  /**
+   * 将插件数据目录中的推理规则加载到推理引擎，已加载的规则会被替换
+   *
+   * @param engine - 关系推理引擎
+   * @returns 加载的规则数
+   */
+  async loadInferenceRulesInto(engine: InferenceEngine): Promise<number> {
+    const files = await this.readFiles(RELATIONS_DIR, [".rules"])
+
+    engine.clearRules()
+    let count = 0
+    files.forEach((file) => {
+      count += engine.loadRules(file.text)
+    })
+
+    this.logger.info(`推理规则加载完成，文件 ${files.length} 个，规则 ${count} 个`)
+    return count
+  }
+
+  /**
+   * 解析实体词典，# 开头为注释
+   */
+  private parseGazetteer(text: string): GazetteerEntry[] {
+    const entries: GazetteerEntry[] = []
+    text.split(/\r?\n/).forEach((line) => {
+      const trimmed = line.trim()
+      if (!trimmed || trimmed.startsWith("#")) return
+
+      // 有制表符时按制表符分隔，否则最后一列为类型
+      const parts = trimmed.includes("\t") ? trimmed.split("\t") : trimmed.split(/\s+/)
+      const name = parts.length > 1 ? parts.slice(0, -1).join(" ").trim() : parts[0]
+      const type = parts.length > 1 ? parts[parts.length - 1].trim() : DEFAULT_GAZETTEER_TYPE
+      entries.push({ name, type: type || DEFAULT_GAZETTEER_TYPE })
+    })
+    return entries
+  }
+
+  /**
+   * 分页查询所有文档的标题，过短或过长的标题不适合作为词条，会被跳过
+   *
+   * @returns 文档ID到标题的映射
+   */
+  private async queryDocumentTitles(): Promise<Map<string, string>> {
+    const titles = new Map<string, string>()
+    for (let offset = 0; ; offset += SQL_PAGE_SIZE) {
+      const res = await this.kernelApi.sql(
+        `SELECT id, content FROM blocks WHERE type = 'd' LIMIT ${SQL_PAGE_SIZE} OFFSET ${offset}`
+      )
+      if (res.code !== 0) {
+        throw new Error(`思源请求失败：${res.msg}`)
+      }
+      const page = (res.data as any[]) ?? []
+      page.forEach((row) => {
+        const title = ((row.content as string) ?? "").trim()
+        if (title.length >= 2 && title.length <= MAX_TITLE_LENGTH) {
+          titles.set(row.id, title)
+        }
+      })
+      if (page.length < SQL_PAGE_SIZE) {
+        break
+      }
+    }
+    return titles
+  }
+
+  /**
+   * 读取目录下的所有 .txt 文件
+   */
+  private async readTextFiles(dir: string): Promise<string[]> {
+    return (await this.readFiles(dir, [".txt"])).map((file) => file.text)
+  }
+
+  /**
+   * 读取目录下指定扩展名的文件
+   */
+  private async readFiles(dir: string, extensions: string[]): Promise<Array<{ name: string; text: string }>> {
+    const result: Array<{ name: string; text: string }> = []
+    const files = (await this.kernelApi.readDir(dir)).filter(
+      (file) => !file.isDir && extensions.some((ext) => file.name.toLowerCase().endsWith(ext))
+    )
+
+    for (const file of files) {
+      try {
+        const text = await this.kernelApi.getFile(`${dir}/${file.name}`)
+        if (text !== undefined) {
+          result.push({ name: file.name.toLowerCase(), text })
+        }
+      } catch (e) {
+        this.logger.error(`读取词典文件失败，file=${dir}/${file.name}`, e)
+      }
+    }
+
+    return result
+  }
+}
@@ -1,6 +1,21 @@
 import { DatabaseManagerAdapter } from "../data/db/DatabaseManagerAdapter"
 import { SearchAPI } from "../data/search/SearchAPI"
-import type { NetworkGraph } from "../data/types"
+import type { DocumentKeyword, Entity, NetworkGraph, Relationship } from "../data/types"
+import { DictionaryAPIService, DictionaryLoadResult } from "./dict-api"
+import type { AiGraphSettings } from "./settings-api"
+
+/**
+ * 每篇文档在图中展示的主题节点数
+ */
+const TOPICS_PER_DOC = 5
+
+/**
+ * 按规范实体聚合的图数据
+ */
+export interface CanonicalGraphData {
+  entities: Array<Entity & { mentionCount: number; aliases?: string[] }>
+  relationships: Relationship[]
+}
 
 /**
  * 图数据API服务
@@ -15,6 +30,21 @@ export class GraphAPIService {
     this.searchAPI = new SearchAPI(dbManager)
   }
 
+  /**
+   * 应用插件设置，查询的归一化选项与导入文档时一致
+   * 应在加载词典之前调用
+   */
+  applySettings(settings: AiGraphSettings): void {
+    this.searchAPI.configureNormalizer(settings.normalizer)
+  }
+
+  /**
+   * 从插件数据目录加载用户词典和停用词，使查询与文档使用相同的分词结果
+   */
+  async loadDictionaries(): Promise<DictionaryLoadResult> {
+    return new DictionaryAPIService().loadInto(this.searchAPI.getTokenizer())
+  }
+
   /**
    * 根据搜索查询生成知识图谱数据
    * @param query 搜索查询词
@@ -44,6 +74,146 @@ export class GraphAPIService {
     }
   }
 
+  /**
+   * 生成按规范实体聚合的图数据
+   * 每个规范实体一个节点并记录提及次数，同一对节点之间同类型的关系合并为一条边
+   * 尚未解析到规范实体的提及以负数ID作为独立节点
+   *
+   * @param includeTopics - 是否把文档关键词作为主题节点连接到文档节点
+   * @param includeNegated - 是否包含否定的关系，如“A 不属于 B”，默认不展示
+   */
+  async generateCanonicalGraphData(
+    includeTopics: boolean = true,
+    includeNegated: boolean = false
+  ): Promise<CanonicalGraphData> {
+    const [entities, relationships, canonicals, mentions, keywords] = await Promise.all([
+      this.dbManager.getEntities(),
+      this.dbManager.getAllRelationships(),
+      this.dbManager.getCanonicalEntities(),
+      this.dbManager.getEntityMentions(),
+      includeTopics ? this.dbManager.getDocumentKeywords() : Promise.resolve([]),
+    ])
+
+    const canonicalMap = new Map(canonicals.map((c) => [c.id!, c]))
+    const mentionMap = new Map(mentions.map((m) => [m.entityId, m.canonicalId]))
+    const nodeIdOf = (entityId: number) => mentionMap.get(entityId) ?? -entityId
+
+    // 节点，取第一次提及的位置用于跳转
+    const nodes = new Map<number, Entity & { mentionCount: number; aliases?: string[] }>()
+    entities.forEach((entity) => {
+      const nodeId = nodeIdOf(entity.id!)
+      const node = nodes.get(nodeId)
+      if (node) {
+        node.mentionCount++
+        node.properties = { ...entity.properties, ...node.properties }
+        return
+      }
+
+      const canonical = canonicalMap.get(nodeId)
+      nodes.set(nodeId, {
+        ...entity,
+        id: nodeId,
+        name: canonical?.name ?? entity.name,
+        type: canonical?.type ?? entity.type,
+        aliases: canonical?.aliases,
+        mentionCount: 1,
+      })
+    })
+
+    // 边，合并同一对节点之间同类型的关系
+    const edges = new Map<string, Relationship>()
+    relationships.forEach((rel) => {
+      const source = nodeIdOf(rel.sourceEntityId)
+      const target = nodeIdOf(rel.targetEntityId)
+      if (source === target || !nodes.has(source) || !nodes.has(target)) return
+      const negated = rel.properties?.polarity === "negative"
+      if (negated && !includeNegated) return
+
+      const key = `${source}-${target}-${rel.type}${negated ? "-negative" : ""}`
+      const edge = edges.get(key)
+      if (edge) {
+        edge.confidence = Math.max(edge.confidence, rel.confidence)
+        edge.properties = { ...edge.properties, count: (edge.properties?.count ?? 1) + 1 }
+        return
+      }
+      edges.set(key, {
+        ...rel,
+        sourceEntityId: source,
+        targetEntityId: target,
+        properties: { ...rel.properties, count: 1 },
+      })
+    })
+
+    if (keywords.length > 0) {
+      this.addTopicNodes(keywords, entities, nodeIdOf, nodes, edges)
+    }
+
+    return {
+      entities: Array.from(nodes.values()),
+      relationships: Array.from(edges.values()),
+    }
+  }
+
+  /**
+   * 将文档关键词作为主题节点，同一关键词在各文档中共用一个节点，并与所属文档节点相连
+   * 主题节点ID取在所有实体节点之下的负数，避免与未解析的提及冲突
+   */
+  private addTopicNodes(
+    keywords: DocumentKeyword[],
+    entities: Entity[],
+    nodeIdOf: (entityId: number) => number,
+    nodes: Map<number, Entity & { mentionCount: number; aliases?: string[] }>,
+    edges: Map<string, Relationship>
+  ): void {
+    // 文档自身的结构实体即文档节点
+    const docNodeIds = new Map<string, number>()
+    entities.forEach((entity) => {
+      if (entity.type === "document" && entity.blockId === entity.docId && entity.id !== undefined) {
+        docNodeIds.set(entity.docId, nodeIdOf(entity.id))
+      }
+    })
+
+    let nextTopicId = -entities.reduce((max, e) => Math.max(max, e.id ?? 0), 0) - 1
+    const topicIds = new Map<string, number>()
+    const docTopicCounts = new Map<string, number>()
+
+    // 关键词已按分数降序排列
+    keywords.forEach((keyword) => {
+      const docNodeId = docNodeIds.get(keyword.docId)
+      const count = docTopicCounts.get(keyword.docId) || 0
+      if (docNodeId === undefined || count >= TOPICS_PER_DOC) return
+      docTopicCounts.set(keyword.docId, count + 1)
+
+      let topicId = topicIds.get(keyword.term)
+      if (topicId === undefined) {
+        topicId = nextTopicId--
+        topicIds.set(keyword.term, topicId)
+        nodes.set(topicId, {
+          id: topicId,
+          name: keyword.text,
+          type: "topic",
+          docId: keyword.docId,
+          startPos: 0,
+          endPos: 0,
+          source: "keyword",
+          mentionCount: 1,
+        })
+      } else {
+        nodes.get(topicId)!.mentionCount++
+      }
+
+      edges.set(`${docNodeId}-${topicId}-has_topic`, {
+        sourceEntityId: docNodeId,
+        targetEntityId: topicId,
+        type: "has_topic",
+        docId: keyword.docId,
+        confidence: 1.0,
+        source: "keyword",
+        properties: { score: keyword.score, count: 1 },
+      })
+    })
+  }
+
   /**
    * 将NetworkGraph格式适配为G6兼容格式
    * @param networkGraph 数据库查询得到的网络图数据
@@ -56,6 +226,10 @@ export class GraphAPIService {
         id: `node_${node.id}`,
         label: node.name,
         type: node.type,
+        docId: node.docId,
+        blockId: node.blockId,
+        properties: node.properties,
+        mentionCount: node.mentionCount,
         // 添加G6需要的其他属性
         style: {
           fill: this.getNodeColorByType(node.type),
@@ -100,6 +274,10 @@ export class GraphAPIService {
       event: "#FFEAA7",
       product: "#DDA0DD",
       technology: "#98D8C8",
+      document: "#F6BD16",
+      notebook: "#E8684A",
+      tag: "#9270CA",
+      topic: "#5AD8A6",
       default: "#5B8FF9",
     }
 
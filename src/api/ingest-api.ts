@@ -0,0 +1,423 @@
+import { simpleLogger } from "zhi-lib-base"
+import { isDev } from "../Constants"
+import { DatabaseManagerAdapter } from "../data/db/DatabaseManagerAdapter"
+import { DocumentProcessor } from "../data/processor/DocumentProcessor"
+import type { InferenceResult } from "../data/inference/InferenceEngine"
+import type { Document, LLMConfig } from "../data/types"
+import { parseSiyuanTime } from "../utils/utils"
+import { DictionaryAPIService, DictionaryLoadResult } from "./dict-api"
+import { AiGraphSettings, SettingsAPIService } from "./settings-api"
+import KernelApi, { SiyuanDocFile } from "./kernel-api"
+
+/**
+ * 同步游标的键，记录上次同步时看到的最大 blocks.updated
+ */
+const SYNC_CURSOR_KEY = "siyuan.blocks.updated"
+
+/**
+ * 分页查询思源数据库时的每页条数
+ */
+const SQL_PAGE_SIZE = 1000
+
+/**
+ * 待导入文档的元数据
+ */
+export interface DocMeta {
+  id: string
+  title: string
+  createdAt?: number
+  updatedAt?: number
+}
+
+/**
+ * 导入进度
+ */
+export interface IngestProgress {
+  total: number // 已发现的文档总数
+  processed: number // 已处理成功的文档数
+  failed: number // 处理失败的文档数
+  current?: string // 当前处理的文档标题
+  skipped?: number // 增量同步时未变化而跳过的文档数
+  deleted?: number // 增量同步时已删除的文档数
+}
+
+/**
+ * 导入选项
+ */
+export interface IngestOptions {
+  /**
+   * 导出格式，默认 text
+   * text 导出带块属性的 kramdown，由 DocumentProcessor 按块切分为纯文本并记录块ID
+   * markdown 导出不带块属性的 Markdown 原文
+   */
+  format?: "markdown" | "text"
+  /**
+   * 进度回调
+   */
+  onProgress?: (progress: IngestProgress) => void
+}
+
+/**
+ * 思源笔记导入服务
+ * 遍历笔记本和文档树，导出文档内容并交给 DocumentProcessor 处理
+ */
+export class IngestAPIService {
+  private logger
+  private kernelApi: KernelApi
+  private dbManager: DatabaseManagerAdapter
+  private documentProcessor: DocumentProcessor
+  private dictionaryService: DictionaryAPIService
+  private settingsService: SettingsAPIService
+
+  constructor(dbManager: DatabaseManagerAdapter, kernelApi?: KernelApi) {
+    this.logger = simpleLogger("ingest-api", "ai-graph", isDev)
+    this.kernelApi = kernelApi ?? new KernelApi()
+    this.dbManager = dbManager
+    this.documentProcessor = new DocumentProcessor(dbManager)
+    this.documentProcessor.configureSiyuan(this.kernelApi)
+    this.dictionaryService = new DictionaryAPIService(this.kernelApi)
+    this.settingsService = new SettingsAPIService(this.kernelApi)
+  }
+
+  /**
+   * 读取插件设置并应用
+   */
+  async loadSettings(): Promise<AiGraphSettings> {
+    const settings = await this.settingsService.load()
+    this.applySettings(settings)
+    return settings
+  }
+
+  /**
+   * 应用插件设置，归一化选项需在加载词典之前应用
+   */
+  applySettings(settings: AiGraphSettings): void {
+    this.documentProcessor.configureNormalizer(settings.normalizer)
+    this.documentProcessor.configureStructuredTypes(settings.structuredEntityTypes)
+    this.documentProcessor.configureKeywords(settings.keywords)
+  }
+
+  /**
+   * 从插件数据目录加载用户词典和停用词
+   */
+  async loadDictionaries(): Promise<DictionaryLoadResult> {
+    return this.dictionaryService.loadInto(this.documentProcessor.getTokenizer())
+  }
+
+  /**
+   * 加载实体词典：已知的规范实体和别名、文档标题以及插件数据目录中的实体词典
+   *
+   * @returns 加载的条目数
+   */
+  async loadGazetteer(): Promise<number> {
+    const known = await this.documentProcessor.loadGazetteer()
+    return known + (await this.dictionaryService.loadGazetteerInto(this.documentProcessor.getEntityExtractor()))
+  }
+
+  /**
+   * 从插件数据目录加载关系模式
+   *
+   * @returns 加载的模式数
+   */
+  async loadRelationPatterns(): Promise<number> {
+    return this.dictionaryService.loadRelationPatternsInto(this.documentProcessor.getRelationExtractor())
+  }
+
+  /**
+   * 从插件数据目录加载推理规则
+   *
+   * @returns 加载的规则数
+   */
+  async loadInferenceRules(): Promise<number> {
+    return this.dictionaryService.loadInferenceRulesInto(this.documentProcessor.getInferenceEngine())
+  }
+
+  /**
+   * 由已保存的关系推理出隐含关系，前提已被删除的推理关系同时清除
+   * 导入和同步结束后自动执行，推理失败不影响导入结果
+   */
+  async inferRelationships(): Promise<InferenceResult | null> {
+    try {
+      const result = await this.documentProcessor.getInferenceEngine().run()
+      this.logger.info(`关系推理完成，推出 ${result.inferred} 条，清除 ${result.pruned} 条`)
+      return result
+    } catch (e) {
+      this.logger.error("关系推理失败", e)
+      return null
+    }
+  }
+
+  /**
+   * 由文档标题重新生成词典并立即加载，之后导入的文档按新词典分词
+   */
+  async buildTitleDictionary(): Promise<number> {
+    const text = await this.dictionaryService.buildTitleDictionary()
+    return this.documentProcessor.getTokenizer().loadUserDict(text)
+  }
+
+  /**
+   * 配置大模型参数
+   */
+  configureLLM(config: LLMConfig): void {
+    this.documentProcessor.configureLLM(config)
+  }
+
+  /**
+   * 导入整个工作空间（所有未关闭的笔记本）
+   */
+  async ingestWorkspace(options: IngestOptions = {}): Promise<IngestProgress> {
+    const notebooks = await this.kernelApi.lsNotebooks()
+    const progress: IngestProgress = { total: 0, processed: 0, failed: 0 }
+
+    for (const notebook of notebooks) {
+      if (notebook.closed) {
+        continue
+      }
+      await this.ingestNotebookInternal(notebook.id, progress, options)
+    }
+
+    await this.inferRelationships()
+    this.logger.info(`工作空间导入完成，成功 ${progress.processed} 篇，失败 ${progress.failed} 篇`)
+    return progress
+  }
+
+  /**
+   * 导入单个笔记本
+   *
+   * @param notebookId - 笔记本ID
+   * @param options - 导入选项
+   */
+  async ingestNotebook(notebookId: string, options: IngestOptions = {}): Promise<IngestProgress> {
+    const progress: IngestProgress = { total: 0, processed: 0, failed: 0 }
+    await this.ingestNotebookInternal(notebookId, progress, options)
+    await this.inferRelationships()
+    return progress
+  }
+
+  /**
+   * 递归遍历笔记本下的文档树
+   *
+   * @param notebookId - 笔记本ID
+   * @param path - 起始路径，默认为笔记本根目录
+   */
+  async listNotebookDocs(notebookId: string, path: string = "/"): Promise<SiyuanDocFile[]> {
+    const docs: SiyuanDocFile[] = []
+    const files = await this.kernelApi.listDocsByPath(notebookId, path)
+
+    for (const file of files) {
+      docs.push(file)
+      if (file.subFileCount > 0) {
+        docs.push(...(await this.listNotebookDocs(notebookId, file.path)))
+      }
+    }
+
+    return docs
+  }
+
+  /**
+   * 增量同步工作空间
+   * 根据 blocks.updated 与已存储文档的 updatedAt 对比，只处理新增、修改和删除的文档
+   */
+  async syncWorkspace(options: IngestOptions = {}): Promise<IngestProgress> {
+    const progress: IngestProgress = { total: 0, processed: 0, failed: 0, skipped: 0, deleted: 0 }
+    const cursor = await this.dbManager.getSyncCursor(SYNC_CURSOR_KEY)
+
+    // 1. 清除思源中已删除的文档
+    const siyuanDocIds = new Set(
+      (await this.queryAll(`SELECT id FROM blocks WHERE type = 'd'`)).map((row: any) => row.id as string)
+    )
+    const storedDocIds = await this.dbManager.getAllDocumentIds()
+    for (const docId of storedDocIds) {
+      if (!siyuanDocIds.has(docId)) {
+        await this.dbManager.deleteDocument(docId)
+        progress.deleted++
+      }
+    }
+
+    // 2. 找出游标之后有改动的文档，无游标时为全部文档
+    const changedStmt = cursor
+      ? `SELECT root_id AS id, MAX(updated) AS updated FROM blocks WHERE updated > '${cursor}' GROUP BY root_id`
+      : `SELECT root_id AS id, MAX(updated) AS updated FROM blocks GROUP BY root_id`
+    const changedRows = await this.queryAll(changedStmt)
+    const changedIds = changedRows.map((row: any) => row.id as string).filter((id) => siyuanDocIds.has(id))
+    progress.total = changedIds.length
+
+    let maxUpdated = cursor ?? ""
+    for (const row of changedRows) {
+      if (row.updated > maxUpdated) {
+        maxUpdated = row.updated
+      }
+    }
+    const docRows = await this.queryDocMetaRows(changedIds)
+
+    // 3. 与已存储文档对比，只处理新增和修改的文档
+    for (const row of docRows) {
+      const meta = this.toDocMeta(row)
+      progress.current = meta.title
+      try {
+        const stored = await this.dbManager.getDocument(meta.id)
+        if (stored && (stored.updatedAt || 0) >= (meta.updatedAt || 0)) {
+          progress.skipped++
+        } else {
+          await this.ingestDocument(meta, options.format)
+          progress.processed++
+        }
+      } catch (e) {
+        progress.failed++
+        this.logger.error(`文档同步失败，docId=${meta.id}`, e)
+      }
+      options.onProgress?.({ ...progress })
+    }
+
+    // 4. 由新的关系推理隐含关系
+    await this.inferRelationships()
+
+    // 5. 全部成功时才推进游标，失败的文档下次继续处理
+    if (progress.failed === 0 && maxUpdated) {
+      await this.dbManager.setSyncCursor(SYNC_CURSOR_KEY, maxUpdated)
+    }
+
+    this.logger.info(
+      `增量同步完成，处理 ${progress.processed} 篇，跳过 ${progress.skipped} 篇，删除 ${progress.deleted} 篇，失败 ${progress.failed} 篇`
+    )
+    return progress
+  }
+
+  /**
+   * 同步指定的文档，思源中已不存在的文档会被删除
+   *
+   * @param docIds - 文档ID列表
+   * @param options - 导入选项
+   */
+  async syncDocuments(docIds: string[], options: IngestOptions = {}): Promise<IngestProgress> {
+    const progress: IngestProgress = { total: docIds.length, processed: 0, failed: 0, deleted: 0 }
+    const docRows = await this.queryDocMetaRows(docIds)
+    const existingIds = new Set(docRows.map((row: any) => row.id as string))
+
+    for (const docId of docIds) {
+      if (!existingIds.has(docId)) {
+        await this.dbManager.deleteDocument(docId)
+        progress.deleted++
+      }
+    }
+
+    for (const row of docRows) {
+      const meta = this.toDocMeta(row)
+      progress.current = meta.title
+      try {
+        await this.ingestDocument(meta, options.format)
+        progress.processed++
+      } catch (e) {
+        progress.failed++
+        this.logger.error(`文档同步失败，docId=${meta.id}`, e)
+      }
+      options.onProgress?.({ ...progress })
+    }
+
+    await this.inferRelationships()
+    return progress
+  }
+
+  /**
+   * 导入单篇文档
+   *
+   * @param meta - 文档元数据
+   * @param format - 导出格式
+   */
+  async ingestDocument(meta: DocMeta, format: "markdown" | "text" = "text"): Promise<void> {
+    const content =
+      format === "markdown"
+        ? (await this.kernelApi.exportMdContent(meta.id)).content
+        : (await this.kernelApi.getBlockKramdown(meta.id)).kramdown
+    const doc: Document = {
+      docId: meta.id,
+      title: meta.title,
+      content: content,
+      createdAt: meta.createdAt,
+      updatedAt: meta.updatedAt,
+    }
+    await this.documentProcessor.processDocument(doc)
+  }
+
+  private async ingestNotebookInternal(
+    notebookId: string,
+    progress: IngestProgress,
+    options: IngestOptions
+  ): Promise<void> {
+    const files = await this.listNotebookDocs(notebookId)
+    progress.total += files.length
+
+    for (const file of files) {
+      const meta: DocMeta = {
+        id: file.id,
+        title: file.name.replace(/\.sy$/, ""),
+        createdAt: file.ctime ? file.ctime * 1000 : undefined,
+        updatedAt: file.mtime ? file.mtime * 1000 : undefined,
+      }
+      progress.current = meta.title
+      try {
+        await this.ingestDocument(meta, options.format)
+        progress.processed++
+      } catch (e) {
+        progress.failed++
+        this.logger.error(`文档导入失败，docId=${file.id}`, e)
+      }
+      options.onProgress?.({ ...progress })
+    }
+  }
+
+  /**
+   * 查询文档块的标题和时间
+   * 文档块自身的 updated 不一定随子块变化，更新时间取文档内所有块中最新的时间
+   *
+   * @param docIds - 文档ID列表
+   */
+  private async queryDocMetaRows(docIds: string[]): Promise<any[]> {
+    const rows: any[] = []
+    for (let i = 0; i < docIds.length; i += SQL_PAGE_SIZE) {
+      const ids = docIds
+        .slice(i, i + SQL_PAGE_SIZE)
+        .map((id) => `'${id}'`)
+        .join(",")
+      rows.push(
+        ...(await this.queryAll(
+          `SELECT d.id, d.content, d.created, MAX(b.updated) AS updated FROM blocks d ` +
+            `JOIN blocks b ON b.root_id = d.id WHERE d.type = 'd' AND d.id IN (${ids}) GROUP BY d.id`
+        ))
+      )
+    }
+    return rows
+  }
+
+  /**
+   * 将文档块转换为文档元数据
+   */
+  private toDocMeta(row: any): DocMeta {
+    return {
+      id: row.id,
+      title: row.content,
+      createdAt: parseSiyuanTime(row.created) || undefined,
+      updatedAt: parseSiyuanTime(row.updated) || undefined,
+    }
+  }
+
+  /**
+   * 分页执行 SQL，思源默认只返回有限条数
+   *
+   * @param stmt - 不带 LIMIT 的 SQL 语句
+   */
+  private async queryAll(stmt: string): Promise<any[]> {
+    const rows: any[] = []
+    for (let offset = 0; ; offset += SQL_PAGE_SIZE) {
+      const res = await this.kernelApi.sql(`${stmt} LIMIT ${SQL_PAGE_SIZE} OFFSET ${offset}`)
+      if (res.code !== 0) {
+        throw new Error(`思源请求失败：${res.msg}`)
+      }
+      const page = (res.data as any[]) ?? []
+      rows.push(...page)
+      if (page.length < SQL_PAGE_SIZE) {
+        return rows
+      }
+    }
+  }
+}
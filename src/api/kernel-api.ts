@@ -23,7 +23,75 @@
  * questions.
  */
 
-import { BaseApi } from "./base-api"
+import { BaseApi, SiyuanData } from "./base-api"
+
+/**
+ * 列出文档时的最大数量，思源默认按文档树设置截断（默认 512 篇），导入时需要列出全部文档
+ */
+const MAX_LIST_COUNT = 100000000
+
+/**
+ * 笔记本
+ */
+export interface SiyuanNotebook {
+  id: string
+  name: string
+  icon: string
+  sort: number
+  closed: boolean
+}
+
+/**
+ * 文档树中的文档节点
+ */
+export interface SiyuanDocFile {
+  id: string
+  /**
+   * 文档名称，带 .sy 后缀
+   */
+  name: string
+  /**
+   * 文档在笔记本中的存储路径，例如 /20240101120000-abcdefg.sy
+   */
+  path: string
+  /**
+   * 子文档数量
+   */
+  subFileCount: number
+  /**
+   * 创建时间（秒）
+   */
+  ctime: number
+  /**
+   * 修改时间（秒）
+   */
+  mtime: number
+}
+
+/**
+ * 导出的 Markdown 内容
+ */
+export interface SiyuanMdContent {
+  hPath: string
+  content: string
+}
+
+/**
+ * 块的 kramdown 源码
+ */
+export interface SiyuanBlockKramdown {
+  id: string
+  kramdown: string
+}
+
+/**
+ * 工作空间中的文件或目录
+ */
+export interface SiyuanDirEntry {
+  name: string
+  isDir: boolean
+  updated: number
+}
 
 /**
  * 思源笔记服务端API v2.8.9
@@ -34,6 +102,157 @@ import { BaseApi } from "./base-api"
  * @version 0.0.1
  * @since 0.0.1
  */
-class KernelApi extends BaseApi {}
+class KernelApi extends BaseApi {
+  /**
+   * 列出笔记本
+   */
+  public async lsNotebooks(): Promise<SiyuanNotebook[]> {
+    const res = await this.siyuanRequest("/api/notebook/lsNotebooks", {})
+    this.checkResult(res)
+    return (res.data as any)?.notebooks ?? []
+  }
+
+  /**
+   * 列出指定路径下的文档（仅下一级），不受文档树的最大列出数量限制
+   *
+   * @param notebook - 笔记本ID
+   * @param path - 文档路径，根目录为 /
+   */
+  public async listDocsByPath(notebook: string, path: string = "/"): Promise<SiyuanDocFile[]> {
+    const res = await this.siyuanRequest("/api/filetree/listDocsByPath", {
+      notebook: notebook,
+      path: path,
+      maxListCount: MAX_LIST_COUNT,
+    })
+    this.checkResult(res)
+    return (res.data as any)?.files ?? []
+  }
+
+  /**
+   * 导出文档的 Markdown 内容
+   *
+   * @param id - 文档ID
+   */
+  public async exportMdContent(id: string): Promise<SiyuanMdContent> {
+    const res = await this.siyuanRequest("/api/export/exportMdContent", {
+      id: id,
+    })
+    this.checkResult(res)
+    return res.data as SiyuanMdContent
+  }
+
+  /**
+   * 获取块的 kramdown 源码，包含每个块的属性（IAL）
+   *
+   * @param id - 块ID
+   */
+  public async getBlockKramdown(id: string): Promise<SiyuanBlockKramdown> {
+    const res = await this.siyuanRequest("/api/block/getBlockKramdown", {
+      id: id,
+    })
+    this.checkResult(res)
+    return res.data as SiyuanBlockKramdown
+  }
+
+  /**
+   * 获取块属性
+   *
+   * @param id - 块ID
+   */
+  public async getBlockAttrs(id: string): Promise<Record<string, string>> {
+    const res = await this.siyuanRequest("/api/attr/getBlockAttrs", {
+      id: id,
+    })
+    this.checkResult(res)
+    return (res.data as Record<string, string>) ?? {}
+  }
+
+  /**
+   * 设置块属性，自定义属性需以 custom- 开头，值为空字符串时删除该属性
+   *
+   * @param id - 块ID
+   * @param attrs - 属性
+   */
+  public async setBlockAttrs(id: string, attrs: Record<string, string>): Promise<void> {
+    const res = await this.siyuanRequest("/api/attr/setBlockAttrs", {
+      id: id,
+      attrs: attrs,
+    })
+    this.checkResult(res)
+  }
+
+  /**
+   * 更新块内容
+   *
+   * @param id - 块ID
+   * @param data - 块内容，kramdown 中的块属性会被保留
+   * @param dataType - 内容格式，markdown 或 dom
+   */
+  public async updateBlock(id: string, data: string, dataType: "markdown" | "dom" = "markdown"): Promise<void> {
+    const res = await this.siyuanRequest("/api/block/updateBlock", {
+      id: id,
+      data: data,
+      dataType: dataType,
+    })
+    this.checkResult(res)
+  }
+
+  /**
+   * 列出工作空间目录下的文件，目录不存在时返回空数组
+   *
+   * @param path - 工作空间下的路径，例如 /data/storage/petal/插件名
+   */
+  public async readDir(path: string): Promise<SiyuanDirEntry[]> {
+    const res = await this.siyuanRequest("/api/file/readDir", {
+      path: path,
+    })
+    if (!res || res.code !== 0) {
+      return []
+    }
+    return (res.data as SiyuanDirEntry[]) ?? []
+  }
+
+  /**
+   * 读取工作空间中的文本文件，文件不存在时返回 undefined
+   *
+   * @param path - 工作空间下的文件路径
+   */
+  public async getFile(path: string): Promise<string | undefined> {
+    const response = await this.siyuanFetch("/api/file/getFile", JSON.stringify({ path: path }))
+    // 文件不存在时返回 202 和 JSON 错误信息
+    if (response.status !== 200) {
+      return undefined
+    }
+    return await response.text()
+  }
+
+  /**
+   * 写入工作空间中的文本文件，上级目录不存在时自动创建
+   *
+   * @param path - 工作空间下的文件路径
+   * @param content - 文件内容
+   */
+  public async putFile(path: string, content: string): Promise<void> {
+    const formData = new FormData()
+    formData.append("path", path)
+    formData.append("isDir", "false")
+    formData.append("modTime", `${Date.now()}`)
+    formData.append("file", new Blob([content], { type: "text/plain" }), path.split("/").pop())
+
+    const response = await this.siyuanFetch("/api/file/putFile", formData)
+    this.checkResult((await response.json()) as SiyuanData)
+  }
+
+  /**
+   * 检查思源返回结果，异常时抛出错误
+   *
+   * @param res - 思源返回结果
+   */
+  private checkResult(res: SiyuanData): void {
+    if (!res || res.code !== 0) {
+      throw new Error(`思源请求失败：${res?.msg ?? "未知错误"}`)
+    }
+  }
+}
 
 export default KernelApi
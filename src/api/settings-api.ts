@@ -0,0 +1,81 @@
+import { simpleLogger } from "zhi-lib-base"
+import { isDev, pluginDataDir } from "../Constants"
+import { KeywordExtractor, KeywordOptions } from "../data/extractor/KeywordExtractor"
+import { STRUCTURED_ENTITY_TYPES } from "../data/extractor/StructuredExtractors"
+import { NormalizerOptions, TextNormalizer } from "../data/processor/TextNormalizer"
+import KernelApi from "./kernel-api"
+
+/**
+ * 设置文件，与插件的 loadData/saveData 使用同一目录
+ */
+const SETTINGS_PATH = `${pluginDataDir}/settings.json`
+
+/**
+ * 插件设置
+ */
+export interface AiGraphSettings {
+  structuredEntityTypes: Record<string, boolean> // 结构化实体类型是否启用
+  normalizer: Required<NormalizerOptions> // 文本归一化选项，导入和搜索共用，修改后需重新导入文档
+  keywords: Required<KeywordOptions> // 关键词抽取方法和每篇文档保留的关键词数
+}
+
+/**
+ * 设置服务
+ * 读写插件数据目录中的 settings.json，缺少的项使用默认值
+ */
+export class SettingsAPIService {
+  private logger
+  private kernelApi: KernelApi
+
+  constructor(kernelApi?: KernelApi) {
+    this.logger = simpleLogger("settings-api", "ai-graph", isDev)
+    this.kernelApi = kernelApi ?? new KernelApi()
+  }
+
+  /**
+   * 默认设置
+   */
+  getDefaults(): AiGraphSettings {
+    return {
+      structuredEntityTypes: Object.fromEntries(
+        STRUCTURED_ENTITY_TYPES.map((item) => [item.type, item.enabledByDefault])
+      ),
+      normalizer: new TextNormalizer().getOptions(),
+      keywords: new KeywordExtractor().getOptions(),
+    }
+  }
+
+  /**
+   * 读取设置，文件不存在或格式错误时返回默认设置
+   */
+  async load(): Promise<AiGraphSettings> {
+    const defaults = this.getDefaults()
+
+    try {
+      const text = await this.kernelApi.getFile(SETTINGS_PATH)
+      if (text === undefined) {
+        return defaults
+      }
+
+      const saved = JSON.parse(text) as Partial<AiGraphSettings>
+      return {
+        ...defaults,
+        ...saved,
+        structuredEntityTypes: { ...defaults.structuredEntityTypes, ...saved.structuredEntityTypes },
+        normalizer: { ...defaults.normalizer, ...saved.normalizer },
+        keywords: { ...defaults.keywords, ...saved.keywords },
+      }
+    } catch (e) {
+      this.logger.error("读取设置失败，使用默认设置", e)
+      return defaults
+    }
+  }
+
+  /**
+   * 保存设置
+   */
+  async save(settings: AiGraphSettings): Promise<void> {
+    await this.kernelApi.putFile(SETTINGS_PATH, JSON.stringify(settings, null, 2))
+    this.logger.info("设置已保存")
+  }
+}
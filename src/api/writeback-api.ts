@@ -0,0 +1,329 @@
+import { simpleLogger } from "zhi-lib-base"
+import { isDev } from "../Constants"
+import { DatabaseManagerAdapter } from "../data/db/DatabaseManagerAdapter"
+import { AI_ENTITIES_ATTR } from "../data/extractor/StructureExtractor"
+import type { Entity } from "../data/types"
+import KernelApi from "./kernel-api"
+
+/**
+ * 块属性（IAL）独占一行
+ */
+const IAL_LINE_REGEX = /^\s*(>\s*)*\{:\s[^}]*\}\s*$/
+
+/**
+ * 可以追加标签的块类型：段落和标题
+ */
+const TAGGABLE_BLOCK_TYPES = new Set(["p", "h"])
+
+/**
+ * 已有的块引用、标签、链接、行内代码、行内公式、HTML 标签和网址（含 <自动链接>），写回时不在其中替换
+ */
+const PROTECTED_REGEX =
+  /\(\([^)]*\)\)|#[^#\s][^#\n]*#|\[[^\]]*\]\([^)]*\)|`[^`]*`|\$[^$\n]+\$|<[^<>\n]+>|[a-zA-Z][\w+.-]*:\/\/[^\s<>()]+/g
+
+/**
+ * 写回方式
+ * attribute 在块上设置 custom-ai-entities 属性
+ * tag 在段落和标题块末尾追加 #实体名# 标签
+ * ref 将首次提及替换为指向同名文档的块引用
+ */
+export type WriteBackMode = "attribute" | "tag" | "ref"
+
+/**
+ * 写回选项
+ */
+export interface WriteBackOptions {
+  entityTypes: string[] // 需要写回的实体类型
+  modes: WriteBackMode[] // 写回方式
+}
+
+/**
+ * 单个块的待写回变更
+ */
+export interface WriteBackChange {
+  docId: string
+  blockId: string
+  entities: string[] // 涉及的实体名称
+  before: string // 变更前的 kramdown
+  after: string // 变更后的 kramdown
+  attrs?: Record<string, string> // 需要设置的块属性
+  attrsBefore?: Record<string, string> // 变更前的块属性
+}
+
+/**
+ * 写回结果
+ */
+export interface WriteBackResult {
+  applied: number
+  failed: number
+  conflicts: string[] // 预览后块内容或属性已变化而跳过的块ID
+}
+
+/**
+ * 写回服务
+ * 将抽取到的实体写回思源笔记，必须先 preview 生成变更，确认后再 apply
+ */
+export class WriteBackAPIService {
+  private logger
+  private kernelApi: KernelApi
+  private dbManager: DatabaseManagerAdapter
+
+  constructor(dbManager: DatabaseManagerAdapter, kernelApi?: KernelApi) {
+    this.logger = simpleLogger("writeback-api", "ai-graph", isDev)
+    this.kernelApi = kernelApi ?? new KernelApi()
+    this.dbManager = dbManager
+  }
+
+  /**
+   * 生成文档的写回变更，不修改笔记
+   *
+   * @param docId - 文档ID
+   * @param options - 写回选项
+   */
+  async preview(docId: string, options: WriteBackOptions): Promise<WriteBackChange[]> {
+    if (options.entityTypes.length === 0 || options.modes.length === 0) {
+      return []
+    }
+
+    // 只写回从文本中抽取的实体，结构实体本身就来自笔记
+    const entities = (await this.dbManager.getEntities(docId)).filter(
+      (e) =>
+        e.blockId &&
+        options.entityTypes.includes(e.type) &&
+        e.source !== "siyuan-ref" &&
+        e.source !== "siyuan-structure"
+    )
+
+    const blockEntities = new Map<string, Entity[]>()
+    entities.forEach((entity) => {
+      const list = blockEntities.get(entity.blockId!) ?? []
+      if (!list.some((e) => e.name === entity.name)) {
+        list.push(entity)
+      }
+      blockEntities.set(entity.blockId!, list)
+    })
+
+    const changes: WriteBackChange[] = []
+    for (const [blockId, list] of blockEntities) {
+      try {
+        const change = await this.buildChange(docId, blockId, list, options.modes)
+        if (change) {
+          changes.push(change)
+        }
+      } catch (e) {
+        this.logger.error(`写回预览失败，blockId=${blockId}`, e)
+      }
+    }
+
+    return changes
+  }
+
+  /**
+   * 生成变更的行级差异，用于展示给用户确认
+   *
+   * @param change - 写回变更
+   */
+  diff(change: WriteBackChange): string {
+    const lines: string[] = []
+    const before = change.before.split("\n")
+    const after = change.after.split("\n")
+
+    let start = 0
+    while (start < before.length && start < after.length && before[start] === after[start]) {
+      start++
+    }
+    let endBefore = before.length - 1
+    let endAfter = after.length - 1
+    while (endBefore >= start && endAfter >= start && before[endBefore] === after[endAfter]) {
+      endBefore--
+      endAfter--
+    }
+
+    before.slice(start, endBefore + 1).forEach((line) => lines.push(`- ${line}`))
+    after.slice(start, endAfter + 1).forEach((line) => lines.push(`+ ${line}`))
+
+    if (change.attrs) {
+      Object.entries(change.attrs).forEach(([key, value]) => {
+        const old = change.attrsBefore?.[key]
+        if (old !== undefined) {
+          lines.push(`- ${key}="${old}"`)
+        }
+        lines.push(`+ ${key}="${value}"`)
+      })
+    }
+
+    return lines.join("\n")
+  }
+
+  /**
+   * 应用已确认的变更
+   * 预览之后块内容或待写的属性被修改过的变更会跳过，需要重新预览
+   *
+   * @param changes - preview 返回的变更
+   */
+  async apply(changes: WriteBackChange[]): Promise<WriteBackResult> {
+    const result: WriteBackResult = { applied: 0, failed: 0, conflicts: [] }
+
+    for (const change of changes) {
+      try {
+        const current = (await this.kernelApi.getBlockKramdown(change.blockId)).kramdown
+        if (current !== change.before || (change.attrs && (await this.attrsChanged(change)))) {
+          result.conflicts.push(change.blockId)
+          continue
+        }
+
+        if (change.after !== change.before) {
+          await this.kernelApi.updateBlock(change.blockId, change.after)
+        }
+        if (change.attrs) {
+          await this.kernelApi.setBlockAttrs(change.blockId, change.attrs)
+        }
+        result.applied++
+      } catch (e) {
+        result.failed++
+        this.logger.error(`写回失败，blockId=${change.blockId}`, e)
+      }
+    }
+
+    this.logger.info(
+      `写回完成，成功 ${result.applied} 个块，失败 ${result.failed} 个块，冲突 ${result.conflicts.length} 个块`
+    )
+    return result
+  }
+
+  /**
+   * 生成单个块的变更，没有任何改动时返回 undefined
+   */
+  private async buildChange(
+    docId: string,
+    blockId: string,
+    entities: Entity[],
+    modes: WriteBackMode[]
+  ): Promise<WriteBackChange | undefined> {
+    const before = (await this.kernelApi.getBlockKramdown(blockId)).kramdown
+    const lines = before.split("\n")
+    const touched = new Set<string>()
+    // 代码块和公式块只写属性，不改内容
+    const editable = !/^\s*(```|\$\$)/.test(before)
+
+    if (editable && modes.includes("ref")) {
+      for (const entity of entities) {
+        const refDocId = await this.findEntityDoc(entity.name)
+        if (!refDocId || refDocId === docId) continue
+
+        const ref = `((${refDocId} '${entity.name.replace(/'/g, "")}'))`
+        const index = lines.findIndex(
+          (line) => !IAL_LINE_REGEX.test(line) && this.indexOfUnprotected(line, entity.name) >= 0
+        )
+        if (index >= 0) {
+          const pos = this.indexOfUnprotected(lines[index], entity.name)
+          lines[index] = lines[index].substring(0, pos) + ref + lines[index].substring(pos + entity.name.length)
+          touched.add(entity.name)
+        }
+      }
+    }
+
+    if (editable && modes.includes("tag") && TAGGABLE_BLOCK_TYPES.has(await this.getBlockType(blockId))) {
+      const lastIndex = this.lastContentLine(lines)
+      if (lastIndex >= 0) {
+        entities
+          .filter((e) => !e.name.includes("#") && !lines[lastIndex].includes(`#${e.name}#`))
+          .forEach((e) => {
+            lines[lastIndex] = `${lines[lastIndex]} #${e.name}#`
+            touched.add(e.name)
+          })
+      }
+    }
+
+    let attrs: Record<string, string> | undefined
+    let attrsBefore: Record<string, string> | undefined
+    if (modes.includes("attribute")) {
+      const current = await this.kernelApi.getBlockAttrs(blockId)
+      const value = entities.map((e) => `${e.name}:${e.type}`).join(",")
+      if (current[AI_ENTITIES_ATTR] !== value) {
+        attrs = { [AI_ENTITIES_ATTR]: value }
+        attrsBefore = current[AI_ENTITIES_ATTR] !== undefined ? { [AI_ENTITIES_ATTR]: current[AI_ENTITIES_ATTR] } : {}
+        entities.forEach((e) => touched.add(e.name))
+      }
+    }
+
+    const after = lines.join("\n")
+    if (after === before && !attrs) {
+      return undefined
+    }
+
+    return {
+      docId,
+      blockId,
+      entities: Array.from(touched),
+      before,
+      after,
+      attrs,
+      attrsBefore,
+    }
+  }
+
+  /**
+   * 待写的属性在预览之后是否被修改过，预览时不存在的属性应仍不存在
+   */
+  private async attrsChanged(change: WriteBackChange): Promise<boolean> {
+    const current = await this.kernelApi.getBlockAttrs(change.blockId)
+    return Object.keys(change.attrs ?? {}).some((key) => current[key] !== change.attrsBefore?.[key])
+  }
+
+  /**
+   * 查询块类型
+   */
+  private async getBlockType(blockId: string): Promise<string> {
+    const res = await this.kernelApi.sql(`SELECT type FROM blocks WHERE id = '${blockId}' LIMIT 1`)
+    if (res.code !== 0) {
+      throw new Error(`思源请求失败：${res.msg}`)
+    }
+    return (res.data as any[])?.[0]?.type ?? ""
+  }
+
+  /**
+   * 查找与实体同名的文档，作为实体的规范文档
+   */
+  private async findEntityDoc(name: string): Promise<string | undefined> {
+    const res = await this.kernelApi.sql(
+      `SELECT id FROM blocks WHERE type = 'd' AND content = '${name.replace(/'/g, "''")}' LIMIT 1`
+    )
+    if (res.code !== 0) {
+      throw new Error(`思源请求失败：${res.msg}`)
+    }
+    return (res.data as any[])?.[0]?.id
+  }
+
+  /**
+   * 在 PROTECTED_REGEX 匹配的范围之外查找文本
+   */
+  private indexOfUnprotected(line: string, text: string): number {
+    const ranges: Array<[number, number]> = []
+    for (const match of line.matchAll(PROTECTED_REGEX)) {
+      ranges.push([match.index!, match.index! + match[0].length])
+    }
+
+    let pos = line.indexOf(text)
+    while (pos >= 0) {
+      const end = pos + text.length
+      if (!ranges.some(([s, e]) => pos < e && end > s)) {
+        return pos
+      }
+      pos = line.indexOf(text, pos + 1)
+    }
+    return -1
+  }
+
+  /**
+   * 最后一个非块属性的非空行
+   */
+  private lastContentLine(lines: string[]): number {
+    for (let i = lines.length - 1; i >= 0; i--) {
+      if (lines[i].trim() && !IAL_LINE_REGEX.test(lines[i])) {
+        return i
+      }
+    }
+    return -1
+  }
+}
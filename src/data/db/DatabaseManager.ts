@@ -1,4 +1,14 @@
-import type { Document, Entity, Relationship, Token } from "../types"
+import type {
+  CanonicalEntity,
+  Document,
+  DocumentKeyword,
+  Entity,
+  EntityAlias,
+  EntityMention,
+  IndexEntry,
+  Relationship,
+  Token,
+} from "../types"
 
 /**
  * 数据库管理器，负责与SQLite数据库交互
@@ -52,6 +62,13 @@ export class DatabaseManager {
         updated_at INTEGER
       );
       
+      -- 创建同步游标表
+      CREATE TABLE IF NOT EXISTS sync_state (
+        state_key TEXT PRIMARY KEY,
+        state_value TEXT,
+        updated_at INTEGER
+      );
+      
       -- 创建实体表
       CREATE TABLE IF NOT EXISTS entities (
         entity_id INTEGER PRIMARY KEY AUTOINCREMENT,
@@ -60,6 +77,7 @@ export class DatabaseManager {
         doc_id TEXT,
         start_pos INTEGER,
         end_pos INTEGER,
+        block_id TEXT,
         source TEXT DEFAULT 'rule',
         confidence REAL DEFAULT 1.0,
         properties TEXT,
@@ -67,6 +85,30 @@ export class DatabaseManager {
         UNIQUE(entity_name, doc_id, start_pos, end_pos)
       );
       
+      -- 创建规范实体表
+      CREATE TABLE IF NOT EXISTS canonical_entities (
+        canonical_id INTEGER PRIMARY KEY AUTOINCREMENT,
+        canonical_name TEXT NOT NULL,
+        entity_type TEXT NOT NULL,
+        block_id TEXT NOT NULL DEFAULT '',
+        aliases TEXT,
+        description TEXT,
+        created_at INTEGER,
+        updated_at INTEGER,
+        UNIQUE(canonical_name, entity_type, block_id)
+      );
+      
+      -- 创建实体提及表
+      CREATE TABLE IF NOT EXISTS entity_mentions (
+        mention_id INTEGER PRIMARY KEY AUTOINCREMENT,
+        canonical_id INTEGER NOT NULL,
+        entity_id INTEGER NOT NULL UNIQUE,
+        doc_id TEXT,
+        FOREIGN KEY (canonical_id) REFERENCES canonical_entities(canonical_id) ON DELETE CASCADE,
+        FOREIGN KEY (entity_id) REFERENCES entities(entity_id) ON DELETE CASCADE,
+        FOREIGN KEY (doc_id) REFERENCES documents(doc_id) ON DELETE CASCADE
+      );
+      
       -- 创建关系表
       CREATE TABLE IF NOT EXISTS relationships (
         rel_id INTEGER PRIMARY KEY AUTOINCREMENT,
@@ -74,6 +116,7 @@ export class DatabaseManager {
         target_entity_id INTEGER,
         rel_type TEXT NOT NULL,
         doc_id TEXT,
+        block_id TEXT,
         confidence REAL DEFAULT 1.0,
         source TEXT DEFAULT 'rule',
         evidence_text TEXT,
@@ -99,19 +142,34 @@ export class DatabaseManager {
         doc_id TEXT,
         frequency INTEGER DEFAULT 1,
         positions TEXT,
+        surfaces TEXT,
         FOREIGN KEY (term_id) REFERENCES inverted_index(term_id) ON DELETE CASCADE,
         FOREIGN KEY (doc_id) REFERENCES documents(doc_id) ON DELETE CASCADE
       );
       
+      -- 创建文档关键词表
+      CREATE TABLE IF NOT EXISTS document_keywords (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        doc_id TEXT NOT NULL,
+        term TEXT NOT NULL,
+        text TEXT NOT NULL,
+        score REAL NOT NULL,
+        FOREIGN KEY (doc_id) REFERENCES documents(doc_id) ON DELETE CASCADE,
+        UNIQUE(doc_id, term)
+      );
+      
       -- 创建索引以提高查询性能
       CREATE INDEX IF NOT EXISTS idx_entities_doc_id ON entities(doc_id);
       CREATE INDEX IF NOT EXISTS idx_entities_name ON entities(entity_name);
       CREATE INDEX IF NOT EXISTS idx_entities_type ON entities(entity_type);
+      CREATE INDEX IF NOT EXISTS idx_entity_mentions_canonical_id ON entity_mentions(canonical_id);
+      CREATE INDEX IF NOT EXISTS idx_entity_mentions_doc_id ON entity_mentions(doc_id);
       CREATE INDEX IF NOT EXISTS idx_relationships_doc_id ON relationships(doc_id);
       CREATE INDEX IF NOT EXISTS idx_relationships_source ON relationships(source_entity_id);
       CREATE INDEX IF NOT EXISTS idx_relationships_target ON relationships(target_entity_id);
       CREATE INDEX IF NOT EXISTS idx_index_entries_term_id ON index_entries(term_id);
       CREATE INDEX IF NOT EXISTS idx_index_entries_doc_id ON index_entries(doc_id);
+      CREATE INDEX IF NOT EXISTS idx_document_keywords_term ON document_keywords(term);
       
       -- 创建实体别名表
       CREATE TABLE IF NOT EXISTS entity_aliases (
@@ -143,6 +201,11 @@ export class DatabaseManager {
 
     try {
       this.db.exec(createTablesSQL)
+      this.migrateDatabase()
+      this.db.exec(`
+        CREATE INDEX IF NOT EXISTS idx_entities_block_id ON entities(block_id);
+        CREATE INDEX IF NOT EXISTS idx_relationships_block_id ON relationships(block_id);
+      `)
       console.log("Database initialized successfully")
     } catch (error) {
       console.error("Failed to initialize database:", error)
@@ -150,6 +213,49 @@ export class DatabaseManager {
     }
   }
 
+  /**
+   * 为旧版本数据库补充新增的列
+   */
+  private migrateDatabase(): void {
+    const addColumnIfMissing = (table: string, column: string, definition: string) => {
+      const columns = this.db.prepare(`PRAGMA table_info(${table})`).all()
+      if (!columns.some((col: any) => col.name === column)) {
+        this.db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`)
+      }
+    }
+
+    addColumnIfMissing("entities", "block_id", "TEXT")
+    addColumnIfMissing("relationships", "block_id", "TEXT")
+    addColumnIfMissing("index_entries", "surfaces", "TEXT")
+
+    // 规范实体增加块ID，唯一约束需要包含块ID，SQLite 不能修改约束，只能重建表
+    const canonicalColumns = this.db.prepare(`PRAGMA table_info(canonical_entities)`).all()
+    if (!canonicalColumns.some((col: any) => col.name === "block_id")) {
+      // 关闭外键，避免删除旧表时级联删除实体提及
+      this.db.pragma("foreign_keys = OFF")
+      this.db.exec(`
+        BEGIN TRANSACTION;
+        CREATE TABLE canonical_entities_new (
+          canonical_id INTEGER PRIMARY KEY AUTOINCREMENT,
+          canonical_name TEXT NOT NULL,
+          entity_type TEXT NOT NULL,
+          block_id TEXT NOT NULL DEFAULT '',
+          aliases TEXT,
+          description TEXT,
+          created_at INTEGER,
+          updated_at INTEGER,
+          UNIQUE(canonical_name, entity_type, block_id)
+        );
+        INSERT INTO canonical_entities_new (canonical_id, canonical_name, entity_type, aliases, description, created_at, updated_at)
+          SELECT canonical_id, canonical_name, entity_type, aliases, description, created_at, updated_at FROM canonical_entities;
+        DROP TABLE canonical_entities;
+        ALTER TABLE canonical_entities_new RENAME TO canonical_entities;
+        COMMIT;
+      `)
+      this.db.pragma("foreign_keys = ON")
+    }
+  }
+
   /**
    * 开始事务
    */
@@ -185,7 +291,7 @@ export class DatabaseManager {
     const insertDoc = {
       ...doc,
       createdAt: doc.createdAt || now,
-      updatedAt: now,
+      updatedAt: doc.updatedAt || now,
     }
 
     try {
@@ -243,12 +349,128 @@ export class DatabaseManager {
       // 删除文档会级联删除相关的实体、关系和索引条目
       const stmt = this.db.prepare(`DELETE FROM documents WHERE doc_id = ?`)
       stmt.run(docId)
+      this.deleteOrphanedInferences()
+      this.deleteOrphanedCanonicals()
+      // 清理不再被任何文档引用的词项
+      this.db.exec(`DELETE FROM inverted_index WHERE term_id NOT IN (SELECT DISTINCT term_id FROM index_entries)`)
     } catch (error) {
       console.error("Failed to delete document:", error)
       throw error
     }
   }
 
+  /**
+   * 获取所有文档ID
+   */
+  async getAllDocumentIds(): Promise<string[]> {
+    if (!this.db) return []
+
+    try {
+      const stmt = this.db.prepare(`SELECT doc_id FROM documents`)
+      return stmt.all().map((row: any) => row.doc_id)
+    } catch (error) {
+      console.error("Failed to get document ids:", error)
+      return []
+    }
+  }
+
+  /**
+   * 清除文档的派生数据（实体、关系和索引条目），保留文档本身
+   */
+  async purgeDocumentData(docId: string): Promise<void> {
+    if (!this.db) return
+
+    try {
+      this.beginTransaction()
+
+      // 其他文档中指向该文档实体的关系和实体提及由外键级联删除
+      this.db.prepare(`DELETE FROM relationships WHERE doc_id = ?`).run(docId)
+      this.db.prepare(`DELETE FROM entities WHERE doc_id = ?`).run(docId)
+      this.db.prepare(`DELETE FROM index_entries WHERE doc_id = ?`).run(docId)
+      this.db.prepare(`DELETE FROM document_keywords WHERE doc_id = ?`).run(docId)
+      // 清理不再被任何文档引用的词项
+      this.db.exec(`DELETE FROM inverted_index WHERE term_id NOT IN (SELECT DISTINCT term_id FROM index_entries)`)
+      this.deleteOrphanedInferences()
+      this.deleteOrphanedCanonicals()
+
+      this.commitTransaction()
+    } catch (error) {
+      this.rollbackTransaction()
+      console.error("Failed to purge document data:", error)
+      throw error
+    }
+  }
+
+  /**
+   * 删除前提已不存在的推理关系，返回删除的条数
+   */
+  async pruneInferredRelationships(): Promise<number> {
+    if (!this.db) return 0
+
+    try {
+      return this.deleteOrphanedInferences()
+    } catch (error) {
+      console.error("Failed to prune inferred relationships:", error)
+      return 0
+    }
+  }
+
+  /**
+   * 删除已没有任何提及的规范实体，避免它们继续出现在图谱和实体词典中
+   */
+  private deleteOrphanedCanonicals(): number {
+    return this.db
+      .prepare(
+        `DELETE FROM canonical_entities WHERE canonical_id NOT IN (SELECT DISTINCT canonical_id FROM entity_mentions)`
+      )
+      .run().changes
+  }
+
+  /**
+   * 推理关系的前提记录在 properties.premises 中，前提也可能是推理关系，反复删除直到没有悬空的推理关系
+   */
+  private deleteOrphanedInferences(): number {
+    const stmt = this.db.prepare(
+      `DELETE FROM relationships WHERE source = 'inferred' AND EXISTS (
+         SELECT 1 FROM json_each(relationships.properties, '$.premises') AS premise
+         WHERE premise.value NOT IN (SELECT rel_id FROM relationships))`
+    )
+    let total = 0
+    for (let changes = stmt.run().changes; changes > 0; changes = stmt.run().changes) {
+      total += changes
+    }
+    return total
+  }
+
+  // 同步游标相关操作
+  async getSyncCursor(key: string): Promise<string | null> {
+    if (!this.db) return null
+
+    try {
+      const stmt = this.db.prepare(`SELECT state_value FROM sync_state WHERE state_key = ?`)
+      const row = stmt.get(key)
+      return row ? row.state_value : null
+    } catch (error) {
+      console.error("Failed to get sync cursor:", error)
+      return null
+    }
+  }
+
+  async setSyncCursor(key: string, value: string): Promise<void> {
+    if (!this.db) return
+
+    try {
+      const stmt = this.db.prepare(
+        `INSERT INTO sync_state (state_key, state_value, updated_at) VALUES (?, ?, ?)
+         ON CONFLICT(state_key) DO UPDATE SET state_value = excluded.state_value, updated_at = excluded.updated_at`
+      )
+      stmt.run(key, value, Date.now())
+    } catch (error) {
+      console.error("Failed to set sync cursor:", error)
+      throw error
+    }
+  }
+
   // 实体相关操作
   async saveEntities(entities: Entity[]): Promise<void> {
     if (!this.db || entities.length === 0) return
@@ -257,10 +479,11 @@ export class DatabaseManager {
       this.beginTransaction()
 
       const insertStmt = this.db.prepare(
-        `INSERT INTO entities (entity_name, entity_type, doc_id, start_pos, end_pos, source, confidence, properties)
-         VALUES (@entityName, @entityType, @docId, @startPos, @endPos, @source, @confidence, @properties)
+        `INSERT INTO entities (entity_name, entity_type, doc_id, start_pos, end_pos, block_id, source, confidence, properties)
+         VALUES (@entityName, @entityType, @docId, @startPos, @endPos, @blockId, @source, @confidence, @properties)
          ON CONFLICT(entity_name, doc_id, start_pos, end_pos) DO UPDATE SET
-         entity_type = @entityType, source = @source, confidence = @confidence, properties = @properties`
+         entity_type = @entityType, block_id = @blockId, source = @source, confidence = @confidence,
+         properties = @properties`
       )
 
       entities.forEach((entity) => {
@@ -270,6 +493,7 @@ export class DatabaseManager {
           docId: entity.docId,
           startPos: entity.startPos,
           endPos: entity.endPos,
+          blockId: entity.blockId || null,
           source: entity.source || "rule",
           confidence: entity.confidence || 1.0,
           properties: entity.properties ? JSON.stringify(entity.properties) : null,
@@ -289,7 +513,7 @@ export class DatabaseManager {
 
     try {
       let query = `SELECT entity_id as id, entity_name as name, entity_type as type, doc_id as docId, 
-                  start_pos as startPos, end_pos as endPos, source, confidence, properties
+                  start_pos as startPos, end_pos as endPos, block_id as blockId, source, confidence, properties
                   FROM entities`
 
       const params: any[] = []
@@ -323,7 +547,115 @@ export class DatabaseManager {
     }
   }
 
+  // 规范实体相关操作
+  async saveCanonicalEntity(entity: CanonicalEntity): Promise<number> {
+    if (!this.db) return 0
+
+    try {
+      const now = Date.now()
+      const params = {
+        id: entity.id ?? null,
+        name: entity.name,
+        type: entity.type,
+        blockId: entity.blockId ?? "",
+        aliases: JSON.stringify(entity.aliases ?? []),
+        description: entity.description ?? null,
+        now: now,
+      }
+
+      if (entity.id !== undefined) {
+        this.db
+          .prepare(
+            `UPDATE canonical_entities SET canonical_name = @name, entity_type = @type, block_id = @blockId,
+             aliases = @aliases, description = @description, updated_at = @now WHERE canonical_id = @id`
+          )
+          .run(params)
+        return entity.id
+      }
+
+      this.db
+        .prepare(
+          `INSERT INTO canonical_entities (canonical_name, entity_type, block_id, aliases, description, created_at, updated_at)
+           VALUES (@name, @type, @blockId, @aliases, @description, @now, @now)
+           ON CONFLICT(canonical_name, entity_type, block_id) DO UPDATE SET
+           aliases = @aliases, description = COALESCE(@description, description), updated_at = @now`
+        )
+        .run(params)
+      const row = this.db
+        .prepare(
+          `SELECT canonical_id FROM canonical_entities WHERE canonical_name = ? AND entity_type = ? AND block_id = ?`
+        )
+        .get(entity.name, entity.type, params.blockId)
+      return row.canonical_id
+    } catch (error) {
+      console.error("Failed to save canonical entity:", error)
+      throw error
+    }
+  }
+
+  async getCanonicalEntities(): Promise<CanonicalEntity[]> {
+    if (!this.db) return []
+
+    try {
+      const stmt = this.db.prepare(
+        `SELECT canonical_id as id, canonical_name as name, entity_type as type, block_id as blockId, aliases,
+         description, created_at as createdAt, updated_at as updatedAt FROM canonical_entities`
+      )
+      return stmt.all().map((row: any) => ({
+        ...row,
+        blockId: row.blockId || undefined,
+        aliases: row.aliases ? JSON.parse(row.aliases) : [],
+        description: row.description ?? undefined,
+      }))
+    } catch (error) {
+      console.error("Failed to get canonical entities:", error)
+      return []
+    }
+  }
+
+  async saveEntityMentions(mentions: EntityMention[]): Promise<void> {
+    if (!this.db || mentions.length === 0) return
+
+    try {
+      this.beginTransaction()
+
+      const insertStmt = this.db.prepare(
+        `INSERT INTO entity_mentions (canonical_id, entity_id, doc_id) VALUES (@canonicalId, @entityId, @docId)
+         ON CONFLICT(entity_id) DO UPDATE SET canonical_id = @canonicalId, doc_id = @docId`
+      )
+      mentions.forEach((mention) => {
+        insertStmt.run({
+          canonicalId: mention.canonicalId,
+          entityId: mention.entityId,
+          docId: mention.docId,
+        })
+      })
+
+      this.commitTransaction()
+    } catch (error) {
+      this.rollbackTransaction()
+      console.error("Failed to save entity mentions:", error)
+      throw error
+    }
+  }
+
+  async getEntityMentions(canonicalId?: number): Promise<EntityMention[]> {
+    if (!this.db) return []
 
+    try {
+      let query = `SELECT mention_id as id, canonical_id as canonicalId, entity_id as entityId, doc_id as docId
+                   FROM entity_mentions`
+      const params: any[] = []
+      if (canonicalId !== undefined) {
+        query += " WHERE canonical_id = ?"
+        params.push(canonicalId)
+      }
+      return this.db.prepare(query).all(...params)
+    } catch (error) {
+      console.error("Failed to get entity mentions:", error)
+      return []
+    }
+  }
 
   // 关系相关操作
   async saveRelationships(relationships: Relationship[]): Promise<void> {
@@ -333,9 +665,9 @@ export class DatabaseManager {
       this.beginTransaction()
 
       const insertStmt = this.db.prepare(
-        `INSERT INTO relationships (source_entity_id, target_entity_id, rel_type, doc_id, 
+        `INSERT INTO relationships (source_entity_id, target_entity_id, rel_type, doc_id, block_id,
          confidence, source, evidence_text, properties)
-         VALUES (@sourceEntityId, @targetEntityId, @relType, @docId, @confidence, 
+         VALUES (@sourceEntityId, @targetEntityId, @relType, @docId, @blockId, @confidence, 
          @source, @evidenceText, @properties)`
       )
 
@@ -345,6 +677,7 @@ export class DatabaseManager {
           targetEntityId: rel.targetEntityId,
           relType: rel.type,
           docId: rel.docId,
+          blockId: rel.blockId || null,
           confidence: rel.confidence,
           source: rel.source || "rule",
           evidenceText: rel.evidenceText,
@@ -368,7 +701,8 @@ export class DatabaseManager {
 
     try {
       const query = `SELECT rel_id as id, source_entity_id as sourceEntityId, target_entity_id as targetEntityId, 
-                   rel_type as type, doc_id as docId, confidence, source, evidence_text as evidenceText, properties
+                   rel_type as type, doc_id as docId, block_id as blockId, confidence, source,
+                   evidence_text as evidenceText, properties
                    FROM relationships`
 
       const stmt = this.db.prepare(query)
@@ -396,13 +730,17 @@ export class DatabaseManager {
       const deleteIndexEntries = this.db.prepare(`DELETE FROM index_entries WHERE doc_id = ?`)
       deleteIndexEntries.run(docId)
 
-      // 构建词项到位置的映射
+      // 构建词项到位置的映射，词项为归一化后的索引词
       const termPositions = new Map<string, number[]>()
+      const termSurfaces = new Map<string, Set<string>>()
       tokens.forEach((token) => {
-        if (!termPositions.has(token.text)) {
-          termPositions.set(token.text, [])
+        const term = token.normalized ?? token.text
+        if (!termPositions.has(term)) {
+          termPositions.set(term, [])
+          termSurfaces.set(term, new Set())
         }
-        termPositions.get(token.text)!.push(token.start)
+        termPositions.get(term)!.push(token.start)
+        termSurfaces.get(term)!.add(token.text)
       })
 
       const insertTermStmt = this.db.prepare(
@@ -412,8 +750,8 @@ export class DatabaseManager {
       const getTermIdStmt = this.db.prepare(`SELECT term_id FROM inverted_index WHERE term = ?`)
 
       const insertEntryStmt = this.db.prepare(
-        `INSERT INTO index_entries (term_id, doc_id, frequency, positions)
-         VALUES (?, ?, ?, ?)`
+        `INSERT INTO index_entries (term_id, doc_id, frequency, positions, surfaces)
+         VALUES (?, ?, ?, ?, ?)`
       )
 
       // 插入词项和索引条目
@@ -422,7 +760,13 @@ export class DatabaseManager {
         const termResult = getTermIdStmt.get(term)
 
         if (termResult) {
-          insertEntryStmt.run(termResult.term_id, docId, positions.length, JSON.stringify(positions))
+          insertEntryStmt.run(
+            termResult.term_id,
+            docId,
+            positions.length,
+            JSON.stringify(positions),
+            JSON.stringify(Array.from(termSurfaces.get(term)!))
+          )
         }
       }
 
@@ -434,6 +778,85 @@ export class DatabaseManager {
     }
   }
 
+  async getIndexEntries(terms: string[]): Promise<IndexEntry[]> {
+    if (!this.db || terms.length === 0) return []
+
+    try {
+      const stmt = this.db.prepare(
+        `SELECT i.term, e.doc_id, e.frequency, e.positions, e.surfaces FROM index_entries e
+         JOIN inverted_index i ON i.term_id = e.term_id WHERE i.term IN (${terms.map(() => "?").join(",")})`
+      )
+      return stmt.all(...terms).map((row: any) => ({
+        term: row.term,
+        docId: row.doc_id,
+        frequency: row.frequency,
+        positions: row.positions ? JSON.parse(row.positions) : [],
+        surfaces: row.surfaces ? JSON.parse(row.surfaces) : [row.term],
+      }))
+    } catch (error) {
+      console.error("Failed to get index entries:", error)
+      return []
+    }
+  }
+
+  async getDocumentFrequencies(terms: string[]): Promise<Map<string, number>> {
+    const frequencies = new Map<string, number>()
+    if (!this.db || terms.length === 0) return frequencies
+
+    try {
+      const stmt = this.db.prepare(
+        `SELECT i.term, COUNT(DISTINCT e.doc_id) as df FROM index_entries e
+         JOIN inverted_index i ON i.term_id = e.term_id WHERE i.term IN (${terms.map(() => "?").join(",")})
+         GROUP BY i.term`
+      )
+      stmt.all(...terms).forEach((row: any) => frequencies.set(row.term, row.df))
+    } catch (error) {
+      console.error("Failed to get document frequencies:", error)
+    }
+    return frequencies
+  }
+
+  // 文档关键词相关操作
+  async saveDocumentKeywords(docId: string, keywords: DocumentKeyword[]): Promise<void> {
+    if (!this.db) return
+
+    try {
+      this.beginTransaction()
+
+      this.db.prepare(`DELETE FROM document_keywords WHERE doc_id = ?`).run(docId)
+      const insertStmt = this.db.prepare(
+        `INSERT OR IGNORE INTO document_keywords (doc_id, term, text, score) VALUES (@docId, @term, @text, @score)`
+      )
+      keywords.forEach((keyword) => {
+        insertStmt.run({ docId, term: keyword.term, text: keyword.text, score: keyword.score })
+      })
+
+      this.commitTransaction()
+    } catch (error) {
+      this.rollbackTransaction()
+      console.error("Failed to save document keywords:", error)
+      throw error
+    }
+  }
+
+  async getDocumentKeywords(docId?: string): Promise<DocumentKeyword[]> {
+    if (!this.db) return []
+
+    try {
+      let query = `SELECT doc_id as docId, term, text, score FROM document_keywords`
+      const params: any[] = []
+      if (docId) {
+        query += " WHERE doc_id = ?"
+        params.push(docId)
+      }
+      query += " ORDER BY doc_id, score DESC"
+      return this.db.prepare(query).all(...params)
+    } catch (error) {
+      console.error("Failed to get document keywords:", error)
+      return []
+    }
+  }
+
   // 实体别名相关操作
   async addEntityAlias(entityId: number, alias: string): Promise<void> {
     if (!this.db) return
@@ -447,6 +870,22 @@ export class DatabaseManager {
     }
   }
 
+  async getEntityAliases(): Promise<EntityAlias[]> {
+    if (!this.db) return []
+
+    try {
+      return this.db
+        .prepare(
+          `SELECT a.entity_id as entityId, a.alias, e.entity_type as type FROM entity_aliases a
+           JOIN entities e ON e.entity_id = a.entity_id`
+        )
+        .all()
+    } catch (error) {
+      console.error("Failed to get entity aliases:", error)
+      return []
+    }
+  }
+
   // 实体相似度相关操作
   async addEntitySimilarity(
     entityId1: number,
@@ -1,4 +1,14 @@
-import type { Document, Entity, Relationship, Token } from "../types"
+import type {
+  CanonicalEntity,
+  Document,
+  DocumentKeyword,
+  Entity,
+  EntityAlias,
+  EntityMention,
+  IndexEntry,
+  Relationship,
+  Token,
+} from "../types"
 import { DatabaseManager } from "./DatabaseManager"
 import { IndexedDBManager } from "./IndexedDBManager"
 import { MilvusManager } from "./MilvusManager"
@@ -54,6 +64,34 @@ export class DatabaseManagerAdapter {
     return this.dbManager.deleteDocument(docId)
   }
 
+  /**
+   * 获取所有文档ID
+   */
+  async getAllDocumentIds(): Promise<string[]> {
+    return this.dbManager.getAllDocumentIds()
+  }
+
+  /**
+   * 清除文档的派生数据（实体、关系和索引条目）
+   */
+  async purgeDocumentData(docId: string): Promise<void> {
+    return this.dbManager.purgeDocumentData(docId)
+  }
+
+  /**
+   * 获取同步游标
+   */
+  async getSyncCursor(key: string): Promise<string | null> {
+    return this.dbManager.getSyncCursor(key)
+  }
+
+  /**
+   * 保存同步游标
+   */
+  async setSyncCursor(key: string, value: string): Promise<void> {
+    return this.dbManager.setSyncCursor(key, value)
+  }
+
   /**
    * 保存实体
    */
@@ -73,6 +111,34 @@ export class DatabaseManagerAdapter {
     return this.dbManager.getEntities(docId, entityType)
   }
 
+  /**
+   * 保存规范实体，返回规范实体ID
+   */
+  async saveCanonicalEntity(entity: CanonicalEntity): Promise<number> {
+    return this.dbManager.saveCanonicalEntity(entity)
+  }
+
+  /**
+   * 获取所有规范实体
+   */
+  async getCanonicalEntities(): Promise<CanonicalEntity[]> {
+    return this.dbManager.getCanonicalEntities()
+  }
+
+  /**
+   * 保存实体提及
+   */
+  async saveEntityMentions(mentions: EntityMention[]): Promise<void> {
+    return this.dbManager.saveEntityMentions(mentions)
+  }
+
+  /**
+   * 获取实体提及
+   */
+  async getEntityMentions(canonicalId?: number): Promise<EntityMention[]> {
+    return this.dbManager.getEntityMentions(canonicalId)
+  }
+
   /**
    * 保存关系
    */
@@ -92,6 +158,13 @@ export class DatabaseManagerAdapter {
     return this.dbManager.getAllRelationships()
   }
 
+  /**
+   * 删除前提已不存在的推理关系
+   */
+  async pruneInferredRelationships(): Promise<number> {
+    return this.dbManager.pruneInferredRelationships()
+  }
+
   /**
    * 构建倒排索引
    */
@@ -99,6 +172,34 @@ export class DatabaseManagerAdapter {
     return this.dbManager.buildInvertedIndex(docId, tokens)
   }
 
+  /**
+   * 获取索引词对应的索引条目
+   */
+  async getIndexEntries(terms: string[]): Promise<IndexEntry[]> {
+    return this.dbManager.getIndexEntries(terms)
+  }
+
+  /**
+   * 获取索引词的文档频率
+   */
+  async getDocumentFrequencies(terms: string[]): Promise<Map<string, number>> {
+    return this.dbManager.getDocumentFrequencies(terms)
+  }
+
+  /**
+   * 保存文档关键词
+   */
+  async saveDocumentKeywords(docId: string, keywords: DocumentKeyword[]): Promise<void> {
+    return this.dbManager.saveDocumentKeywords(docId, keywords)
+  }
+
+  /**
+   * 获取文档关键词
+   */
+  async getDocumentKeywords(docId?: string): Promise<DocumentKeyword[]> {
+    return this.dbManager.getDocumentKeywords(docId)
+  }
+
   /**
    * 添加实体别名
    */
@@ -106,6 +207,13 @@ export class DatabaseManagerAdapter {
     return this.dbManager.addEntityAlias(entityId, alias)
   }
 
+  /**
+   * 获取所有实体别名
+   */
+  async getEntityAliases(): Promise<EntityAlias[]> {
+    return this.dbManager.getEntityAliases()
+  }
+
   /**
    * 添加实体相似度
    */
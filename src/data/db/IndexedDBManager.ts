@@ -1,11 +1,21 @@
-import type { Document, Entity, Relationship, Token } from "../types"
+import type {
+  CanonicalEntity,
+  Document,
+  DocumentKeyword,
+  Entity,
+  EntityAlias,
+  EntityMention,
+  IndexEntry,
+  Relationship,
+  Token,
+} from "../types"
 
 /**
  * IndexedDB 数据库管理器，负责与浏览器的 IndexedDB 数据库交互
  */
 export class IndexedDBManager {
   private dbName: string = "AiGraphDB"
-  private dbVersion: number = 1
+  private dbVersion: number = 7
   private db: IDBDatabase | null = null
 
   constructor() {
@@ -32,6 +42,7 @@ export class IndexedDBManager {
 
       request.onupgradeneeded = (event) => {
         const db = (event.target as IDBOpenDBRequest).result
+        const upgradeTransaction = (event.target as IDBOpenDBRequest).transaction!
 
         // 创建文档对象存储
         if (!db.objectStoreNames.contains("documents")) {
@@ -40,6 +51,11 @@ export class IndexedDBManager {
           docStore.createIndex("createdAt", "createdAt", { unique: false })
         }
 
+        // 创建同步游标对象存储
+        if (!db.objectStoreNames.contains("syncState")) {
+          db.createObjectStore("syncState", { keyPath: "key" })
+        }
+
         // 创建实体对象存储
         if (!db.objectStoreNames.contains("entities")) {
           const entityStore = db.createObjectStore("entities", { keyPath: "id", autoIncrement: true })
@@ -47,6 +63,47 @@ export class IndexedDBManager {
           entityStore.createIndex("name", "name", { unique: false })
           entityStore.createIndex("type", "type", { unique: false })
         }
+        // 版本 3 新增块ID索引
+        const entityStore = upgradeTransaction.objectStore("entities")
+        if (!entityStore.indexNames.contains("blockId")) {
+          entityStore.createIndex("blockId", "blockId", { unique: false })
+        }
+        // 版本 7 新增与 SQLite 唯一约束一致的实体键索引，同一文档中同名实体按位置区分
+        if (!entityStore.indexNames.contains("namePos")) {
+          entityStore.createIndex("namePos", ["name", "docId", "startPos", "endPos"], { unique: false })
+        }
+
+        // 版本 4 新增规范实体和实体提及对象存储
+        if (!db.objectStoreNames.contains("canonicalEntities")) {
+          db.createObjectStore("canonicalEntities", { keyPath: "id", autoIncrement: true })
+        }
+        // 版本 6 规范实体按名称、类型和块ID去重，有块身份的实体不再按名称合并
+        const canonicalStore = upgradeTransaction.objectStore("canonicalEntities")
+        if (canonicalStore.indexNames.contains("nameType")) {
+          canonicalStore.deleteIndex("nameType")
+        }
+        if (!canonicalStore.indexNames.contains("nameTypeBlock")) {
+          canonicalStore.openCursor().onsuccess = (cursorEvent) => {
+            const cursor = (cursorEvent.target as IDBRequest<IDBCursorWithValue | null>).result
+            if (cursor) {
+              cursor.update({ ...cursor.value, blockId: cursor.value.blockId ?? "" })
+              cursor.continue()
+            }
+          }
+          canonicalStore.createIndex("nameTypeBlock", ["name", "type", "blockId"], { unique: true })
+        }
+        if (!db.objectStoreNames.contains("entityMentions")) {
+          const mentionStore = db.createObjectStore("entityMentions", { keyPath: "entityId" })
+          mentionStore.createIndex("canonicalId", "canonicalId", { unique: false })
+          mentionStore.createIndex("docId", "docId", { unique: false })
+        }
+
+        // 版本 5 新增文档关键词对象存储
+        if (!db.objectStoreNames.contains("documentKeywords")) {
+          const keywordStore = db.createObjectStore("documentKeywords", { keyPath: ["docId", "term"] })
+          keywordStore.createIndex("docId", "docId", { unique: false })
+          keywordStore.createIndex("term", "term", { unique: false })
+        }
 
         // 创建关系对象存储
         if (!db.objectStoreNames.contains("relationships")) {
@@ -55,6 +112,10 @@ export class IndexedDBManager {
           relStore.createIndex("sourceEntityId", "sourceEntityId", { unique: false })
           relStore.createIndex("targetEntityId", "targetEntityId", { unique: false })
         }
+        const relStore = upgradeTransaction.objectStore("relationships")
+        if (!relStore.indexNames.contains("blockId")) {
+          relStore.createIndex("blockId", "blockId", { unique: false })
+        }
 
         // 创建倒排索引对象存储
         if (!db.objectStoreNames.contains("invertedIndex")) {
@@ -111,7 +172,7 @@ export class IndexedDBManager {
       const docToSave = {
         ...doc,
         createdAt: doc.createdAt || now,
-        updatedAt: now,
+        updatedAt: doc.updatedAt || now,
       }
 
       const request = store.put(docToSave)
@@ -155,6 +216,9 @@ export class IndexedDBManager {
    * 删除文档
    */
   async deleteDocument(docId: string): Promise<void> {
+    // IndexedDB 没有级联删除，先清除文档的派生数据
+    await this.purgeDocumentData(docId)
+
     const db = await this.getDB()
     return new Promise((resolve, reject) => {
       const transaction = db.transaction(["documents"], "readwrite")
@@ -174,12 +238,141 @@ export class IndexedDBManager {
     })
   }
 
+  /**
+   * 获取所有文档ID
+   */
+  async getAllDocumentIds(): Promise<string[]> {
+    const db = await this.getDB()
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(["documents"], "readonly")
+      const store = transaction.objectStore("documents")
+
+      const request = store.getAllKeys()
+
+      request.onsuccess = () => {
+        resolve(request.result as string[])
+      }
+
+      request.onerror = (event) => {
+        console.error("Failed to get document ids:", event)
+        reject(new Error("Failed to get document ids"))
+      }
+    })
+  }
+
+  /**
+   * 清除文档的派生数据（实体、关系和索引条目），保留文档本身
+   */
+  async purgeDocumentData(docId: string): Promise<void> {
+    const db = await this.getDB()
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(
+        ["entities", "relationships", "indexEntries", "entityMentions", "documentKeywords"],
+        "readwrite"
+      )
+      const entityStore = transaction.objectStore("entities")
+      const relStore = transaction.objectStore("relationships")
+      const entryStore = transaction.objectStore("indexEntries")
+      const mentionStore = transaction.objectStore("entityMentions")
+
+      // 删除索引中匹配的所有记录
+      const deleteByIndex = (store: IDBObjectStore, indexName: string, key: IDBValidKey) => {
+        const request = store.index(indexName).openCursor(IDBKeyRange.only(key))
+        request.onsuccess = () => {
+          const cursor = request.result
+          if (cursor) {
+            cursor.delete()
+            cursor.continue()
+          }
+        }
+      }
+
+      const entityRequest = entityStore.index("docId").getAllKeys(IDBKeyRange.only(docId))
+      entityRequest.onsuccess = () => {
+        // 删除实体以及所有指向这些实体的关系和提及（模拟外键级联）
+        ;(entityRequest.result as number[]).forEach((entityId) => {
+          entityStore.delete(entityId)
+          mentionStore.delete(entityId)
+          deleteByIndex(relStore, "sourceEntityId", entityId)
+          deleteByIndex(relStore, "targetEntityId", entityId)
+        })
+      }
+
+      deleteByIndex(relStore, "docId", docId)
+      deleteByIndex(entryStore, "docId", docId)
+      deleteByIndex(mentionStore, "docId", docId)
+      deleteByIndex(transaction.objectStore("documentKeywords"), "docId", docId)
+
+      // 前提随文档删除的推理关系和不再有提及的规范实体一并删除
+      transaction.oncomplete = () => {
+        this.pruneInferredRelationships()
+          .then(() => this.deleteOrphanedCanonicals())
+          .then(() => resolve(), reject)
+      }
+
+      transaction.onerror = (event) => {
+        console.error("Failed to purge document data:", event)
+        reject(new Error("Failed to purge document data"))
+      }
+    })
+  }
+
+  /**
+   * 获取同步游标
+   */
+  async getSyncCursor(key: string): Promise<string | null> {
+    const db = await this.getDB()
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(["syncState"], "readonly")
+      const store = transaction.objectStore("syncState")
+
+      const request = store.get(key)
+
+      request.onsuccess = () => {
+        resolve(request.result ? request.result.value : null)
+      }
+
+      request.onerror = (event) => {
+        console.error("Failed to get sync cursor:", event)
+        reject(new Error("Failed to get sync cursor"))
+      }
+    })
+  }
+
+  /**
+   * 保存同步游标
+   */
+  async setSyncCursor(key: string, value: string): Promise<void> {
+    const db = await this.getDB()
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(["syncState"], "readwrite")
+      const store = transaction.objectStore("syncState")
+
+      const request = store.put({ key, value, updatedAt: Date.now() })
+
+      request.onsuccess = () => {
+        resolve()
+      }
+
+      request.onerror = (event) => {
+        console.error("Failed to set sync cursor:", event)
+        reject(new Error("Failed to set sync cursor"))
+      }
+    })
+  }
+
   /**
    * 保存实体
    */
   async saveEntities(entities: Entity[]): Promise<void> {
     if (entities.length === 0) return
 
+    // 与 SQLite 的唯一约束一致，按名称、文档和位置去重，同一批中重复的实体以后出现的为准
+    const keyOf = (entity: Entity) => [entity.name, entity.docId, entity.startPos, entity.endPos]
+    const unique = new Map<string, Entity>()
+    entities.forEach((entity) => unique.set(JSON.stringify(keyOf(entity)), entity))
+    entities = Array.from(unique.values())
+
     const db = await this.getDB()
     return new Promise((resolve, reject) => {
       const transaction = db.transaction(["entities"], "readwrite")
@@ -190,18 +383,13 @@ export class IndexedDBManager {
 
       entities.forEach((entity) => {
         // 检查是否已存在相同的实体
-        const getRequest = store.index("name").get(entity.name)
+        const getRequest = store.index("namePos").get(keyOf(entity))
 
         getRequest.onsuccess = () => {
           const existingEntity = getRequest.result
 
-          // 如果不存在或不是同一个文档中的相同实体，则保存
-          if (
-            !existingEntity ||
-            existingEntity.docId !== entity.docId ||
-            existingEntity.startPos !== entity.startPos ||
-            existingEntity.endPos !== entity.endPos
-          ) {
+          // 如果不存在则保存，否则更新
+          if (!existingEntity) {
             const request = store.add(entity)
 
             request.onsuccess = () => {
@@ -303,7 +491,153 @@ export class IndexedDBManager {
     })
   }
 
+  /**
+   * 保存规范实体，名称、类型和块ID相同的规范实体会被更新，返回规范实体ID
+   */
+  async saveCanonicalEntity(entity: CanonicalEntity): Promise<number> {
+    const db = await this.getDB()
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(["canonicalEntities"], "readwrite")
+      const store = transaction.objectStore("canonicalEntities")
+      const now = Date.now()
+
+      // 没有块身份的规范实体以空字符串作为块ID，才能进入复合索引
+      const blockId = entity.blockId ?? ""
+      const save = (existing?: CanonicalEntity) => {
+        const record: CanonicalEntity = {
+          ...existing,
+          ...entity,
+          blockId,
+          aliases: entity.aliases ?? existing?.aliases ?? [],
+          description: entity.description ?? existing?.description,
+          createdAt: existing?.createdAt ?? now,
+          updatedAt: now,
+        }
+        if (existing?.id !== undefined) {
+          record.id = existing.id
+        } else if (record.id === undefined) {
+          delete record.id
+        }
+
+        const request = store.put(record)
+        request.onsuccess = () => {
+          resolve(request.result as number)
+        }
+        request.onerror = (event) => {
+          console.error("Failed to save canonical entity:", event)
+          reject(new Error("Failed to save canonical entity"))
+        }
+      }
+
+      if (entity.id !== undefined) {
+        const getRequest = store.get(entity.id)
+        getRequest.onsuccess = () => save(getRequest.result)
+        getRequest.onerror = () => save()
+      } else {
+        const getRequest = store.index("nameTypeBlock").get([entity.name, entity.type, blockId])
+        getRequest.onsuccess = () => save(getRequest.result)
+        getRequest.onerror = () => save()
+      }
+    })
+  }
+
+  /**
+   * 删除已没有任何提及的规范实体，避免它们继续出现在图谱和实体词典中
+   */
+  private async deleteOrphanedCanonicals(): Promise<void> {
+    const mentions = await this.getEntityMentions()
+    const referenced = new Set(mentions.map((mention) => mention.canonicalId))
+    const orphaned = (await this.getCanonicalEntities()).filter((canonical) => !referenced.has(canonical.id!))
+    if (orphaned.length === 0) return
+
+    const db = await this.getDB()
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(["canonicalEntities"], "readwrite")
+      const store = transaction.objectStore("canonicalEntities")
+      orphaned.forEach((canonical) => store.delete(canonical.id!))
+
+      transaction.oncomplete = () => {
+        resolve()
+      }
+
+      transaction.onerror = (event) => {
+        console.error("Failed to delete orphaned canonical entities:", event)
+        reject(new Error("Failed to delete orphaned canonical entities"))
+      }
+    })
+  }
+
+  /**
+   * 获取所有规范实体
+   */
+  async getCanonicalEntities(): Promise<CanonicalEntity[]> {
+    const db = await this.getDB()
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(["canonicalEntities"], "readonly")
+      const store = transaction.objectStore("canonicalEntities")
+
+      const request = store.getAll()
+
+      request.onsuccess = () => {
+        const canonicals = request.result as CanonicalEntity[]
+        resolve(canonicals.map((canonical) => ({ ...canonical, blockId: canonical.blockId || undefined })))
+      }
+
+      request.onerror = (event) => {
+        console.error("Failed to get canonical entities:", event)
+        reject(new Error("Failed to get canonical entities"))
+      }
+    })
+  }
+
+  /**
+   * 保存实体提及，同一实体的提及会被覆盖
+   */
+  async saveEntityMentions(mentions: EntityMention[]): Promise<void> {
+    if (mentions.length === 0) return
+
+    const db = await this.getDB()
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(["entityMentions"], "readwrite")
+      const store = transaction.objectStore("entityMentions")
+
+      mentions.forEach((mention) => {
+        store.put({ canonicalId: mention.canonicalId, entityId: mention.entityId, docId: mention.docId })
+      })
+
+      transaction.oncomplete = () => {
+        resolve()
+      }
+
+      transaction.onerror = (event) => {
+        console.error("Failed to save entity mentions:", event)
+        reject(new Error("Failed to save entity mentions"))
+      }
+    })
+  }
+
+  /**
+   * 获取实体提及，可按规范实体过滤
+   */
+  async getEntityMentions(canonicalId?: number): Promise<EntityMention[]> {
+    const db = await this.getDB()
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(["entityMentions"], "readonly")
+      const store = transaction.objectStore("entityMentions")
+
+      const request =
+        canonicalId !== undefined ? store.index("canonicalId").getAll(IDBKeyRange.only(canonicalId)) : store.getAll()
+
+      request.onsuccess = () => {
+        resolve(request.result as EntityMention[])
+      }
 
+      request.onerror = (event) => {
+        console.error("Failed to get entity mentions:", event)
+        reject(new Error("Failed to get entity mentions"))
+      }
+    })
+  }
 
   /**
    * 保存关系
@@ -359,6 +693,47 @@ export class IndexedDBManager {
     })
   }
 
+  /**
+   * 删除前提已不存在的推理关系，返回删除的条数
+   */
+  async pruneInferredRelationships(): Promise<number> {
+    const relationships = await this.getAllRelationships()
+    const existing = new Set(relationships.map((rel) => rel.id))
+    const orphaned: number[] = []
+
+    // 前提也可能是推理关系，反复查找直到没有新的悬空关系
+    let changed = true
+    while (changed) {
+      changed = false
+      relationships.forEach((rel) => {
+        if (rel.source !== "inferred" || !existing.has(rel.id)) return
+        const premises: number[] = rel.properties?.premises ?? []
+        if (premises.some((id) => !existing.has(id))) {
+          existing.delete(rel.id)
+          orphaned.push(rel.id!)
+          changed = true
+        }
+      })
+    }
+    if (orphaned.length === 0) return 0
+
+    const db = await this.getDB()
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(["relationships"], "readwrite")
+      const store = transaction.objectStore("relationships")
+      orphaned.forEach((id) => store.delete(id))
+
+      transaction.oncomplete = () => {
+        resolve(orphaned.length)
+      }
+
+      transaction.onerror = (event) => {
+        console.error("Failed to prune inferred relationships:", event)
+        reject(new Error("Failed to prune inferred relationships"))
+      }
+    })
+  }
+
   /**
    * 构建倒排索引
    */
@@ -379,13 +754,17 @@ export class IndexedDBManager {
           cursor.delete()
           cursor.continue()
         } else {
-          // 删除完成后，插入新的索引条目
+          // 删除完成后，插入新的索引条目，词项为归一化后的索引词
           const termPositions = new Map<string, number[]>()
+          const termSurfaces = new Map<string, Set<string>>()
           tokens.forEach((token) => {
-            if (!termPositions.has(token.text)) {
-              termPositions.set(token.text, [])
+            const term = token.normalized ?? token.text
+            if (!termPositions.has(term)) {
+              termPositions.set(term, [])
+              termSurfaces.set(term, new Set())
             }
-            termPositions.get(token.text)!.push(token.start)
+            termPositions.get(term)!.push(token.start)
+            termSurfaces.get(term)!.add(token.text)
           })
 
           let savedCount = 0
@@ -402,6 +781,7 @@ export class IndexedDBManager {
               docId,
               frequency: positions.length,
               positions: JSON.stringify(positions),
+              surfaces: Array.from(termSurfaces.get(term)!),
             }
 
             const request = store.add(entry)
@@ -429,6 +809,132 @@ export class IndexedDBManager {
     })
   }
 
+  /**
+   * 获取索引词对应的索引条目
+   */
+  async getIndexEntries(terms: string[]): Promise<IndexEntry[]> {
+    if (terms.length === 0) return []
+
+    const db = await this.getDB()
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(["indexEntries"], "readonly")
+      const index = transaction.objectStore("indexEntries").index("term")
+      const entries: IndexEntry[] = []
+
+      terms.forEach((term) => {
+        const request = index.getAll(IDBKeyRange.only(term))
+        request.onsuccess = () => {
+          request.result.forEach((row: any) => {
+            entries.push({
+              term: row.term,
+              docId: row.docId,
+              frequency: row.frequency,
+              positions: row.positions ? JSON.parse(row.positions) : [],
+              surfaces: row.surfaces ?? [row.term],
+            })
+          })
+        }
+      })
+
+      transaction.oncomplete = () => {
+        resolve(entries)
+      }
+
+      transaction.onerror = (event) => {
+        console.error("Failed to get index entries:", event)
+        reject(new Error("Failed to get index entries"))
+      }
+    })
+  }
+
+  /**
+   * 获取索引词的文档频率
+   */
+  async getDocumentFrequencies(terms: string[]): Promise<Map<string, number>> {
+    const frequencies = new Map<string, number>()
+    if (terms.length === 0) return frequencies
+
+    const db = await this.getDB()
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(["indexEntries"], "readonly")
+      const index = transaction.objectStore("indexEntries").index("term")
+
+      // 同一文档中的词项只有一个索引条目，条目数即文档数
+      terms.forEach((term) => {
+        const request = index.count(IDBKeyRange.only(term))
+        request.onsuccess = () => {
+          if (request.result > 0) {
+            frequencies.set(term, request.result)
+          }
+        }
+      })
+
+      transaction.oncomplete = () => {
+        resolve(frequencies)
+      }
+
+      transaction.onerror = (event) => {
+        console.error("Failed to get document frequencies:", event)
+        reject(new Error("Failed to get document frequencies"))
+      }
+    })
+  }
+
+  /**
+   * 保存文档关键词，替换该文档原有的关键词
+   */
+  async saveDocumentKeywords(docId: string, keywords: DocumentKeyword[]): Promise<void> {
+    const db = await this.getDB()
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(["documentKeywords"], "readwrite")
+      const store = transaction.objectStore("documentKeywords")
+
+      const request = store.index("docId").openCursor(IDBKeyRange.only(docId))
+      request.onsuccess = () => {
+        const cursor = request.result
+        if (cursor) {
+          cursor.delete()
+          cursor.continue()
+        } else {
+          keywords.forEach((keyword) => {
+            store.put({ docId, term: keyword.term, text: keyword.text, score: keyword.score })
+          })
+        }
+      }
+
+      transaction.oncomplete = () => {
+        resolve()
+      }
+
+      transaction.onerror = (event) => {
+        console.error("Failed to save document keywords:", event)
+        reject(new Error("Failed to save document keywords"))
+      }
+    })
+  }
+
+  /**
+   * 获取文档关键词，不指定文档时返回全部
+   */
+  async getDocumentKeywords(docId?: string): Promise<DocumentKeyword[]> {
+    const db = await this.getDB()
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(["documentKeywords"], "readonly")
+      const store = transaction.objectStore("documentKeywords")
+
+      const request = docId ? store.index("docId").getAll(IDBKeyRange.only(docId)) : store.getAll()
+
+      request.onsuccess = () => {
+        resolve((request.result as DocumentKeyword[]).sort((a, b) => b.score - a.score))
+      }
+
+      request.onerror = (event) => {
+        console.error("Failed to get document keywords:", event)
+        reject(new Error("Failed to get document keywords"))
+      }
+    })
+  }
+
   /**
    * 添加实体别名
    */
@@ -458,6 +964,32 @@ export class IndexedDBManager {
     })
   }
 
+  /**
+   * 获取所有实体别名，类型取自别名所属的实体
+   */
+  async getEntityAliases(): Promise<EntityAlias[]> {
+    const db = await this.getDB()
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(["entityAliases", "entities"], "readonly")
+      const aliasRequest = transaction.objectStore("entityAliases").getAll()
+      const entityRequest = transaction.objectStore("entities").getAll()
+
+      transaction.oncomplete = () => {
+        const types = new Map((entityRequest.result as Entity[]).map((entity) => [entity.id, entity.type]))
+        resolve(
+          (aliasRequest.result as Array<{ entityId: number; alias: string }>)
+            .filter((item) => types.has(item.entityId))
+            .map((item) => ({ entityId: item.entityId, alias: item.alias, type: types.get(item.entityId)! }))
+        )
+      }
+
+      transaction.onerror = (event) => {
+        console.error("Failed to get entity aliases:", event)
+        reject(new Error("Failed to get entity aliases"))
+      }
+    })
+  }
+
   /**
    * 添加实体相似度
    */
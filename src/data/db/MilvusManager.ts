@@ -1,5 +1,15 @@
 /* eslint-disable */
-import type { Document, Entity, Relationship, Token } from "../types"
+import type {
+  CanonicalEntity,
+  Document,
+  DocumentKeyword,
+  Entity,
+  EntityAlias,
+  EntityMention,
+  IndexEntry,
+  Relationship,
+  Token,
+} from "../types"
 import { type DataType, type ErrorCode, type MilvusClient } from "@zilliz/milvus2-sdk-node"
 
 /**
@@ -79,6 +89,11 @@ export class MilvusManager {
               data_type: DataType.VarChar,
               max_length: 100,
             },
+            {
+              name: "block_id",
+              data_type: DataType.VarChar,
+              max_length: 64,
+            },
             {
               name: "vector",
               data_type: DataType.FloatVector,
@@ -156,6 +171,11 @@ export class MilvusManager {
               data_type: DataType.VarChar,
               max_length: 100,
             },
+            {
+              name: "block_id",
+              data_type: DataType.VarChar,
+              max_length: 64,
+            },
             {
               name: "vector",
               data_type: DataType.FloatVector,
@@ -211,6 +231,7 @@ export class MilvusManager {
         entity_name: entity.name,
         doc_id: entity.docId,
         entity_type: entity.type,
+        block_id: entity.blockId || "",
         vector: this.generateDummyVector(128), // 生成虚拟向量，实际应使用模型
         confidence: entity.confidence || 1.0,
         source: entity.source || "rule",
@@ -248,6 +269,7 @@ export class MilvusManager {
         target_entity_id: rel.targetEntityId,
         doc_id: rel.docId,
         rel_type: rel.type,
+        block_id: rel.blockId || "",
         vector: this.generateDummyVector(128), // 生成虚拟向量，实际应使用模型
         confidence: rel.confidence,
         source: rel.source || "rule",
@@ -287,7 +309,7 @@ export class MilvusManager {
           metric_type: "L2",
           params: JSON.stringify({ nprobe: 16 }),
         },
-        output_fields: ["entity_id", "entity_name", "doc_id", "entity_type", "confidence", "source"],
+        output_fields: ["entity_id", "entity_name", "doc_id", "entity_type", "block_id", "confidence", "source"],
       })
 
       if (result.status.error_code !== ErrorCode.SUCCESS) {
@@ -299,6 +321,7 @@ export class MilvusManager {
         name: item.entity_name,
         docId: item.doc_id,
         type: item.entity_type,
+        blockId: item.block_id,
         confidence: item.confidence,
         source: item.source,
         distance: item.score,
@@ -327,7 +350,16 @@ export class MilvusManager {
           metric_type: "L2",
           params: JSON.stringify({ nprobe: 16 }),
         },
-        output_fields: ["rel_id", "source_entity_id", "target_entity_id", "doc_id", "rel_type", "confidence", "source"],
+        output_fields: [
+          "rel_id",
+          "source_entity_id",
+          "target_entity_id",
+          "doc_id",
+          "rel_type",
+          "block_id",
+          "confidence",
+          "source",
+        ],
       })
 
       if (result.status.error_code !== ErrorCode.SUCCESS) {
@@ -340,6 +372,7 @@ export class MilvusManager {
         targetEntityId: item.target_entity_id,
         docId: item.doc_id,
         type: item.rel_type,
+        blockId: item.block_id,
         confidence: item.confidence,
         source: item.source,
         distance: item.score,
@@ -387,28 +420,124 @@ export class MilvusManager {
     console.warn("deleteDocument is not implemented in Milvus adapter, use primary database")
   }
 
+  async getAllDocumentIds(): Promise<string[]> {
+    // 文档检索仍由主数据库处理
+    console.warn("getAllDocumentIds is not implemented in Milvus adapter, use primary database")
+    return []
+  }
+
+  async purgeDocumentData(docId: string): Promise<void> {
+    if (!this.client || !this.isConnected) {
+      throw new Error("Milvus client not connected")
+    }
+
+    try {
+      // 删除该文档的实体向量和关系向量
+      await this.client.delete({
+        collection_name: this.collectionName,
+        filter: `doc_id == "${docId}"`,
+      })
+      await this.client.delete({
+        collection_name: this.relationshipCollectionName,
+        filter: `doc_id == "${docId}"`,
+      })
+    } catch (error) {
+      console.error("Failed to purge document data from Milvus:", error)
+      throw error
+    }
+  }
+
+  async getSyncCursor(key: string): Promise<string | null> {
+    // 同步游标仍由主数据库处理
+    console.warn("getSyncCursor is not implemented in Milvus adapter, use primary database")
+    return null
+  }
+
+  async setSyncCursor(key: string, value: string): Promise<void> {
+    // 同步游标仍由主数据库处理
+    console.warn("setSyncCursor is not implemented in Milvus adapter, use primary database")
+  }
+
   async getEntities(docId?: string, entityType?: string): Promise<Entity[]> {
     // 实体检索仍由主数据库处理
     console.warn("getEntities is not implemented in Milvus adapter, use primary database")
     return []
   }
 
+  async saveCanonicalEntity(entity: CanonicalEntity): Promise<number> {
+    // 规范实体仍由主数据库处理
+    console.warn("saveCanonicalEntity is not implemented in Milvus adapter, use primary database")
+    return 0
+  }
+
+  async getCanonicalEntities(): Promise<CanonicalEntity[]> {
+    // 规范实体仍由主数据库处理
+    console.warn("getCanonicalEntities is not implemented in Milvus adapter, use primary database")
+    return []
+  }
+
+  async saveEntityMentions(mentions: EntityMention[]): Promise<void> {
+    // 实体提及仍由主数据库处理
+    console.warn("saveEntityMentions is not implemented in Milvus adapter, use primary database")
+  }
+
+  async getEntityMentions(canonicalId?: number): Promise<EntityMention[]> {
+    // 实体提及仍由主数据库处理
+    console.warn("getEntityMentions is not implemented in Milvus adapter, use primary database")
+    return []
+  }
+
   async getAllRelationships(): Promise<Relationship[]> {
     // 关系检索仍由主数据库处理
     console.warn("getAllRelationships is not implemented in Milvus adapter, use primary database")
     return []
   }
 
+  async pruneInferredRelationships(): Promise<number> {
+    // 推理关系仍由主数据库维护
+    console.warn("pruneInferredRelationships is not implemented in Milvus adapter, use primary database")
+    return 0
+  }
+
   async buildInvertedIndex(docId: string, tokens: Token[]): Promise<void> {
     // 倒排索引仍由主数据库处理
     console.warn("buildInvertedIndex is not implemented in Milvus adapter, use primary database")
   }
 
+  async getIndexEntries(terms: string[]): Promise<IndexEntry[]> {
+    // 倒排索引仍由主数据库处理
+    console.warn("getIndexEntries is not implemented in Milvus adapter, use primary database")
+    return []
+  }
+
+  async getDocumentFrequencies(terms: string[]): Promise<Map<string, number>> {
+    // 倒排索引仍由主数据库处理
+    console.warn("getDocumentFrequencies is not implemented in Milvus adapter, use primary database")
+    return new Map()
+  }
+
+  async saveDocumentKeywords(docId: string, keywords: DocumentKeyword[]): Promise<void> {
+    // 文档关键词仍由主数据库处理
+    console.warn("saveDocumentKeywords is not implemented in Milvus adapter, use primary database")
+  }
+
+  async getDocumentKeywords(docId?: string): Promise<DocumentKeyword[]> {
+    // 文档关键词仍由主数据库处理
+    console.warn("getDocumentKeywords is not implemented in Milvus adapter, use primary database")
+    return []
+  }
+
   async addEntityAlias(entityId: number, alias: string): Promise<void> {
     // 别名处理仍由主数据库处理
     console.warn("addEntityAlias is not implemented in Milvus adapter, use primary database")
   }
 
+  async getEntityAliases(): Promise<EntityAlias[]> {
+    // 别名处理仍由主数据库处理
+    console.warn("getEntityAliases is not implemented in Milvus adapter, use primary database")
+    return []
+  }
+
   async addEntitySimilarity(
     entityId1: number,
     entityId2: number,
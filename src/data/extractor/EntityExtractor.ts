@@ -1,63 +1,186 @@
-import type { Entity, LLMConfig } from "../types"
+import type { DocumentBlock, Entity, LLMConfig, Token } from "../types"
+import { SpanAligner } from "../processor/SpanAligner"
+import { ArbitrationOptions, RejectedSpan, SpanArbiter } from "./SpanArbiter"
+import { EntityNormalizer, STRUCTURED_ENTITY_TYPES } from "./StructuredExtractors"
+import { TemporalNormalizer } from "./TemporalNormalizer"
+import { TextChunk, TextChunker } from "../processor/TextChunker"
+import { NormalizerOptions, TextNormalizer } from "../processor/TextNormalizer"
+import { Tokenizer } from "../processor/Tokenizer"
+import { AhoCorasick, AhoCorasickMatch } from "../utils/AhoCorasick"
 import { RequestUtil } from "../utils/RequestUtil"
 
+/**
+ * 实体词典条目
+ */
+export interface GazetteerEntry {
+  name: string
+  type: string // 实体类型
+  properties?: Record<string, any> // 匹配到的实体附带的属性
+}
+
+/**
+ * 抽取选项
+ */
+export interface EntityExtractOptions {
+  referenceTime?: number // 解析相对时间的参考时间（毫秒），通常为文档创建时间，缺省为当前时间
+  blocks?: DocumentBlock[] // 文本的思源块，长文本交给大模型前按块分块
+}
+
+/**
+ * 词典条目的最小长度，单字匹配噪声过大
+ */
+const MIN_GAZETTEER_LENGTH = 2
+
+/**
+ * 需要规范化为日期的实体类型，大模型可能使用其中任意一种写法
+ */
+const TEMPORAL_ENTITY_TYPES = new Set(["time", "date", "时间", "日期"])
+
 /**
  * 实体抽取器，负责从文本中识别实体
  */
 export class EntityExtractor {
   private customEntityTypes: Map<string, RegExp[]>
+  private entityNormalizers: Map<string, EntityNormalizer>
   private entityRules: Map<string, RegExp[]>
+  private posRules: Map<string, string>
   private llmConfig?: LLMConfig
   private requestUtil?: RequestUtil
+  private spanAligner: SpanAligner
+  private tokenizer?: Tokenizer
+  private normalizer: TextNormalizer
+  private gazetteer: AhoCorasick<GazetteerEntry>
+  private spanArbiter: SpanArbiter
+  private rejectedSpans: RejectedSpan[]
+  private temporalNormalizer: TemporalNormalizer
+  private chunker: TextChunker
 
   constructor() {
     this.customEntityTypes = new Map()
+    this.entityNormalizers = new Map()
     this.entityRules = new Map()
+    this.posRules = new Map()
+    this.spanAligner = new SpanAligner()
+    this.normalizer = new TextNormalizer()
+    this.gazetteer = new AhoCorasick()
+    this.spanArbiter = new SpanArbiter()
+    this.rejectedSpans = []
+    this.temporalNormalizer = new TemporalNormalizer()
+    this.chunker = new TextChunker()
     this.initDefaultRules()
+    this.configureStructuredTypes({})
   }
 
   /**
    * 初始化默认实体识别规则
+   * 人名、地名和组织名由分词的词性决定，数字和时间使用正则表达式
    */
   private initDefaultRules(): void {
-    // 人名识别规则（简化版）
-    const personRules = [
-      /[\u4e00-\u9fa5]{2,4}/g, // 2-4个中文字符，可能是人名
-    ]
-
-    // 地名识别规则（简化版）
-    const locationRules = [
-      /[\u4e00-\u9fa5]+[省市县区乡镇村]/g, // 包含行政区划后缀的地名
-    ]
-
-    // 组织名识别规则（简化版）
-    const organizationRules = [
-      /[\u4e00-\u9fa5]+[公司企业集团大学学院医院]/g, // 包含组织类型后缀
-    ]
+    // 词性与实体类型的对应关系，nrt 为音译人名，nrfg 为古代人名
+    this.posRules.set("nr", "person")
+    this.posRules.set("nrfg", "person")
+    this.posRules.set("nrt", "person")
+    this.posRules.set("ns", "location")
+    this.posRules.set("nt", "organization")
 
     // 数字识别规则
     const numberRules = [
       /\d+(\.\d+)?/g, // 整数或小数
     ]
 
-    // 时间识别规则
-    const timeRules = [
-      /\d{4}[-/年]\d{1,2}[-/月]\d{1,2}([日号])?/g, // 日期格式
-      /\d{1,2}:\d{2}(:\d{2})?/g, // 时间格式
-    ]
-
-    this.entityRules.set("person", personRules)
-    this.entityRules.set("location", locationRules)
-    this.entityRules.set("organization", organizationRules)
     this.entityRules.set("number", numberRules)
-    this.entityRules.set("time", timeRules)
+    // 时间识别规则与规范化器共用，包括日期、时刻以及 上周三、next Friday 等相对表达式
+    this.entityRules.set("time", this.temporalNormalizer.getRules())
   }
 
   /**
    * 添加自定义实体类型和识别规则
+   *
+   * @param typeName - 实体类型
+   * @param rules - 识别规则，需带 g 标志
+   * @param normalize - 规范化函数，结果作为实体属性；返回 null 时丢弃该匹配
    */
-  addCustomEntityType(typeName: string, rules: RegExp[]): void {
+  addCustomEntityType(typeName: string, rules: RegExp[], normalize?: EntityNormalizer): void {
     this.customEntityTypes.set(typeName, rules)
+    if (normalize) {
+      this.entityNormalizers.set(typeName, normalize)
+    } else {
+      this.entityNormalizers.delete(typeName)
+    }
+  }
+
+  /**
+   * 移除自定义实体类型
+   */
+  removeCustomEntityType(typeName: string): void {
+    this.customEntityTypes.delete(typeName)
+    this.entityNormalizers.delete(typeName)
+  }
+
+  /**
+   * 按类型启用或停用内置的结构化实体（链接、邮箱、问题编号、版本号、文件路径、代码标识符）
+   *
+   * @param enabled - 类型到是否启用的映射，未列出的类型使用默认设置
+   */
+  configureStructuredTypes(enabled: Record<string, boolean>): void {
+    STRUCTURED_ENTITY_TYPES.forEach((item) => {
+      if (enabled[item.type] ?? item.enabledByDefault) {
+        this.addCustomEntityType(item.type, item.rules, item.normalize)
+      } else {
+        this.removeCustomEntityType(item.type)
+      }
+    })
+  }
+
+  /**
+   * 配置词典匹配使用的归一化选项，需与分词器一致，并在加载实体词典之前调用
+   */
+  configureNormalizer(options: NormalizerOptions): void {
+    this.normalizer.configure(options)
+  }
+
+  /**
+   * 添加词性规则，带有该词性的词元将被识别为指定类型的实体
+   *
+   * @param tag - jieba 词性，如 nr、ns、nt，也可以是自定义词典中的类型
+   * @param entityType - 实体类型
+   */
+  addPosRule(tag: string, entityType: string): void {
+    this.posRules.set(tag, entityType)
+  }
+
+  /**
+   * 配置重叠片段的仲裁优先级
+   */
+  configureArbitration(options: ArbitrationOptions): void {
+    this.spanArbiter.configure(options)
+  }
+
+  /**
+   * 添加实体词典条目，同名条目以后添加的为准
+   * 名称按归一化后的形式匹配，不区分繁简、全角半角和大小写
+   */
+  addGazetteerEntries(entries: GazetteerEntry[]): void {
+    entries.forEach((entry) => {
+      const name = this.normalizer.fold((entry.name ?? "").trim())
+      if (name.length >= MIN_GAZETTEER_LENGTH && entry.type) {
+        this.gazetteer.add(name, entry)
+      }
+    })
+  }
+
+  /**
+   * 清空实体词典
+   */
+  clearGazetteer(): void {
+    this.gazetteer = new AhoCorasick()
+  }
+
+  /**
+   * 实体词典条目数
+   */
+  getGazetteerSize(): number {
+    return this.gazetteer.size
   }
 
   /**
@@ -65,6 +188,7 @@ export class EntityExtractor {
    */
   configureLLM(config: LLMConfig, requestUtil?: RequestUtil): void {
     this.llmConfig = config
+    this.chunker = new TextChunker(config?.chunk)
 
     // 如果没有提供RequestUtil，则创建一个新的
     if (requestUtil) {
@@ -88,15 +212,22 @@ export class EntityExtractor {
 
   /**
    * 从文本中提取实体
+   *
+   * @param text - 文本
+   * @param docId - 文档ID
+   * @param tokens - 文本的分词结果，缺省时使用内置分词器分词
+   * @param options - 抽取选项
    */
-  async extract(text: string, docId: string): Promise<Entity[]> {
+  async extract(text: string, docId: string, tokens?: Token[], options: EntityExtractOptions = {}): Promise<Entity[]> {
     if (!text) return []
 
+    // 已知实体在任何抽取方式下都能识别
+    const candidates = await this.extractByDictionary(text, docId)
+
     // 如果配置了大模型，使用大模型抽取
     if (this.llmConfig && this.requestUtil) {
       try {
-        const llmEntities = await this.extractByLLM(text, docId)
-        return llmEntities
+        candidates.push(...(await this.extractByLLM(text, docId, options.blocks)))
       } catch (error) {
         console.warn("LLM entity extraction failed, falling back to rules:", error)
       }
@@ -105,21 +236,100 @@ export class EntityExtractor {
     // 合并所有实体类型的规则
     const allEntityRules = new Map([...this.entityRules, ...this.customEntityTypes])
 
-    // 基于规则的实体抽取
-    const ruleEntities = await this.extractByRules(text, allEntityRules, docId)
-    return ruleEntities
+    // 基于词性和规则的实体抽取
+    if (!tokens) {
+      this.tokenizer = this.tokenizer ?? new Tokenizer()
+      tokens = await this.tokenizer.tokenize(text)
+    }
+    candidates.push(...this.extractByPos(tokens, docId))
+    const referenceTime = options.referenceTime ?? Date.now()
+    candidates.push(...(await this.extractByRules(text, allEntityRules, docId, referenceTime)))
+
+    // 重叠的候选只保留优先级最高的，落选的候选通过 getRejectedSpans 查看
+    const { entities, rejected } = this.spanArbiter.arbitrate(candidates)
+    this.rejectedSpans = rejected
+
+    this.normalizeTemporalEntities(entities, referenceTime)
+    return entities
+  }
+
+  /**
+   * 将词典和大模型给出的时间实体规范化为 ISO 日期或区间，结果合并到实体属性中
+   * 规则匹配的时间已在抽取时规范化
+   */
+  private normalizeTemporalEntities(entities: Entity[], referenceTime: number): void {
+    entities
+      .filter((entity) => TEMPORAL_ENTITY_TYPES.has(entity.type) && !entity.properties?.granularity)
+      .forEach((entity) => {
+        const value = this.temporalNormalizer.normalize(entity.name, referenceTime)
+        if (value) {
+          entity.properties = { ...entity.properties, ...value }
+        }
+      })
   }
 
   /**
-   * 基于规则的实体抽取
+   * 获取最近一次抽取中落选的候选实体及落选原因
    */
-  private async extractByRules(text: string, entityRules: Map<string, RegExp[]>, docId: string): Promise<Entity[]> {
+  getRejectedSpans(): RejectedSpan[] {
+    return this.rejectedSpans
+  }
+
+  /**
+   * 基于词性的实体抽取
+   * 相邻且词性对应同一实体类型的词元合并为一个实体，如 北京市/ns 海淀区/ns
+   */
+  private extractByPos(tokens: Token[], docId: string): Entity[] {
     const entities: Entity[] = []
+    let last: Entity | undefined
+
+    tokens.forEach((token) => {
+      const entityType = token.type ? this.posRules.get(token.type) : undefined
+      if (!entityType) {
+        last = undefined
+        return
+      }
+
+      if (last && last.type === entityType && last.endPos === token.start) {
+        last.name += token.text
+        last.endPos = token.end
+        return
+      }
+
+      last = {
+        name: token.text,
+        type: entityType,
+        docId: docId,
+        startPos: token.start,
+        endPos: token.end,
+        source: "rule",
+        confidence: 0.7, // 规则提取的置信度
+      }
+      entities.push(last)
+    })
 
-    // 用于记录已提取的实体位置，避免重复
-    const extractedPositions = new Set<string>()
+    return entities
+  }
+
+  /**
+   * 基于规则的实体抽取，重叠的匹配留给片段仲裁处理
+   * 时间按参考时间规范化，与结构化实体一样，无法规范化的匹配被丢弃
+   */
+  private async extractByRules(
+    text: string,
+    entityRules: Map<string, RegExp[]>,
+    docId: string,
+    referenceTime: number
+  ): Promise<Entity[]> {
+    const entities: Entity[] = []
+    const normalizeTime: EntityNormalizer = (value) => {
+      const normalized = this.temporalNormalizer.normalize(value, referenceTime)
+      return normalized ? { ...normalized } : null
+    }
 
     entityRules.forEach((rules, entityType) => {
+      const normalize = entityType === "time" ? normalizeTime : this.entityNormalizers.get(entityType)
+
       rules.forEach((rule) => {
         let match
         const regex = new RegExp(rule)
@@ -128,20 +338,18 @@ export class EntityExtractor {
           const entityName = match[0]
           const startPos = match.index
           const endPos = startPos + entityName.length
+          const properties = normalize ? normalize(entityName) : undefined
 
-          // 检查是否已提取（基于位置）
-          const positionKey = `${startPos}-${endPos}`
-          if (!extractedPositions.has(positionKey)) {
-            extractedPositions.add(positionKey)
-
+          if (properties !== null) {
             entities.push({
               name: entityName,
               type: entityType,
               docId: docId,
               startPos: startPos,
               endPos: endPos,
+              properties: properties,
               source: "rule",
-              confidence: 0.7, // 规则提取的置信度
+              confidence: normalize ? 0.9 : 0.7, // 结构化实体的格式严格，置信度高于一般规则
             })
           }
 
@@ -157,29 +365,81 @@ export class EntityExtractor {
   }
 
   /**
-   * 基于词典的实体抽取（预留接口）
+   * 基于词典的实体抽取
+   * 使用 Aho-Corasick 自动机一次扫描匹配所有条目，重叠时取最左最长的匹配
    */
   async extractByDictionary(text: string, docId: string): Promise<Entity[]> {
-    // 这里可以实现基于词典的实体抽取
-    // 目前返回空数组
-    return []
+    if (!text || this.gazetteer.size === 0) return []
+
+    // 逐字符归一化不改变长度，匹配位置可直接对应原文
+    const folded = this.normalizer.fold(text)
+    const matches = this.gazetteer.searchLeftmostLongest(folded, (match) => this.isWordBoundary(folded, match))
+
+    return matches.map((match) => ({
+      name: text.substring(match.start, match.end),
+      type: match.value.type,
+      docId: docId,
+      startPos: match.start,
+      endPos: match.end,
+      properties: match.value.properties ? { ...match.value.properties } : undefined,
+      source: "dict",
+      confidence: 0.85, // 词典匹配的置信度
+    }))
+  }
+
+  /**
+   * 英文和数字条目不能匹配单词的一部分，如 go 不应匹配 google 中的前两个字母
+   */
+  private isWordBoundary(text: string, match: AhoCorasickMatch<GazetteerEntry>): boolean {
+    const isWordChar = (char: string | undefined) => !!char && /[a-zA-Z0-9]/.test(char)
+    if (isWordChar(text[match.start]) && isWordChar(text[match.start - 1])) return false
+    if (isWordChar(text[match.end - 1]) && isWordChar(text[match.end])) return false
+    return true
   }
 
   /**
    * 基于大模型的实体抽取
+   * 长文本按思源块分块后以有限并发逐块抽取，位置换算回原文后去重
    */
-  private async extractByLLM(text: string, docId: string): Promise<Entity[]> {
+  private async extractByLLM(text: string, docId: string, blocks?: DocumentBlock[]): Promise<Entity[]> {
     if (!this.llmConfig || !this.requestUtil || !this.llmConfig.endpoint) {
       return []
     }
 
+    const chunks = this.chunker.chunk(text, blocks)
+    const results = await this.chunker.mapChunks(chunks, async (chunk) => {
+      try {
+        return await this.extractChunkByLLM(chunk, docId)
+      } catch (error) {
+        console.warn(`LLM entity extraction failed for chunk ${chunk.index + 1}/${chunks.length} of ${docId}:`, error)
+        return []
+      }
+    })
+
+    // 重叠部分的实体会被相邻两块重复抽取，按位置和类型去重
+    const uniqueEntities = new Map<string, Entity>()
+    results.flat().forEach((entity) => {
+      const key = `${entity.startPos}-${entity.endPos}-${entity.type}`
+      if (!uniqueEntities.has(key)) {
+        uniqueEntities.set(key, entity)
+      }
+    })
+    return Array.from(uniqueEntities.values())
+  }
+
+  /**
+   * 抽取单个文本块中的实体，位置为在原文中的位置
+   */
+  private async extractChunkByLLM(chunk: TextChunk, docId: string): Promise<Entity[]> {
+    const llmConfig = this.llmConfig!
+
     // 构建提示词
     const prompt =
-      this.llmConfig.promptTemplate ||
+      llmConfig.promptTemplate ||
       `
       请从以下文本中提取所有实体，并按照指定格式输出：
       
-      文本：${text}
+      文本：${chunk.text}
       
       请提取的实体类型包括：人名、地名、组织名、时间、数字等。
       
@@ -187,9 +447,9 @@ export class EntityExtractor {
     `
 
     // 调用大模型API
-    const response = await this.requestUtil.post(this.llmConfig.endpoint, {
-      model: this.llmConfig.model || "gpt-3.5-turbo",
-      temperature: this.llmConfig.temperature || 0.0,
+    const response = await this.requestUtil!.post(llmConfig.endpoint!, {
+      model: llmConfig.model || "gpt-3.5-turbo",
+      temperature: llmConfig.temperature || 0.0,
       messages: [
         { role: "system", content: "你是一个实体抽取助手，只返回JSON格式的实体列表。" },
         { role: "user", content: prompt },
@@ -203,12 +463,18 @@ export class EntityExtractor {
       const content = response.choices?.[0]?.message?.content || ""
       const parsedEntities = JSON.parse(content)
 
-      llmEntities = parsedEntities.map((entity: any) => ({
-        name: entity.name,
-        type: entity.type,
+      // 大模型返回的位置不可靠，按名称定位到块中的每一处提及，找不到的实体丢弃
+      const { spans } = this.spanAligner.align(
+        chunk.text,
+        parsedEntities.map((entity: any) => ({ text: entity.name, start: entity.start, end: entity.end })),
+        "all"
+      )
+      llmEntities = spans.map((span) => ({
+        name: span.text,
+        type: parsedEntities[span.index].type,
         docId: docId,
-        startPos: entity.start,
-        endPos: entity.end,
+        startPos: chunk.start + span.start,
+        endPos: chunk.start + span.end,
         source: "llm",
         confidence: 0.9, // 大模型提取的置信度
       }))
@@ -218,22 +484,4 @@ export class EntityExtractor {
 
     return llmEntities
   }
-
-  /**
-   * 合并实体（去重）
-   */
-  private mergeEntities(entities: Entity[]): Entity[] {
-    const uniqueEntities = new Map<string, Entity>()
-
-    entities.forEach((entity) => {
-      // 基于位置和名称的唯一键
-      const key = `${entity.docId}-${entity.startPos}-${entity.endPos}-${entity.name}`
-
-      if (!uniqueEntities.has(key) || (uniqueEntities.get(key)?.confidence || 0) < (entity.confidence || 0)) {
-        uniqueEntities.set(key, entity)
-      }
-    })
-
-    return Array.from(uniqueEntities.values())
-  }
 }
@@ -0,0 +1,239 @@
+import type { DocumentKeyword, Token } from "../types"
+
+/**
+ * 关键词打分方法
+ * tfidf 按词频和逆文档频率打分，需要语料统计
+ * textrank 按词共现图上的 PageRank 打分，只依赖本文档
+ */
+export type KeywordMethod = "tfidf" | "textrank"
+
+/**
+ * 关键词抽取选项
+ */
+export interface KeywordOptions {
+  method?: KeywordMethod
+  topN?: number // 每篇文档保留的关键词数
+}
+
+/**
+ * 语料统计，来自倒排索引
+ */
+export interface CorpusStats {
+  docFrequency: Map<string, number> // 包含该词的文档数
+  totalDocs: number
+}
+
+const DEFAULT_OPTIONS: Required<KeywordOptions> = {
+  method: "tfidf",
+  topN: 10,
+}
+
+/**
+ * TextRank 共现窗口大小
+ */
+const TEXTRANK_WINDOW = 5
+
+/**
+ * TextRank 阻尼系数和迭代次数
+ */
+const TEXTRANK_DAMPING = 0.85
+const TEXTRANK_ITERATIONS = 30
+
+/**
+ * 相邻关键词至少连续出现的次数，达到后合并为短语
+ */
+const MIN_PHRASE_FREQ = 2
+
+/**
+ * 候选词对应的文本片段
+ */
+interface Candidate {
+  term: string
+  text: string
+  start: number
+  end: number
+}
+
+/**
+ * 关键词抽取器
+ * 从分词结果中选出每篇文档的关键词和关键短语，作为主题节点和搜索分面
+ */
+export class KeywordExtractor {
+  private options: Required<KeywordOptions>
+
+  constructor(options: KeywordOptions = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options }
+  }
+
+  /**
+   * 修改抽取选项
+   */
+  configure(options: KeywordOptions): void {
+    this.options = { ...this.options, ...options }
+  }
+
+  getOptions(): Required<KeywordOptions> {
+    return { ...this.options }
+  }
+
+  /**
+   * 抽取关键词
+   *
+   * @param docId - 文档ID
+   * @param content - 文档纯文本，用于判断相邻词能否组成短语
+   * @param tokens - 文档分词结果
+   * @param stats - 语料统计，tfidf 需要；缺省时逆文档频率视为相同
+   */
+  extract(docId: string, content: string, tokens: Token[], stats?: CorpusStats): DocumentKeyword[] {
+    const candidates = this.getCandidates(tokens)
+    if (candidates.length === 0) return []
+
+    const scores =
+      this.options.method === "textrank" ? this.scoreByTextRank(candidates) : this.scoreByTfIdf(candidates, stats)
+
+    // 单词和短语一起排序，短语的分数为组成词之和
+    const ranked: Array<DocumentKeyword & { parts?: string[] }> = []
+    const surfaces = this.getSurfaces(candidates)
+    scores.forEach((score, term) => ranked.push({ docId, term, text: surfaces.get(term)!, score }))
+    ranked.push(...this.findPhrases(docId, content, candidates, scores))
+    ranked.sort((a, b) => b.score - a.score)
+
+    // 已被选中短语包含的单词不再单独作为关键词
+    const keywords: DocumentKeyword[] = []
+    const covered = new Set<string>()
+    for (const item of ranked) {
+      if (keywords.length >= this.options.topN) break
+      if (covered.has(item.term)) continue
+
+      item.parts?.forEach((part) => covered.add(part))
+      covered.add(item.term)
+      keywords.push({ docId, term: item.term, text: item.text, score: item.score })
+    }
+    return keywords
+  }
+
+  /**
+   * 过滤出可作为关键词的词元：至少两个字符，包含字母或汉字
+   */
+  private getCandidates(tokens: Token[]): Candidate[] {
+    return tokens
+      .map((token) => ({ term: token.normalized ?? token.text, text: token.text, start: token.start, end: token.end }))
+      .filter((c) => c.term.length >= 2 && /[a-zA-Z\u4e00-\u9fa5]/.test(c.term))
+  }
+
+  /**
+   * 每个词取出现次数最多的原始写法
+   */
+  private getSurfaces(candidates: Candidate[]): Map<string, string> {
+    const counts = new Map<string, Map<string, number>>()
+    candidates.forEach((c) => {
+      const surfaceCounts = counts.get(c.term) ?? new Map<string, number>()
+      surfaceCounts.set(c.text, (surfaceCounts.get(c.text) || 0) + 1)
+      counts.set(c.term, surfaceCounts)
+    })
+
+    const surfaces = new Map<string, string>()
+    counts.forEach((surfaceCounts, term) => {
+      surfaces.set(term, Array.from(surfaceCounts.entries()).sort((a, b) => b[1] - a[1])[0][0])
+    })
+    return surfaces
+  }
+
+  private scoreByTfIdf(candidates: Candidate[], stats?: CorpusStats): Map<string, number> {
+    const frequency = new Map<string, number>()
+    candidates.forEach((c) => frequency.set(c.term, (frequency.get(c.term) || 0) + 1))
+
+    const scores = new Map<string, number>()
+    frequency.forEach((count, term) => {
+      const tf = count / candidates.length
+      const idf = stats ? Math.log((stats.totalDocs + 1) / ((stats.docFrequency.get(term) || 0) + 1)) + 1 : 1
+      scores.set(term, tf * idf)
+    })
+    return scores
+  }
+
+  /**
+   * 在窗口内共现的词之间连边，迭代计算 PageRank
+   */
+  private scoreByTextRank(candidates: Candidate[]): Map<string, number> {
+    const graph = new Map<string, Map<string, number>>()
+    const link = (a: string, b: string) => {
+      const edges = graph.get(a) ?? new Map<string, number>()
+      edges.set(b, (edges.get(b) || 0) + 1)
+      graph.set(a, edges)
+    }
+
+    candidates.forEach((c, i) => {
+      if (!graph.has(c.term)) graph.set(c.term, new Map())
+      for (let j = i + 1; j < Math.min(i + TEXTRANK_WINDOW, candidates.length); j++) {
+        if (candidates[j].term === c.term) continue
+        link(c.term, candidates[j].term)
+        link(candidates[j].term, c.term)
+      }
+    })
+
+    const outWeight = new Map<string, number>()
+    graph.forEach((edges, term) => {
+      outWeight.set(
+        term,
+        Array.from(edges.values()).reduce((sum, w) => sum + w, 0)
+      )
+    })
+
+    let scores = new Map<string, number>(Array.from(graph.keys(), (term) => [term, 1]))
+    for (let iter = 0; iter < TEXTRANK_ITERATIONS; iter++) {
+      const next = new Map<string, number>()
+      graph.forEach((edges, term) => {
+        let sum = 0
+        edges.forEach((weight, neighbor) => {
+          sum += (weight / outWeight.get(neighbor)!) * scores.get(neighbor)!
+        })
+        next.set(term, 1 - TEXTRANK_DAMPING + TEXTRANK_DAMPING * sum)
+      })
+      scores = next
+    }
+
+    // 归一化到 0~1，便于与短语分数比较
+    const max = Array.from(scores.values()).reduce((a, b) => Math.max(a, b), 0)
+    scores.forEach((score, term) => scores.set(term, max > 0 ? score / max : 0))
+    return scores
+  }
+
+  /**
+   * 文中紧邻（中间只有空格）且反复出现的两个候选词合并为短语
+   */
+  private findPhrases(
+    docId: string,
+    content: string,
+    candidates: Candidate[],
+    scores: Map<string, number>
+  ): Array<DocumentKeyword & { parts: string[] }> {
+    const phrases = new Map<string, DocumentKeyword & { parts: string[]; count: number }>()
+
+    for (let i = 0; i + 1 < candidates.length; i++) {
+      const first = candidates[i]
+      const second = candidates[i + 1]
+      if (first.term === second.term) continue
+
+      const gap = content.substring(first.end, second.start)
+      if (second.start < first.end || !/^[ \t]*$/.test(gap)) continue
+
+      const separator = gap.length > 0 ? " " : ""
+      const term = `${first.term}${separator}${second.term}`
+      const phrase = phrases.get(term) ?? {
+        docId,
+        term,
+        text: content.substring(first.start, second.end),
+        score: scores.get(first.term)! + scores.get(second.term)!,
+        parts: [first.term, second.term],
+        count: 0,
+      }
+      phrase.count++
+      phrases.set(term, phrase)
+    }
+
+    return Array.from(phrases.values())
+      .filter((phrase) => phrase.count >= MIN_PHRASE_FREQ)
+      .map(({ count, ...phrase }) => phrase)
+  }
+}
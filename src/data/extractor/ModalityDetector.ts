@@ -0,0 +1,144 @@
+import type { Entity, Relationship } from "../types"
+
+/**
+ * 关系的极性：肯定或否定
+ */
+export type RelationPolarity = "positive" | "negative"
+
+/**
+ * 关系的确定程度：确定、很可能、可能
+ */
+export type RelationCertainty = "certain" | "probable" | "possible"
+
+/**
+ * 检测结果
+ */
+export interface ModalityResult {
+  polarity: RelationPolarity
+  certainty: RelationCertainty
+  cues: string[] // 命中的提示词
+}
+
+type CueKind = "negation" | "probable" | "possible"
+
+/**
+ * 否定和推测提示词，较长的写在前面，使“很可能”“不确定”等不会被拆成更短的提示词
+ * 单字的“不”“未”“非”“无”排除常见的非否定用法
+ */
+const CUES: Array<{ pattern: string; kind: CueKind }> = [
+  { pattern: "不确定|不一定|不清楚", kind: "possible" },
+  { pattern: "很可能|大概率|多半|估计|应该|想必", kind: "probable" },
+  { pattern: "可能|也许|或许|大概|疑似|据说|传闻|似乎|好像|是否|吗|[?？]", kind: "possible" },
+  { pattern: "不可能|没有|并非|并不|从未|否认|不是", kind: "negation" },
+  { pattern: "不(?!同|仅|但|断|错|少|久|过|论|管|如|只|然)", kind: "negation" },
+  { pattern: "没|未(?!来|知)|非(?!常)|无(?!论|关)", kind: "negation" },
+  { pattern: "\\b(?:likely|probably|presumably|apparently)\\b", kind: "probable" },
+  {
+    pattern: "\\b(?:may|might|could|possibly|perhaps|maybe|reportedly|allegedly|suspected|whether)\\b",
+    kind: "possible",
+  },
+  { pattern: "\\b(?:not(?! only)|no|never|neither|nor|without|cannot|denies|denied)\\b|n't\\b", kind: "negation" },
+]
+
+const CUE_REGEX = new RegExp(CUES.map((cue) => `(${cue.pattern})`).join("|"), "gi")
+
+/**
+ * 子句边界，提示词只在关系证据所在的子句内生效
+ */
+const CLAUSE_BOUNDARY_REGEX = /[。！？!?；;，,\n]|\.(?=\s|$)/g
+
+/**
+ * 不确定程度对置信度的折扣
+ */
+const CERTAINTY_FACTORS: Record<RelationCertainty, number> = {
+  certain: 1,
+  probable: 0.8,
+  possible: 0.5,
+}
+
+/**
+ * 否定和推测检测器
+ * 在关系证据所在的子句中查找中英文的否定和推测提示词，
+ * 如“A 不属于 B”标记为否定，“A 可能包含 B”标记为推测并降低置信度
+ */
+export class ModalityDetector {
+  /**
+   * 检测文本中的否定和推测，否定提示词出现偶数次时视为肯定，如“不是不”
+   */
+  detect(text: string): ModalityResult {
+    const cues: string[] = []
+    let negations = 0
+    let certainty: RelationCertainty = "certain"
+
+    const regex = new RegExp(CUE_REGEX)
+    let match
+    while ((match = regex.exec(text)) !== null) {
+      const group = match.slice(1).findIndex((value) => value !== undefined)
+      const kind = CUES[group].kind
+      cues.push(match[0])
+      if (kind === "negation") {
+        negations++
+      } else if (kind === "possible" || certainty === "certain") {
+        certainty = kind
+      }
+    }
+
+    return { polarity: negations % 2 === 1 ? "negative" : "positive", certainty, cues }
+  }
+
+  /**
+   * 检测关系证据所在的子句，在 properties 中记录 polarity 和 certainty，并按不确定程度降低置信度
+   * 证据位置优先取 properties.evidenceStart 和 evidenceEnd，否则在原文中查找证据文本
+   *
+   * @param relationship - 关系
+   * @param text - 文档原文
+   * @param entities - 文档中的实体，实体名称中的字不作为提示词，如“无锡”中的“无”
+   */
+  annotate(relationship: Relationship, text: string, entities: Entity[] = []): Relationship {
+    const evidence = relationship.evidenceText
+    if (!evidence) return relationship
+
+    const start: number = relationship.properties?.evidenceStart ?? text.indexOf(evidence)
+    const end: number = relationship.properties?.evidenceEnd ?? start + evidence.length
+    const scope = start >= 0 ? this.clauseOf(text, start, end, entities) : evidence
+
+    const { polarity, certainty, cues } = this.detect(scope)
+    const properties: Record<string, any> = { ...relationship.properties, polarity, certainty }
+    if (cues.length > 0) {
+      properties.cues = cues
+    }
+
+    return {
+      ...relationship,
+      confidence: relationship.confidence * CERTAINTY_FACTORS[certainty],
+      properties,
+    }
+  }
+
+  /**
+   * 把证据范围扩展到所在子句的边界，子句中的实体替换为空白
+   */
+  private clauseOf(text: string, start: number, end: number, entities: Entity[]): string {
+    let clauseStart = 0
+    let clauseEnd = text.length
+    const regex = new RegExp(CLAUSE_BOUNDARY_REGEX)
+    let match
+    while ((match = regex.exec(text)) !== null) {
+      if (match.index < start) {
+        clauseStart = match.index + match[0].length
+      } else if (match.index >= end) {
+        // 子句末尾的问号也是推测提示
+        clauseEnd = match.index + (/[?？]/.test(match[0]) ? match[0].length : 0)
+        break
+      }
+    }
+
+    const chars = text.substring(clauseStart, clauseEnd).split("")
+    entities.forEach((entity) => {
+      for (let i = Math.max(entity.startPos, clauseStart); i < Math.min(entity.endPos, clauseEnd); i++) {
+        chars[i - clauseStart] = " "
+      }
+    })
+    return chars.join("")
+  }
+}
@@ -1,5 +1,42 @@
-import type { Entity, Relationship, LLMConfig } from "../types"
+import type { BaseApi } from "../../api/base-api"
+import type { DocumentBlock, Entity, Relationship, LLMConfig, Token } from "../types"
+import { TextChunk, TextChunker } from "../processor/TextChunker"
+import { Tokenizer } from "../processor/Tokenizer"
 import { RequestUtil } from "../utils/RequestUtil"
+import { ModalityDetector } from "./ModalityDetector"
+import { CompiledRelationPattern, RelationPatternMatcher, RelationPatternSpec } from "./RelationPatterns"
+import { RelationTypeDefinition, RelationTypeRegistry } from "./RelationTypeRegistry"
+
+/**
+ * 单篇文档最多读取的引用条数
+ */
+const MAX_REFS_PER_DOC = 10000
+
+/**
+ * 带捕获组位置的匹配结果，正则需带 d 标志
+ */
+type IndexedMatch = RegExpExecArray & { indices?: Array<[number, number] | undefined> }
+
+/**
+ * 关系抽取选项
+ */
+export interface RelationExtractOptions {
+  blocks?: DocumentBlock[] // 文本的思源块，长文本交给大模型前按块分块
+  tokens?: Token[] // 文本的分词结果，用于匹配关系模式，缺省时使用内置分词器分词
+  refs?: any[] // 文档的块引用（queryRefs 的结果），缺省时查询思源的 refs 表
+}
+
+/**
+ * 关系模式捕获到、但其中没有已识别实体的论元，可作为候选实体
+ */
+export interface UnresolvedArgument {
+  text: string
+  docId: string
+  startPos: number
+  endPos: number
+  relationType: string
+  evidenceText: string
+}
 
 /**
  * 关系抽取器，负责从文本中识别实体之间的关系
@@ -9,10 +46,22 @@ export class RelationExtractor {
   private customRelations: Map<string, RegExp[]>
   private llmConfig?: LLMConfig
   private requestUtil?: RequestUtil
-
-  constructor() {
+  private siyuanApi?: BaseApi
+  private chunker: TextChunker
+  private unresolvedArguments: UnresolvedArgument[]
+  private patternMatcher: RelationPatternMatcher
+  private tokenizer?: Tokenizer
+  private registry: RelationTypeRegistry
+  private modalityDetector: ModalityDetector
+
+  constructor(registry?: RelationTypeRegistry) {
     this.relationPatterns = new Map()
     this.customRelations = new Map()
+    this.chunker = new TextChunker()
+    this.unresolvedArguments = []
+    this.patternMatcher = new RelationPatternMatcher()
+    this.registry = registry ?? new RelationTypeRegistry()
+    this.modalityDetector = new ModalityDetector()
     this.initDefaultRelations()
   }
 
@@ -49,11 +98,65 @@ export class RelationExtractor {
     this.customRelations.set(relationType, patterns)
   }
 
+  /**
+   * 添加声明式关系模式，如 {person} 任职于 {organization} => works_at，模式无效时抛出异常
+   */
+  addRelationPattern(spec: RelationPatternSpec | string): CompiledRelationPattern {
+    const pattern = this.patternMatcher.add(spec)
+    this.registerPatternType(pattern)
+    return pattern
+  }
+
+  /**
+   * 从 JSON 或 YAML 文本加载关系模式
+   *
+   * @returns 加载的模式数
+   */
+  loadRelationPatterns(text: string, format: "json" | "yaml"): number {
+    const count = this.patternMatcher.load(text, format)
+    this.patternMatcher.getPatterns().forEach((pattern) => this.registerPatternType(pattern))
+    return count
+  }
+
+  /**
+   * 清空声明式关系模式
+   */
+  clearRelationPatterns(): void {
+    this.patternMatcher.clear()
+  }
+
+  /**
+   * 登记关系类型
+   */
+  registerRelationType(definition: RelationTypeDefinition): void {
+    this.registry.register(definition)
+  }
+
+  /**
+   * 获取关系类型注册表
+   */
+  getRelationTypeRegistry(): RelationTypeRegistry {
+    return this.registry
+  }
+
+  /**
+   * 关系模式中未登记的关系类型按模式的反向和方向登记，双向且没有反向名的视为对称关系
+   */
+  private registerPatternType(pattern: CompiledRelationPattern): void {
+    if (this.registry.has(pattern.relation)) return
+    this.registry.register({
+      name: pattern.relation,
+      inverse: pattern.inverse,
+      symmetric: pattern.direction === "both" && !pattern.inverse,
+    })
+  }
+
   /**
    * 配置大模型参数
    */
   configureLLM(config: LLMConfig, requestUtil?: RequestUtil): void {
     this.llmConfig = config
+    this.chunker = new TextChunker(config?.chunk)
 
     // 如果没有提供RequestUtil，则创建一个新的
     if (requestUtil) {
@@ -75,10 +178,82 @@ export class RelationExtractor {
     }
   }
 
+  /**
+   * 配置思源API，用于读取 refs 表中的块引用
+   */
+  configureSiyuan(api: BaseApi): void {
+    this.siyuanApi = api
+  }
+
+  /**
+   * 为文档中的块引用创建锚点实体，被引用的块或文档作为目标实体
+   * 锚点按引用所在的块定位，同一块中的同名锚点依次向后查找，无法定位的引用不创建实体
+   * 引用的源实体为结构抽取得到的文档实体
+   *
+   * @param options - 抽取选项，使用其中的 blocks 和 refs
+   */
+  async extractRefEntities(docId: string, text: string, options: RelationExtractOptions = {}): Promise<Entity[]> {
+    const refs = options.refs ?? (await this.queryRefs(docId))
+    const blocks = new Map((options.blocks ?? []).map((block) => [block.blockId, block]))
+
+    const cursors = new Map<string, number>()
+    const entities: Entity[] = []
+    refs.forEach((ref) => {
+      if (ref.def_block_id === docId) return
+
+      const name = ref.content || ref.def_block_id
+      const block = blocks.get(ref.block_id)
+      const cursorKey = `${block?.blockId ?? ""}:${name}`
+      const startPos = text.indexOf(name, cursors.get(cursorKey) ?? block?.start ?? 0)
+      const endPos = startPos + name.length
+      if (startPos < 0 || endPos > (block?.end ?? text.length)) return
+      cursors.set(cursorKey, endPos)
+
+      entities.push({
+        name: name,
+        // 引用的是文档块时为文档链接 [[doc]]，否则为块引用 ((id))
+        type: ref.def_block_id === ref.def_block_root_id ? "document" : "block",
+        docId: docId,
+        startPos: startPos,
+        endPos: endPos,
+        blockId: ref.def_block_id,
+        properties: { rootId: ref.def_block_root_id },
+        source: "siyuan-ref",
+        confidence: 1.0,
+      })
+    })
+
+    return entities
+  }
+
+  /**
+   * 查询文档中的块引用，结果可通过抽取选项的 refs 传给 extractRefEntities 和 extract，避免重复查询
+   */
+  async queryRefs(docId: string): Promise<any[]> {
+    if (!this.siyuanApi) return []
+
+    const res = await this.siyuanApi.sql(
+      `SELECT block_id, def_block_id, def_block_root_id, content, markdown FROM refs ` +
+        `WHERE root_id = '${docId}' LIMIT ${MAX_REFS_PER_DOC}`
+    )
+    if (res.code !== 0) {
+      throw new Error(`Failed to query refs: ${res.msg}`)
+    }
+    return (res.data as any[]) ?? []
+  }
+
   /**
    * 从文本中提取实体之间的关系
+   *
+   * @param options - 抽取选项
    */
-  async extract(entities: Entity[], text: string, docId: string): Promise<Relationship[]> {
+  async extract(
+    entities: Entity[],
+    text: string,
+    docId: string,
+    options: RelationExtractOptions = {}
+  ): Promise<Relationship[]> {
+    this.unresolvedArguments = []
     if (!entities || entities.length < 2) return []
 
     // 合并所有关系模式
@@ -87,25 +262,63 @@ export class RelationExtractor {
     // 基于规则的关系抽取
     const ruleRelationships = await this.extractByRules(entities, text, allRelationPatterns, docId)
 
+    // 基于声明式关系模式的关系抽取
+    let patternRelationships: Relationship[] = []
+    if (this.patternMatcher.size > 0) {
+      let tokens = options.tokens
+      if (!tokens) {
+        this.tokenizer = this.tokenizer ?? new Tokenizer()
+        tokens = await this.tokenizer.tokenize(text)
+      }
+      patternRelationships = this.patternMatcher.match(entities, tokens, text, docId)
+    }
+
     // 基于实体共现的关系抽取
     const cooccurrenceRelationships = await this.extractByCooccurrence(entities, text, docId)
 
+    // 基于思源块引用的关系抽取
+    let refRelationships: Relationship[] = []
+    if (this.siyuanApi) {
+      try {
+        refRelationships = await this.extractByRefs(entities, docId, options)
+      } catch (error) {
+        console.warn("SiYuan ref extraction failed:", error)
+      }
+    }
+
     // 如果配置了大模型，使用大模型抽取
     let llmRelationships: Relationship[] = []
     if (this.llmConfig && this.requestUtil) {
       try {
-        llmRelationships = await this.extractByLLM(entities, text, docId)
+        llmRelationships = await this.extractByLLM(entities, text, docId, options.blocks)
       } catch (error) {
         console.warn("LLM relationship extraction failed, falling back to rules:", error)
       }
     }
 
+    // 由文本陈述的关系检测否定和推测，共现和块引用不是陈述，不做检测
+    const statedRelationships = [...ruleRelationships, ...patternRelationships, ...llmRelationships].map((rel) =>
+      this.modalityDetector.annotate(rel, text, entities)
+    )
+
     // 合并关系（去重）
-    return this.mergeRelationships([...ruleRelationships, ...cooccurrenceRelationships, ...llmRelationships])
+    return this.mergeRelationships(
+      [...statedRelationships, ...cooccurrenceRelationships, ...refRelationships],
+      entities
+    )
+  }
+
+  /**
+   * 获取最近一次抽取中未能对应到实体的关系论元，DocumentProcessor 将其随处理结果返回
+   */
+  getUnresolvedArguments(): UnresolvedArgument[] {
+    return this.unresolvedArguments
   }
 
   /**
    * 基于规则的关系抽取
+   * 捕获组按位置对应到实体：取落在捕获组范围内、离关系触发词最近的实体，
+   * 如 “阿里巴巴集团的员工” 中的 阿里巴巴集团；范围内没有实体的论元记为候选实体
    */
   private async extractByRules(
     entities: Entity[],
@@ -114,40 +327,53 @@ export class RelationExtractor {
     docId: string
   ): Promise<Relationship[]> {
     const relationships: Relationship[] = []
-    const entityMap = this.buildEntityMap(entities)
+    const candidates = entities.filter((e) => e.docId === docId && e.id !== undefined && e.endPos > e.startPos)
 
     relationPatterns.forEach((patterns, relationType) => {
       patterns.forEach((pattern) => {
-        let match
-        const regex = new RegExp(pattern)
+        let match: IndexedMatch | null
+        const regex = new RegExp(pattern.source, pattern.flags.includes("d") ? pattern.flags : pattern.flags + "d")
 
         while ((match = regex.exec(text)) !== null) {
           // 确保有捕获组
-          if (match.length > 2) {
-            const sourceEntityName = match[1]
-            const targetEntityName = match[2]
-
-            // 查找对应的实体
-            const sourceEntities = entityMap.get(sourceEntityName) || []
-            const targetEntities = entityMap.get(targetEntityName) || []
-
-            // 创建关系
-            for (const sourceEntity of sourceEntities) {
-              for (const targetEntity of targetEntities) {
-                // 确保在同一个文档中
-                if (sourceEntity.docId === docId && targetEntity.docId === docId) {
-                  relationships.push({
-                    sourceEntityId: sourceEntity.id!,
-                    targetEntityId: targetEntity.id!,
-                    type: relationType,
-                    docId: docId,
-                    confidence: 0.8,
-                    source: "rule",
-                    evidenceText: match[0],
-                  })
-                }
-              }
+          if (match.length > 2 && match.indices?.[1] && match.indices[2]) {
+            const sourceSpan = match.indices[1]
+            const targetSpan = match.indices[2]
+            // 两个论元之间的文本为触发词
+            const trigger: [number, number] =
+              sourceSpan[1] <= targetSpan[0] ? [sourceSpan[1], targetSpan[0]] : [targetSpan[1], sourceSpan[0]]
+
+            const sourceEntity = this.resolveArgument(candidates, sourceSpan, trigger)
+            const targetEntity = this.resolveArgument(candidates, targetSpan, trigger)
+
+            if (sourceEntity && targetEntity && sourceEntity.id !== targetEntity.id) {
+              relationships.push({
+                sourceEntityId: sourceEntity.id!,
+                targetEntityId: targetEntity.id!,
+                type: relationType,
+                docId: docId,
+                confidence: 0.8,
+                source: "rule",
+                evidenceText: match[0],
+              })
             }
+
+            const args: Array<[[number, number], Entity | undefined]> = [
+              [sourceSpan, sourceEntity],
+              [targetSpan, targetEntity],
+            ]
+            args
+              .filter(([, entity]) => !entity)
+              .forEach(([span]) =>
+                this.unresolvedArguments.push({
+                  text: text.substring(span[0], span[1]),
+                  docId: docId,
+                  startPos: span[0],
+                  endPos: span[1],
+                  relationType: relationType,
+                  evidenceText: match![0],
+                })
+              )
           }
 
           // 防止无限循环
@@ -161,6 +387,27 @@ export class RelationExtractor {
     return relationships
   }
 
+  /**
+   * 在捕获组范围内查找离触发词最近的实体，距离相同时取较长的
+   */
+  private resolveArgument(entities: Entity[], span: [number, number], trigger: [number, number]): Entity | undefined {
+    const distance = (entity: Entity) =>
+      entity.endPos <= trigger[0] ? trigger[0] - entity.endPos : Math.max(0, entity.startPos - trigger[1])
+
+    let best: Entity | undefined
+    entities.forEach((entity) => {
+      if (entity.startPos < span[0] || entity.endPos > span[1]) return
+      if (
+        !best ||
+        distance(entity) < distance(best) ||
+        (distance(entity) === distance(best) && entity.endPos - entity.startPos > best.endPos - best.startPos)
+      ) {
+        best = entity
+      }
+    })
+    return best
+  }
+
   /**
    * 基于实体共现的关系抽取
    */
@@ -197,14 +444,94 @@ export class RelationExtractor {
     return relationships
   }
 
+  /**
+   * 基于思源块引用的关系抽取
+   * 只读取本文档发出的引用，反向链接在处理引用方文档时生成，删除或重建引用方时会一并清除
+   * 同一块被多次引用时，目标实体优先取位于引用所在块中的锚点
+   */
+  private async extractByRefs(
+    entities: Entity[],
+    docId: string,
+    options: RelationExtractOptions = {}
+  ): Promise<Relationship[]> {
+    const refs = options.refs ?? (await this.queryRefs(docId))
+    if (refs.length === 0) return []
+
+    // 按块ID查找文档和块实体，锚点可能已与结构抽取的同名实体合并，不限定来源
+    const anchorMap = new Map<string, Entity[]>()
+    entities
+      .filter((e) => (e.type === "document" || e.type === "block") && e.blockId && e.id !== undefined)
+      .forEach((e) => anchorMap.set(e.blockId!, [...(anchorMap.get(e.blockId!) ?? []), e]))
+    const blocks = new Map((options.blocks ?? []).map((block) => [block.blockId, block]))
+
+    const sourceEntity = anchorMap.get(docId)?.[0]
+    if (!sourceEntity) return []
+
+    const relationships: Relationship[] = []
+    refs.forEach((ref) => {
+      const anchors = anchorMap.get(ref.def_block_id) ?? []
+      const block = blocks.get(ref.block_id)
+      const targetEntity =
+        anchors.find((e) => block && e.startPos >= block.start && e.endPos <= block.end) ?? anchors[0]
+      if (!targetEntity || targetEntity === sourceEntity) return
+
+      relationships.push({
+        sourceEntityId: sourceEntity.id!,
+        targetEntityId: targetEntity.id!,
+        type: "reference",
+        docId: docId,
+        blockId: ref.block_id,
+        confidence: 1.0, // 手工建立的引用是最可信的关系
+        source: "siyuan-ref",
+        evidenceText: ref.markdown || ref.content,
+      })
+    })
+
+    return relationships
+  }
+
   /**
    * 基于大模型的关系抽取
+   * 长文本按思源块分块后以有限并发逐块抽取，每块只列出块内提及的实体，重复的关系在合并时去除
    */
-  private async extractByLLM(entities: Entity[], text: string, docId: string): Promise<Relationship[]> {
+  private async extractByLLM(
+    entities: Entity[],
+    text: string,
+    docId: string,
+    blocks?: DocumentBlock[]
+  ): Promise<Relationship[]> {
     if (!this.llmConfig || !this.requestUtil || !this.llmConfig.endpoint) {
       return []
     }
 
+    const chunks = this.chunker.chunk(text, blocks)
+    const results = await this.chunker.mapChunks(chunks, async (chunk) => {
+      const chunkEntities =
+        chunks.length > 1
+          ? entities.filter((e) => e.startPos >= chunk.start && e.endPos <= chunk.end && e.endPos > e.startPos)
+          : entities
+      if (chunkEntities.length < 2) return []
+
+      try {
+        return await this.extractChunkByLLM(chunkEntities, chunk, docId)
+      } catch (error) {
+        console.warn(
+          `LLM relationship extraction failed for chunk ${chunk.index + 1}/${chunks.length} of ${docId}:`,
+          error
+        )
+        return []
+      }
+    })
+
+    return results.flat()
+  }
+
+  /**
+   * 抽取单个文本块中的关系，证据位置换算为在原文中的位置
+   */
+  private async extractChunkByLLM(entities: Entity[], chunk: TextChunk, docId: string): Promise<Relationship[]> {
+    const llmConfig = this.llmConfig!
+
     // 构建实体列表字符串
     const entityList = entities
       .filter((e) => e.id !== undefined)
@@ -213,23 +540,24 @@ export class RelationExtractor {
 
     // 构建提示词
     const prompt =
-      this.llmConfig.promptTemplate ||
+      llmConfig.promptTemplate ||
       `
       请从以下文本中识别列出的实体之间的关系，并按照指定格式输出：
       
-      文本：${text}
+      文本：${chunk.text}
       
       实体列表：${entityList}
       
-      请识别的关系类型包括：关联(associate)、属于(belong_to)、包含(contain)、描述(describe)、引用(reference)等。
+      请识别的关系类型包括：
+${this.registry.describeForPrompt()}
       
       输出格式：JSON数组，每个对象包含sourceEntityId(源实体ID)、targetEntityId(目标实体ID)、type(关系类型)、evidenceText(证据文本)
     `
 
     // 调用大模型API
-    const response = await this.requestUtil.post(this.llmConfig.endpoint, {
-      model: this.llmConfig.model || "gpt-3.5-turbo",
-      temperature: this.llmConfig.temperature || 0.0,
+    const response = await this.requestUtil!.post(llmConfig.endpoint!, {
+      model: llmConfig.model || "gpt-3.5-turbo",
+      temperature: llmConfig.temperature || 0.0,
       messages: [
         { role: "system", content: "你是一个关系抽取助手，只返回JSON格式的关系列表。" },
         { role: "user", content: prompt },
@@ -242,15 +570,25 @@ export class RelationExtractor {
       const content = response.choices?.[0]?.message?.content || ""
       const parsedRelationships = JSON.parse(content)
 
-      relationships = parsedRelationships.map((rel: any) => ({
-        sourceEntityId: parseInt(rel.sourceEntityId, 10),
-        targetEntityId: parseInt(rel.targetEntityId, 10),
-        type: rel.type,
-        docId: docId,
-        confidence: 0.9, // 大模型提取的置信度
-        source: "llm",
-        evidenceText: rel.evidenceText,
-      }))
+      relationships = parsedRelationships.map((rel: any) => {
+        const evidenceIndex = rel.evidenceText ? chunk.text.indexOf(rel.evidenceText) : -1
+        return {
+          sourceEntityId: parseInt(rel.sourceEntityId, 10),
+          targetEntityId: parseInt(rel.targetEntityId, 10),
+          type: rel.type,
+          docId: docId,
+          confidence: 0.9, // 大模型提取的置信度
+          source: "llm",
+          evidenceText: rel.evidenceText,
+          properties:
+            evidenceIndex >= 0
+              ? {
+                  evidenceStart: chunk.start + evidenceIndex,
+                  evidenceEnd: chunk.start + evidenceIndex + rel.evidenceText.length,
+                }
+              : undefined,
+        }
+      })
     } catch (error) {
       console.error("Failed to parse LLM response:", error)
     }
@@ -259,30 +597,27 @@ export class RelationExtractor {
   }
 
   /**
-   * 构建实体映射，用于快速查找
+   * 合并关系（去重）
+   * 按关系类型注册表统一方向，如 contain 改写为反向的 belong_to，不满足定义域和值域的关系被丢弃
    */
-  private buildEntityMap(entities: Entity[]): Map<string, Entity[]> {
-    const entityMap = new Map<string, Entity[]>()
-
+  private mergeRelationships(relationships: Relationship[], entities: Entity[]): Relationship[] {
+    const uniqueRelationships = new Map<string, Relationship>()
+    const entityTypes = new Map<number, string>()
     entities.forEach((entity) => {
-      if (!entityMap.has(entity.name)) {
-        entityMap.set(entity.name, [])
+      if (entity.id !== undefined) {
+        entityTypes.set(entity.id, entity.type)
       }
-      entityMap.get(entity.name)!.push(entity)
     })
 
-    return entityMap
-  }
-
-  /**
-   * 合并关系（去重）
-   */
-  private mergeRelationships(relationships: Relationship[]): Relationship[] {
-    const uniqueRelationships = new Map<string, Relationship>()
+    relationships.forEach((original) => {
+      const rel = this.registry.canonicalize(original)
+      if (!this.registry.accepts(rel.type, entityTypes.get(rel.sourceEntityId), entityTypes.get(rel.targetEntityId))) {
+        return
+      }
 
-    relationships.forEach((rel) => {
-      // 基于源实体、目标实体和关系类型的唯一键
-      const key = `${rel.sourceEntityId}-${rel.targetEntityId}-${rel.type}`
+      // 基于源实体、目标实体和关系类型的唯一键，否定的关系与肯定的关系分别保留
+      const polarity = rel.properties?.polarity === "negative" ? "-negative" : ""
+      const key = `${rel.sourceEntityId}-${rel.targetEntityId}-${rel.type}${polarity}`
 
       if (!uniqueRelationships.has(key) || (uniqueRelationships.get(key)?.confidence || 0) < (rel.confidence || 0)) {
         uniqueRelationships.set(key, rel)
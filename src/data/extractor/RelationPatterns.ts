@@ -0,0 +1,377 @@
+import type { Entity, Relationship, Token } from "../types"
+
+/**
+ * 关系方向
+ * forward 第一个槽位为源实体，backward 第二个槽位为源实体，both 两个方向都生成关系
+ */
+export type RelationDirection = "forward" | "backward" | "both"
+
+/**
+ * 关系模式定义
+ *
+ * pattern 的写法：
+ * - {person} 为槽位，匹配指定类型的实体；{person|organization} 匹配多种类型；{*} 匹配任意实体；须恰好两个槽位
+ * - 其他为词，任职于|就职于 表示任选其一，词末尾加 ? 表示可省略
+ * - 末尾可写 => works_at 指定关系，<= 表示反向，<=> 表示双向；其后可写 / employs 指定反向关系名，@0.9 指定置信度
+ *
+ * 例如 {person} 曾经? 任职于|就职于 {organization} => works_at / employs @0.9
+ */
+export interface RelationPatternSpec {
+  pattern: string
+  relation?: string // 关系类型，pattern 中已用箭头指定时可省略
+  inverse?: string // 反向关系名，双向时用作反向关系的类型
+  direction?: RelationDirection
+  confidence?: number
+}
+
+/**
+ * 模式元素：槽位或词
+ */
+type PatternElement =
+  | { kind: "slot"; types: string[] | null } // null 表示任意类型
+  | { kind: "word"; alternatives: string[]; optional: boolean }
+
+/**
+ * 编译后的关系模式
+ */
+export interface CompiledRelationPattern {
+  source: string // 原始模式
+  relation: string
+  inverse?: string
+  direction: RelationDirection
+  confidence: number
+  elements: PatternElement[]
+}
+
+/**
+ * 匹配序列中的元素，实体占据其整个范围，其余文本为词元
+ */
+type SequenceItem = { entity?: Entity; text: string; start: number; end: number }
+
+const DEFAULT_CONFIDENCE = 0.8
+
+const ARROW_REGEX = /^(.*?)\s*(<=>|=>|<=)\s*([^\s/@]+)(?:\s*\/\s*([^\s/@]+))?(?:\s*@\s*([\d.]+))?\s*$/
+
+const ARROW_DIRECTIONS: Record<string, RelationDirection> = { "=>": "forward", "<=": "backward", "<=>": "both" }
+
+/**
+ * 关系模式匹配器
+ * 将声明式的关系模式编译为实体和词元序列上的匹配器，便于非开发人员维护关系类型
+ */
+export class RelationPatternMatcher {
+  private patterns: CompiledRelationPattern[]
+
+  constructor() {
+    this.patterns = []
+  }
+
+  get size(): number {
+    return this.patterns.length
+  }
+
+  getPatterns(): CompiledRelationPattern[] {
+    return [...this.patterns]
+  }
+
+  /**
+   * 添加关系模式，模式无效时抛出异常
+   */
+  add(spec: RelationPatternSpec | string): CompiledRelationPattern {
+    const compiled = this.compile(typeof spec === "string" ? { pattern: spec } : spec)
+    this.patterns.push(compiled)
+    return compiled
+  }
+
+  clear(): void {
+    this.patterns = []
+  }
+
+  /**
+   * 从 JSON 或 YAML 文本加载关系模式，无效的模式记录警告后跳过
+   * 文本为模式数组，或带 patterns 数组的对象；数组元素为模式字符串或 RelationPatternSpec
+   *
+   * @returns 加载的模式数
+   */
+  load(text: string, format: "json" | "yaml"): number {
+    let specs: Array<RelationPatternSpec | string>
+    try {
+      specs = format === "json" ? this.parseJson(text) : this.parseYaml(text)
+    } catch (error) {
+      console.warn("Failed to parse relation patterns:", error)
+      return 0
+    }
+
+    let count = 0
+    specs.forEach((spec) => {
+      try {
+        this.add(spec)
+        count++
+      } catch (error) {
+        console.warn("Invalid relation pattern skipped:", error)
+      }
+    })
+    return count
+  }
+
+  /**
+   * 在实体和词元序列上匹配所有模式
+   *
+   * @param entities - 文本中的实体，只有带ID且有文本位置的实体参与匹配
+   * @param tokens - 文本的分词结果
+   * @param text - 原文
+   * @param docId - 文档ID
+   */
+  match(entities: Entity[], tokens: Token[], text: string, docId: string): Relationship[] {
+    if (this.patterns.length === 0) return []
+
+    const sequence = this.buildSequence(entities, tokens, text, docId)
+    const relationships: Relationship[] = []
+
+    this.patterns.forEach((pattern) => {
+      for (let start = 0; start < sequence.length; start++) {
+        const result = this.matchFrom(pattern.elements, 0, sequence, start, [])
+        if (!result) continue
+
+        const evidenceText = text.substring(sequence[start].start, sequence[result.end - 1].end)
+        const [first, second] = result.slots
+        const forward = pattern.direction !== "backward"
+        relationships.push(
+          this.createRelationship(
+            pattern,
+            forward ? first : second,
+            forward ? second : first,
+            pattern.relation,
+            evidenceText
+          )
+        )
+        if (pattern.direction === "both") {
+          relationships.push(
+            this.createRelationship(pattern, second, first, pattern.inverse ?? pattern.relation, evidenceText)
+          )
+        }
+      }
+    })
+
+    return relationships
+  }
+
+  private createRelationship(
+    pattern: CompiledRelationPattern,
+    source: Entity,
+    target: Entity,
+    type: string,
+    evidenceText: string
+  ): Relationship {
+    return {
+      sourceEntityId: source.id!,
+      targetEntityId: target.id!,
+      type: type,
+      docId: source.docId,
+      confidence: pattern.confidence,
+      properties: { pattern: pattern.source, ...(pattern.inverse ? { inverse: pattern.inverse } : {}) },
+      source: "rule",
+      evidenceText: evidenceText,
+    }
+  }
+
+  /**
+   * 编译关系模式
+   */
+  private compile(spec: RelationPatternSpec): CompiledRelationPattern {
+    const source = (spec.pattern ?? "").trim()
+    let body = source
+    let relation = spec.relation
+    let inverse = spec.inverse
+    let direction = spec.direction
+    let confidence = spec.confidence
+
+    const arrow = ARROW_REGEX.exec(source)
+    if (arrow) {
+      body = arrow[1]
+      relation = arrow[3]
+      direction = direction ?? ARROW_DIRECTIONS[arrow[2]]
+      inverse = inverse ?? arrow[4]
+      confidence = confidence ?? (arrow[5] !== undefined ? Number(arrow[5]) : undefined)
+    }
+
+    if (!relation) {
+      throw new Error(`Relation pattern has no relation type: ${source}`)
+    }
+    if (confidence !== undefined && !(confidence >= 0 && confidence <= 1)) {
+      throw new Error(`Relation pattern confidence must be between 0 and 1: ${source}`)
+    }
+
+    const elements = (body.match(/\{[^}]*\}|[^\s{}]+/g) ?? []).map((part): PatternElement => {
+      if (part.startsWith("{")) {
+        const inner = part.slice(1, -1).trim()
+        const types = inner === "" || inner === "*" ? null : inner.split("|").map((type) => type.trim())
+        return { kind: "slot", types }
+      }
+      const optional = part.endsWith("?")
+      const alternatives = (optional ? part.slice(0, -1) : part).split("|").filter(Boolean)
+      return { kind: "word", alternatives: alternatives.map((word) => word.toLowerCase()), optional }
+    })
+
+    if (elements.filter((element) => element.kind === "slot").length !== 2) {
+      throw new Error(`Relation pattern must have exactly two slots: ${source}`)
+    }
+
+    return {
+      source,
+      relation,
+      inverse,
+      direction: direction ?? "forward",
+      confidence: confidence ?? DEFAULT_CONFIDENCE,
+      elements,
+    }
+  }
+
+  /**
+   * 从序列的 index 处开始匹配模式元素，成功时返回槽位实体和结束位置
+   * 可省略的词先尝试匹配，失败时再尝试省略
+   */
+  private matchFrom(
+    elements: PatternElement[],
+    elementIndex: number,
+    sequence: SequenceItem[],
+    index: number,
+    slots: Entity[]
+  ): { slots: Entity[]; end: number } | null {
+    if (elementIndex === elements.length) {
+      return { slots, end: index }
+    }
+
+    const element = elements[elementIndex]
+    if (element.kind === "slot") {
+      const entity = sequence[index]?.entity
+      if (!entity || (element.types && !element.types.includes(entity.type))) return null
+      return this.matchFrom(elements, elementIndex + 1, sequence, index + 1, [...slots, entity])
+    }
+
+    for (const word of element.alternatives) {
+      const end = this.matchWord(word, sequence, index)
+      if (end > index) {
+        const result = this.matchFrom(elements, elementIndex + 1, sequence, end, slots)
+        if (result) return result
+      }
+    }
+    return element.optional ? this.matchFrom(elements, elementIndex + 1, sequence, index, slots) : null
+  }
+
+  /**
+   * 词可以跨越多个连续词元，如 任职于 可能被切分为 任职/于，但不能从词元中间开始或结束
+   *
+   * @returns 匹配结束后的位置，匹配失败时返回 -1
+   */
+  private matchWord(word: string, sequence: SequenceItem[], index: number): number {
+    let text = ""
+    for (let i = index; i < sequence.length && !sequence[i].entity; i++) {
+      text += sequence[i].text.toLowerCase()
+      if (text === word) return i + 1
+      if (!word.startsWith(text)) return -1
+    }
+    return -1
+  }
+
+  /**
+   * 构建匹配序列：实体按位置排列，重叠时保留靠前和较长的；实体之外的文本按词元切分，
+   * 未被词元覆盖的文本（如被过滤的停用词）也作为词元保留，空白被忽略
+   */
+  private buildSequence(entities: Entity[], tokens: Token[], text: string, docId: string): SequenceItem[] {
+    const spans = entities
+      .filter((e) => e.docId === docId && e.id !== undefined && e.endPos > e.startPos)
+      .sort((a, b) => a.startPos - b.startPos || b.endPos - a.endPos)
+
+    const items: SequenceItem[] = []
+    let lastEnd = 0
+    spans.forEach((entity) => {
+      if (entity.startPos < lastEnd) return
+      items.push({ entity, text: entity.name, start: entity.startPos, end: entity.endPos })
+      lastEnd = entity.endPos
+    })
+
+    const sortedTokens = [...tokens].sort((a, b) => a.start - b.start)
+    const gaps: Array<[number, number]> = []
+    let cursor = 0
+    items.forEach((item) => {
+      gaps.push([cursor, item.start])
+      cursor = item.end
+    })
+    gaps.push([cursor, text.length])
+
+    gaps.forEach(([gapStart, gapEnd]) => {
+      let position = gapStart
+      sortedTokens
+        .filter((token) => token.start >= gapStart && token.end <= gapEnd)
+        .forEach((token) => {
+          if (token.start < position) return
+          this.pushText(items, text, position, token.start)
+          this.pushText(items, text, token.start, token.end)
+          position = token.end
+        })
+      this.pushText(items, text, position, gapEnd)
+    })
+
+    return items.sort((a, b) => a.start - b.start)
+  }
+
+  /**
+   * 添加词元，去掉首尾空白，中间的空白把文本分成多个词元
+   */
+  private pushText(items: SequenceItem[], text: string, start: number, end: number): void {
+    const regex = /\S+/g
+    const segment = text.substring(start, end)
+    let match
+    while ((match = regex.exec(segment)) !== null) {
+      items.push({ text: match[0], start: start + match.index, end: start + match.index + match[0].length })
+    }
+  }
+
+  private parseJson(text: string): Array<RelationPatternSpec | string> {
+    const data = JSON.parse(text)
+    const specs = Array.isArray(data) ? data : data?.patterns
+    if (!Array.isArray(specs)) {
+      throw new Error("Relation pattern file must be an array or contain a patterns array")
+    }
+    return specs
+  }
+
+  /**
+   * 解析 YAML 的常用子集：可选的 patterns 键下的列表，列表项为字符串或 键: 值 映射，# 开头为注释
+   */
+  private parseYaml(text: string): Array<RelationPatternSpec | string> {
+    const specs: Array<RelationPatternSpec | string> = []
+    let current: Record<string, any> | undefined
+
+    text.split(/\r?\n/).forEach((line) => {
+      const trimmed = line.trim()
+      if (!trimmed || trimmed.startsWith("#") || /^patterns\s*:\s*$/.test(trimmed)) return
+
+      const item = /^-\s*(.*)$/.exec(trimmed)
+      const entry = /^([A-Za-z_]+)\s*:\s*(.*)$/.exec(item ? item[1] : trimmed)
+      if (item && !entry) {
+        current = undefined
+        specs.push(String(this.parseYamlScalar(item[1])))
+      } else if (entry) {
+        if (item || !current) {
+          current = {}
+          specs.push(current as RelationPatternSpec)
+        }
+        current[entry[1]] = this.parseYamlScalar(entry[2])
+      } else {
+        throw new Error(`Unsupported YAML line: ${line}`)
+      }
+    })
+
+    return specs
+  }
+
+  private parseYamlScalar(value: string): string | number {
+    const trimmed = value.trim()
+    const quoted = /^(["'])(.*)\1$/.exec(trimmed)
+    if (quoted) {
+      return quoted[1] === '"' ? JSON.parse(trimmed) : quoted[2].replace(/''/g, "'")
+    }
+    return /^-?\d+(\.\d+)?$/.test(trimmed) ? Number(trimmed) : trimmed
+  }
+}
@@ -0,0 +1,152 @@
+import type { Relationship } from "../types"
+
+/**
+ * 关系类型定义
+ */
+export interface RelationTypeDefinition {
+  name: string
+  label?: string // 中文名称，用于提示词
+  domain?: string[] // 源实体允许的类型，缺省为任意类型
+  range?: string[] // 目标实体允许的类型，缺省为任意类型
+  inverse?: string // 反向关系，如 contain 是 belong_to 的反向
+  symmetric?: boolean // 对称关系，A 与 B 相关即 B 与 A 相关
+  transitive?: boolean // 传递关系，A 属于 B、B 属于 C 则 A 属于 C
+  extractable?: boolean // 是否交给大模型抽取，共现等由程序生成的关系为 false
+}
+
+/**
+ * 内置关系类型，互为反向的关系中先登记的为规范方向
+ */
+export const DEFAULT_RELATION_TYPES: RelationTypeDefinition[] = [
+  { name: "associate", label: "关联", symmetric: true },
+  { name: "belong_to", label: "属于", inverse: "contain", transitive: true },
+  { name: "contain", label: "包含", inverse: "belong_to", transitive: true },
+  { name: "describe", label: "描述" },
+  { name: "reference", label: "引用" },
+  { name: "cooccur", label: "共现", symmetric: true, extractable: false },
+]
+
+/**
+ * 关系类型注册表
+ * 记录关系的定义域、值域、反向、对称和传递语义，用于统一关系方向、校验实体类型和生成提示词
+ * 未登记的关系类型按普通有向关系处理
+ */
+export class RelationTypeRegistry {
+  private types: Map<string, RelationTypeDefinition>
+  private canonical: Map<string, boolean> // 互为反向的关系中是否为规范方向
+
+  constructor(definitions: RelationTypeDefinition[] = DEFAULT_RELATION_TYPES) {
+    this.types = new Map()
+    this.canonical = new Map()
+    definitions.forEach((definition) => this.register(definition))
+  }
+
+  /**
+   * 登记关系类型，同名时覆盖
+   * 反向关系未登记时一并登记，其定义域和值域与本关系互换
+   */
+  register(definition: RelationTypeDefinition): void {
+    const { name, inverse } = definition
+    this.types.set(name, { ...this.types.get(name), ...definition })
+    if (!this.canonical.has(name)) {
+      this.canonical.set(name, !inverse || !this.canonical.get(inverse))
+    }
+
+    if (inverse && inverse !== name) {
+      const existing = this.types.get(inverse)
+      this.types.set(inverse, {
+        name: inverse,
+        domain: definition.range,
+        range: definition.domain,
+        transitive: definition.transitive,
+        ...existing,
+        inverse: name,
+      })
+      this.canonical.set(inverse, !this.canonical.get(name))
+    }
+  }
+
+  get(name: string): RelationTypeDefinition | undefined {
+    return this.types.get(name)
+  }
+
+  has(name: string): boolean {
+    return this.types.has(name)
+  }
+
+  getAll(): RelationTypeDefinition[] {
+    return Array.from(this.types.values())
+  }
+
+  isSymmetric(name: string): boolean {
+    return this.types.get(name)?.symmetric === true
+  }
+
+  isTransitive(name: string): boolean {
+    return this.types.get(name)?.transitive === true
+  }
+
+  /**
+   * 反向读取关系时的类型：对称关系为自身，有反向关系时为反向关系，否则为 undefined
+   */
+  getInverse(name: string): string | undefined {
+    if (this.isSymmetric(name)) return name
+    return this.types.get(name)?.inverse
+  }
+
+  /**
+   * 统一关系方向：反向关系改写为规范方向的关系，对称关系按实体ID从小到大排列
+   */
+  canonicalize(relationship: Relationship): Relationship {
+    const { type, sourceEntityId, targetEntityId } = relationship
+    const definition = this.types.get(type)
+    if (!definition) return relationship
+
+    if (definition.symmetric) {
+      return sourceEntityId > targetEntityId
+        ? { ...relationship, sourceEntityId: targetEntityId, targetEntityId: sourceEntityId }
+        : relationship
+    }
+
+    if (definition.inverse && this.canonical.get(type) === false) {
+      return {
+        ...relationship,
+        type: definition.inverse,
+        sourceEntityId: targetEntityId,
+        targetEntityId: sourceEntityId,
+      }
+    }
+    return relationship
+  }
+
+  /**
+   * 检查源实体和目标实体的类型是否满足关系的定义域和值域，未登记的关系总是满足
+   */
+  accepts(name: string, sourceType?: string, targetType?: string): boolean {
+    const definition = this.types.get(name)
+    if (!definition) return true
+
+    const inRange = (allowed: string[] | undefined, type?: string) =>
+      !allowed || allowed.length === 0 || type === undefined || allowed.includes(type)
+    return inRange(definition.domain, sourceType) && inRange(definition.range, targetType)
+  }
+
+  /**
+   * 生成提示词中的关系类型说明，只列出规范方向且可抽取的关系
+   */
+  describeForPrompt(): string {
+    return this.getAll()
+      .filter((definition) => definition.extractable !== false && this.canonical.get(definition.name) !== false)
+      .map((definition) => {
+        const notes: string[] = []
+        if (definition.domain?.length) notes.push(`源实体类型：${definition.domain.join("/")}`)
+        if (definition.range?.length) notes.push(`目标实体类型：${definition.range.join("/")}`)
+        if (definition.inverse) notes.push(`反向为 ${definition.inverse}，请统一使用 ${definition.name}`)
+        if (definition.symmetric) notes.push("无方向")
+        if (definition.transitive) notes.push("可传递")
+        const label = definition.label ? `${definition.label}(${definition.name})` : definition.name
+        return notes.length > 0 ? `- ${label}：${notes.join("；")}` : `- ${label}`
+      })
+      .join("\n")
+  }
+}
@@ -0,0 +1,128 @@
+import type { Entity } from "../types"
+
+/**
+ * 仲裁依据
+ * source 按来源优先级，length 长的优先，confidence 置信度高的优先，type 按类型优先级
+ */
+export type ArbitrationCriterion = "source" | "length" | "confidence" | "type"
+
+/**
+ * 仲裁选项
+ */
+export interface ArbitrationOptions {
+  order?: ArbitrationCriterion[] // 依次比较的依据，前面的依据相同时才比较后面的
+  sourcePriority?: string[] // 来源优先级，靠前的优先，未列出的最低
+  typePriority?: string[] // 类型优先级，靠前的优先，未列出的最低
+}
+
+/**
+ * 落选的候选片段
+ */
+export interface RejectedSpan {
+  entity: Entity
+  winner: Entity // 与之重叠并胜出的片段
+  reason: ArbitrationCriterion | "duplicate" // 决定胜负的依据，各依据都相同时为 duplicate
+}
+
+/**
+ * 仲裁结果
+ */
+export interface ArbitrationResult {
+  entities: Entity[]
+  rejected: RejectedSpan[]
+}
+
+const DEFAULT_OPTIONS: Required<ArbitrationOptions> = {
+  order: ["length", "source", "confidence", "type"],
+  sourcePriority: ["dict", "llm", "rule"],
+  typePriority: ["organization", "location", "person", "time", "number"],
+}
+
+/**
+ * 片段仲裁器
+ * 合并规则、词典和大模型产生的候选实体，重叠的片段只保留优先级最高的一个
+ * 默认长的片段优先，来源优先级只在长度相同时起作用，避免词典中的短词截断更长的机构名或链接
+ */
+export class SpanArbiter {
+  private options: Required<ArbitrationOptions>
+
+  constructor(options: ArbitrationOptions = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options }
+  }
+
+  /**
+   * 修改仲裁选项
+   */
+  configure(options: ArbitrationOptions): void {
+    this.options = { ...this.options, ...options }
+  }
+
+  getOptions(): Required<ArbitrationOptions> {
+    return { ...this.options }
+  }
+
+  /**
+   * 仲裁候选实体，按优先级从高到低依次接受不与已接受片段重叠的候选
+   * 没有文本位置（起止相同）的实体不参与仲裁，原样保留
+   */
+  arbitrate(candidates: Entity[]): ArbitrationResult {
+    const result: ArbitrationResult = { entities: [], rejected: [] }
+    const spans: Entity[] = []
+
+    candidates.forEach((entity) => {
+      if (entity.endPos > entity.startPos) {
+        spans.push(entity)
+      } else {
+        result.entities.push(entity)
+      }
+    })
+
+    const accepted: Entity[] = []
+    spans
+      .sort((a, b) => this.compare(a, b) || a.startPos - b.startPos)
+      .forEach((entity) => {
+        const winner = accepted.find((other) => other.startPos < entity.endPos && entity.startPos < other.endPos)
+        if (winner) {
+          result.rejected.push({ entity, winner, reason: this.decidingCriterion(winner, entity) })
+        } else {
+          accepted.push(entity)
+        }
+      })
+
+    result.entities.push(...accepted.sort((a, b) => a.startPos - b.startPos))
+    return result
+  }
+
+  /**
+   * 按仲裁依据依次比较，a 优先时返回负数
+   */
+  private compare(a: Entity, b: Entity): number {
+    for (const criterion of this.options.order) {
+      const diff = this.compareBy(criterion, a, b)
+      if (diff !== 0) return diff
+    }
+    return 0
+  }
+
+  private compareBy(criterion: ArbitrationCriterion, a: Entity, b: Entity): number {
+    switch (criterion) {
+      case "source":
+        return this.rank(this.options.sourcePriority, a.source) - this.rank(this.options.sourcePriority, b.source)
+      case "length":
+        return b.endPos - b.startPos - (a.endPos - a.startPos)
+      case "confidence":
+        return (b.confidence ?? 0) - (a.confidence ?? 0)
+      case "type":
+        return this.rank(this.options.typePriority, a.type) - this.rank(this.options.typePriority, b.type)
+    }
+  }
+
+  private decidingCriterion(winner: Entity, loser: Entity): ArbitrationCriterion | "duplicate" {
+    return this.options.order.find((criterion) => this.compareBy(criterion, winner, loser) < 0) ?? "duplicate"
+  }
+
+  private rank(priority: string[], value?: string): number {
+    const index = value === undefined ? -1 : priority.indexOf(value)
+    return index >= 0 ? index : priority.length
+  }
+}
@@ -0,0 +1,224 @@
+import type KernelApi from "../../api/kernel-api"
+import type { Entity, Relationship } from "../types"
+
+/**
+ * 单篇文档最多读取的标签条数
+ */
+const MAX_TAGS_PER_DOC = 10000
+
+/**
+ * 自定义属性名前缀
+ */
+const CUSTOM_ATTR_PREFIX = "custom-"
+
+/**
+ * 写回服务记录抽取结果的属性，读取时跳过，避免写回的结果再次成为实体属性
+ */
+export const AI_ENTITIES_ATTR = "custom-ai-entities"
+
+/**
+ * 单篇文档最多读取的属性条数
+ */
+const MAX_ATTRS_PER_DOC = 10000
+
+/**
+ * 文档元数据，来自 blocks 表中的文档块
+ */
+interface DocRow {
+  id: string
+  content: string
+  hpath: string
+  path: string
+  box: string
+}
+
+/**
+ * 结构抽取器
+ * 将思源的标签、笔记本和文档层级转换为实体和关系，不依赖文本内容和大模型
+ */
+export class StructureExtractor {
+  private kernelApi: KernelApi
+  private notebookNames = new Map<string, string>()
+
+  constructor(kernelApi: KernelApi) {
+    this.kernelApi = kernelApi
+  }
+
+  /**
+   * 提取文档、上级文档、笔记本和标签实体
+   * 实体都挂在当前文档下，重建或删除文档时一并清除
+   */
+  async extractEntities(docId: string, text: string): Promise<Entity[]> {
+    const doc = await this.queryDoc(docId)
+    if (!doc) return []
+
+    const entities: Entity[] = [this.createEntity(doc.content, "document", docId, doc.id)]
+
+    // 上级文档，path 形如 /父文档ID/子文档ID.sy，hpath 为对应的标题路径
+    const parentId = this.getParentId(doc.path)
+    if (parentId) {
+      const titles = doc.hpath.split("/").filter((t) => t.length > 0)
+      const parentTitle = titles.length > 1 ? titles[titles.length - 2] : parentId
+      entities.push(this.createEntity(parentTitle, "document", docId, parentId))
+    } else if (doc.box) {
+      // 顶层文档归属于笔记本
+      const notebookName = await this.getNotebookName(doc.box)
+      entities.push(this.createEntity(notebookName, "notebook", docId, undefined, { notebookId: doc.box }))
+    }
+
+    // 标签，同一标签在文档中只保留一个实体，块ID取首次出现的块
+    const seen = new Set<string>()
+    const tags = await this.queryTags(docId)
+    tags.forEach((tag) => {
+      const name = (tag.content as string).trim()
+      if (!name || seen.has(name)) return
+      seen.add(name)
+
+      const entity = this.createEntity(name, "tag", docId, tag.block_id)
+      const startPos = text.indexOf(name)
+      if (startPos >= 0) {
+        entity.startPos = startPos
+        entity.endPos = startPos + name.length
+      }
+      entities.push(entity)
+    })
+
+    return entities
+  }
+
+  /**
+   * 根据已存储的实体生成 child_of 和 tagged_with 关系
+   */
+  extractRelationships(entities: Entity[], docId: string): Relationship[] {
+    const structural = entities.filter((e) => e.source === "siyuan-structure" && e.id !== undefined)
+    const docEntity = structural.find((e) => e.type === "document" && e.blockId === docId)
+    if (!docEntity) return []
+
+    const relationships: Relationship[] = []
+    structural.forEach((entity) => {
+      if (entity === docEntity) return
+
+      if (entity.type === "document" || entity.type === "notebook") {
+        relationships.push(this.createRelationship(docEntity, entity, "child_of", docId))
+      } else if (entity.type === "tag") {
+        const rel = this.createRelationship(docEntity, entity, "tagged_with", docId)
+        rel.blockId = entity.blockId
+        relationships.push(rel)
+      }
+    })
+
+    return relationships
+  }
+
+  /**
+   * 读取块的自定义属性（custom-*），去掉前缀后合并到块内实体的 properties
+   * 属性值按数字、布尔值、字符串解析
+   */
+  async attachAttributes(entities: Entity[], docId: string): Promise<Entity[]> {
+    const rows = await this.query(
+      `SELECT block_id, name, value FROM attributes WHERE root_id = '${docId}' ` +
+        `AND name LIKE '${CUSTOM_ATTR_PREFIX}%' AND name != '${AI_ENTITIES_ATTR}' LIMIT ${MAX_ATTRS_PER_DOC}`
+    )
+    if (rows.length === 0) return entities
+
+    const blockAttrs = new Map<string, Record<string, any>>()
+    rows.forEach((row) => {
+      const attrs = blockAttrs.get(row.block_id) ?? {}
+      attrs[(row.name as string).substring(CUSTOM_ATTR_PREFIX.length)] = this.parseAttributeValue(row.value)
+      blockAttrs.set(row.block_id, attrs)
+    })
+
+    entities.forEach((entity) => {
+      const attrs = entity.blockId ? blockAttrs.get(entity.blockId) : undefined
+      if (attrs) {
+        entity.properties = { ...entity.properties, ...attrs }
+      }
+    })
+    return entities
+  }
+
+  /**
+   * 解析属性值，思源的属性值都以字符串存储
+   */
+  private parseAttributeValue(value: string): string | number | boolean {
+    const trimmed = (value ?? "").trim()
+    if (trimmed === "true" || trimmed === "false") return trimmed === "true"
+    if (/^-?(0|[1-9]\d*)(\.\d+)?$/.test(trimmed)) return Number(trimmed)
+    return trimmed
+  }
+
+  private createEntity(
+    name: string,
+    type: string,
+    docId: string,
+    blockId?: string,
+    properties?: Record<string, any>
+  ): Entity {
+    return {
+      name: name,
+      type: type,
+      docId: docId,
+      startPos: 0,
+      endPos: 0,
+      blockId: blockId,
+      properties: properties,
+      source: "siyuan-structure",
+      confidence: 1.0,
+    }
+  }
+
+  private createRelationship(source: Entity, target: Entity, type: string, docId: string): Relationship {
+    return {
+      sourceEntityId: source.id!,
+      targetEntityId: target.id!,
+      type: type,
+      docId: docId,
+      blockId: docId,
+      confidence: 1.0,
+      source: "siyuan-structure",
+    }
+  }
+
+  /**
+   * 从文档路径中取上级文档ID，顶层文档返回 undefined
+   */
+  private getParentId(path: string): string | undefined {
+    const ids = (path ?? "")
+      .replace(/\.sy$/, "")
+      .split("/")
+      .filter((id) => id.length > 0)
+    return ids.length > 1 ? ids[ids.length - 2] : undefined
+  }
+
+  /**
+   * 获取笔记本名称，结果会缓存
+   */
+  private async getNotebookName(notebookId: string): Promise<string> {
+    if (!this.notebookNames.has(notebookId)) {
+      const notebooks = await this.kernelApi.lsNotebooks()
+      notebooks.forEach((notebook) => this.notebookNames.set(notebook.id, notebook.name))
+    }
+    return this.notebookNames.get(notebookId) ?? notebookId
+  }
+
+  private async queryDoc(docId: string): Promise<DocRow | undefined> {
+    const rows = await this.query(
+      `SELECT id, content, hpath, path, box FROM blocks WHERE id = '${docId}' AND type = 'd'`
+    )
+    return rows[0]
+  }
+
+  private async queryTags(docId: string): Promise<any[]> {
+    return this.query(
+      `SELECT block_id, content FROM spans WHERE root_id = '${docId}' AND type LIKE '%tag%' LIMIT ${MAX_TAGS_PER_DOC}`
+    )
+  }
+
+  private async query(stmt: string): Promise<any[]> {
+    const res = await this.kernelApi.sql(stmt)
+    if (res.code !== 0) {
+      throw new Error(`Failed to query SiYuan: ${res.msg}`)
+    }
+    return (res.data as any[]) ?? []
+  }
+}
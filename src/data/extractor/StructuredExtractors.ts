@@ -0,0 +1,187 @@
+/**
+ * 结构化实体的规范化函数，返回附加到实体上的属性，返回 null 表示匹配无效
+ */
+export type EntityNormalizer = (text: string) => Record<string, any> | null
+
+/**
+ * 结构化实体类型
+ */
+export interface StructuredEntityType {
+  type: string
+  rules: RegExp[]
+  normalize: EntityNormalizer
+  enabledByDefault: boolean
+}
+
+/**
+ * 链接末尾不应包含的标点，中英文句末的标点通常不是链接的一部分
+ */
+const URL_TAIL = `[^\\s<>"'\`，。；！？、）】.,;:!?)]`
+const URL_BODY = `[^\\s<>"'\`，。；！？、）】]*`
+
+/**
+ * 跟踪参数，规范化链接时去掉
+ */
+const TRACKING_PARAMS = /^(utm_\w+|spm|fbclid|gclid)$/i
+
+/**
+ * 形如 ABC-123 但不是问题编号的常见写法
+ */
+const NON_ISSUE_PREFIXES = new Set(["UTF", "ISO", "SHA", "GB", "MD", "X", "COVID"])
+
+/**
+ * 链接：统一协议和域名的大小写，去掉默认端口、锚点和跟踪参数
+ */
+const normalizeUrl: EntityNormalizer = (text) => {
+  let url: URL
+  try {
+    url = new URL(text)
+  } catch {
+    return null
+  }
+
+  const params = Array.from(url.searchParams.entries()).filter(([key]) => !TRACKING_PARAMS.test(key))
+  url.search = new URLSearchParams(params.sort((a, b) => a[0].localeCompare(b[0]))).toString()
+  url.hash = ""
+  const path = url.pathname.length > 1 ? url.pathname.replace(/\/+$/, "") : ""
+
+  return {
+    canonical: `${url.protocol}//${url.host}${path}${url.search}`,
+    host: url.hostname,
+    path: path || "/",
+  }
+}
+
+/**
+ * 邮箱：转小写并拆出用户名和域名
+ */
+const normalizeEmail: EntityNormalizer = (text) => {
+  const canonical = text.toLowerCase()
+  const at = canonical.lastIndexOf("@")
+  return { canonical, user: canonical.substring(0, at), domain: canonical.substring(at + 1) }
+}
+
+/**
+ * 问题编号：拆出项目和序号
+ */
+const normalizeIssueKey: EntityNormalizer = (text) => {
+  const [project, number] = text.split("-")
+  if (NON_ISSUE_PREFIXES.has(project)) return null
+  return { canonical: text, project, number: Number(number) }
+}
+
+/**
+ * 语义化版本：解析主、次、修订号，以及预发布和构建标识
+ */
+const normalizeVersion: EntityNormalizer = (text) => {
+  const match = /^v?(\d+)\.(\d+)\.(\d+)(?:-([0-9A-Za-z.-]+))?(?:\+([0-9A-Za-z.-]+))?$/i.exec(text)
+  if (!match) return null
+
+  const [, major, minor, patch, prerelease, build] = match
+  return {
+    canonical: `${Number(major)}.${Number(minor)}.${Number(patch)}${prerelease ? `-${prerelease}` : ""}`,
+    major: Number(major),
+    minor: Number(minor),
+    patch: Number(patch),
+    prerelease: prerelease ?? null,
+    build: build ?? null,
+  }
+}
+
+/**
+ * 文件路径：统一为正斜杠，拆出目录、文件名和扩展名
+ */
+const normalizePath: EntityNormalizer = (text) => {
+  const canonical = text.replace(/\\/g, "/")
+  const segments = canonical.split("/").filter((segment) => segment && segment !== "." && !/^[A-Za-z]:$/.test(segment))
+  // 2024/01/02 之类的日期不是路径
+  if (segments.every((segment) => /^\d+$/.test(segment))) return null
+
+  const name = segments[segments.length - 1] ?? ""
+  const dot = name.lastIndexOf(".")
+
+  return {
+    canonical,
+    dir: canonical.substring(0, canonical.length - name.length).replace(/\/$/, "") || "/",
+    name,
+    ext: dot > 0 ? name.substring(dot + 1).toLowerCase() : null,
+    segments,
+  }
+}
+
+/**
+ * 代码标识符：识别命名风格并拆成小写单词
+ */
+const normalizeIdentifier: EntityNormalizer = (text) => {
+  const name = text.replace(/^`|`$/g, "").replace(/\(\)$/, "")
+  let style: string
+  if (/^[A-Z][A-Z0-9]*(_[A-Z0-9]+)+$/.test(name)) {
+    style = "constant"
+  } else if (name.includes("_")) {
+    style = "snake"
+  } else if (/^[A-Z]/.test(name)) {
+    style = "pascal"
+  } else {
+    style = "camel"
+  }
+
+  const words = name
+    .split(/[_.]+/)
+    .flatMap((part) => part.split(/(?<=[a-z0-9])(?=[A-Z])/))
+    .map((word) => word.toLowerCase())
+    .filter(Boolean)
+  return { canonical: name, style, words }
+}
+
+/**
+ * 内置的结构化实体类型
+ * 规则中的前后断言保证匹配不从单词或路径的中间开始
+ */
+export const STRUCTURED_ENTITY_TYPES: StructuredEntityType[] = [
+  {
+    type: "url",
+    rules: [new RegExp(`https?:\\/\\/${URL_BODY}${URL_TAIL}`, "gi")],
+    normalize: normalizeUrl,
+    enabledByDefault: true,
+  },
+  {
+    type: "email",
+    rules: [/(?<![\w.%+-])[A-Za-z0-9._%+-]+@[A-Za-z0-9-]+(?:\.[A-Za-z0-9-]+)*\.[A-Za-z]{2,}(?![\w-])/g],
+    normalize: normalizeEmail,
+    enabledByDefault: true,
+  },
+  {
+    type: "issue_key",
+    rules: [/(?<![\w-])[A-Z][A-Z0-9]{1,9}-\d+(?![\w-])/g],
+    normalize: normalizeIssueKey,
+    enabledByDefault: true,
+  },
+  {
+    type: "version",
+    rules: [/(?<![\w.])v?\d+\.\d+\.\d+(?:-[0-9A-Za-z.-]*[0-9A-Za-z])?(?:\+[0-9A-Za-z.-]*[0-9A-Za-z])?(?![\w]|\.\d)/gi],
+    normalize: normalizeVersion,
+    enabledByDefault: true,
+  },
+  {
+    type: "file_path",
+    rules: [
+      /(?<![\w:/.~])(?:~|\.{1,2})?(?:\/[\w.@-]+){2,}\/?/g, // Unix 绝对路径，至少两级
+      /(?<![\w:/.~@-])[\w.@-]+(?:\/[\w.@-]+){2,}/g, // 相对路径，至少三级，避免 and/or 之类的写法
+      /(?<![\w])[A-Za-z]:\\(?:[\w.@ -]+\\)*[\w.@-]+/g, // Windows 路径
+    ],
+    normalize: normalizePath,
+    enabledByDefault: true,
+  },
+  {
+    type: "code_identifier",
+    rules: [
+      /(?<![\w.])[a-z][a-z0-9]*(?:[A-Z][a-z0-9]*)+(?:\(\))?(?![\w])/g, // camelCase
+      /(?<![\w.])[A-Z][a-z0-9]+(?:[A-Z][a-z0-9]+)+(?![\w])/g, // PascalCase
+      /(?<![\w.])[a-z][a-z0-9]*(?:_[a-z0-9]+)+(?:\(\))?(?![\w])/g, // snake_case
+      /(?<![\w.])[A-Z][A-Z0-9]*(?:_[A-Z0-9]+)+(?![\w])/g, // CONSTANT_CASE
+      /`[A-Za-z_$][\w$.]*(?:\(\))?`/g, // 行内代码
+    ],
+    normalize: normalizeIdentifier,
+    enabledByDefault: true,
+  },
+]
@@ -0,0 +1,315 @@
+/**
+ * 时间表达式的粒度
+ */
+export type TemporalGranularity = "datetime" | "day" | "week" | "month" | "quarter" | "year"
+
+/**
+ * 规范化后的时间，日期均为本地时区的 YYYY-MM-DD
+ */
+export interface TemporalValue {
+  iso: string // ISO 8601 表示，如 2024-03-05、2024-W10、2024-03、2025-Q3、2024-03-05T14:30
+  start: string // 区间起始日期
+  end: string // 区间结束日期（含）
+  granularity: TemporalGranularity
+  relative: boolean // 是否依赖参考时间解析
+}
+
+/**
+ * 时间表达式的匹配模式和解析函数
+ */
+interface TemporalPattern {
+  source: string
+  resolve: (match: RegExpExecArray, ref: Date) => TemporalValue | null
+}
+
+const ZH_WEEKDAYS = "一二三四五六日天"
+const EN_WEEKDAYS = ["monday", "tuesday", "wednesday", "thursday", "friday", "saturday", "sunday"]
+const EN_MONTHS = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"]
+const EN_MONTH_SOURCE =
+  "(jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sep(?:t(?:ember)?)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)"
+const ZH_NUMBER = "[一二两三四五六七八九十]+"
+
+const ZH_DAY_OFFSETS: Record<string, number> = {
+  大前天: -3,
+  前天: -2,
+  昨天: -1,
+  昨日: -1,
+  今天: 0,
+  今日: 0,
+  明天: 1,
+  明日: 1,
+  后天: 2,
+  大后天: 3,
+}
+const EN_DAY_OFFSETS: Record<string, number> = { yesterday: -1, today: 0, tonight: 0, tomorrow: 1 }
+const ZH_WEEK_OFFSETS: Record<string, number> = { 上上: -2, 上: -1, 本: 0, 这: 0, 下: 1, 下下: 2 }
+const ZH_YEAR_OFFSETS: Record<string, number> = { 前: -2, 去: -1, 今: 0, 明: 1, 后: 2 }
+const EN_OFFSETS: Record<string, number> = { last: -1, this: 0, next: 1 }
+
+const pad = (value: number, length: number = 2) => String(value).padStart(length, "0")
+
+const formatDate = (date: Date) => `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`
+
+const addDays = (date: Date, days: number) => new Date(date.getFullYear(), date.getMonth(), date.getDate() + days)
+
+/**
+ * 参考日期所在周的周一，按中文习惯一周从周一开始
+ */
+const startOfWeek = (date: Date) => addDays(date, -((date.getDay() + 6) % 7))
+
+/**
+ * 解析一到九十九的中文数字
+ */
+const parseChineseNumber = (text: string): number => {
+  if (/^\d+$/.test(text)) return Number(text)
+
+  const digits: Record<string, number> = { 一: 1, 二: 2, 两: 2, 三: 3, 四: 4, 五: 5, 六: 6, 七: 7, 八: 8, 九: 9 }
+  const tenIndex = text.indexOf("十")
+  if (tenIndex < 0) return digits[text] ?? NaN
+
+  const tens = tenIndex === 0 ? 1 : digits[text.substring(0, tenIndex)]
+  const ones = tenIndex === text.length - 1 ? 0 : digits[text.substring(tenIndex + 1)]
+  return tens * 10 + ones
+}
+
+const dayValue = (date: Date, relative: boolean): TemporalValue => {
+  const day = formatDate(date)
+  return { iso: day, start: day, end: day, granularity: "day", relative }
+}
+
+/**
+ * 校验年月日后生成日期，超出范围时返回 null
+ */
+const validDay = (year: number, month: number, day: number, relative: boolean): TemporalValue | null => {
+  const date = new Date(year, month - 1, day)
+  if (date.getMonth() !== month - 1 || date.getDate() !== day) return null
+  return dayValue(date, relative)
+}
+
+const dateTimeValue = (date: Date, hour: number, minute: number, relative: boolean): TemporalValue | null => {
+  if (hour > 23 || minute > 59) return null
+  const day = formatDate(date)
+  return { iso: `${day}T${pad(hour)}:${pad(minute)}`, start: day, end: day, granularity: "datetime", relative }
+}
+
+/**
+ * ISO 周，周一所在周包含当年第一个周四的为第一周
+ */
+const weekValue = (date: Date, relative: boolean): TemporalValue => {
+  const monday = startOfWeek(date)
+  const thursday = addDays(monday, 3)
+  const firstThursday = new Date(thursday.getFullYear(), 0, 4)
+  const week = 1 + Math.round((thursday.getTime() - startOfWeek(firstThursday).getTime() - 3 * 86400000) / 604800000)
+  return {
+    iso: `${thursday.getFullYear()}-W${pad(week)}`,
+    start: formatDate(monday),
+    end: formatDate(addDays(monday, 6)),
+    granularity: "week",
+    relative,
+  }
+}
+
+const monthValue = (year: number, month: number, relative: boolean): TemporalValue | null => {
+  const first = new Date(year, month - 1, 1)
+  if (month < 1 || month > 12) return null
+  return {
+    iso: `${first.getFullYear()}-${pad(first.getMonth() + 1)}`,
+    start: formatDate(first),
+    end: formatDate(new Date(first.getFullYear(), first.getMonth() + 1, 0)),
+    granularity: "month",
+    relative,
+  }
+}
+
+const quarterValue = (year: number, quarter: number, relative: boolean): TemporalValue => ({
+  iso: `${year}-Q${quarter}`,
+  start: formatDate(new Date(year, (quarter - 1) * 3, 1)),
+  end: formatDate(new Date(year, quarter * 3, 0)),
+  granularity: "quarter",
+  relative,
+})
+
+const yearValue = (year: number, relative: boolean): TemporalValue => ({
+  iso: `${pad(year, 4)}`,
+  start: `${pad(year, 4)}-01-01`,
+  end: `${pad(year, 4)}-12-31`,
+  granularity: "year",
+  relative,
+})
+
+/**
+ * 按单位偏移参考时间
+ */
+const shiftValue = (ref: Date, amount: number, unit: string): TemporalValue | null => {
+  if (/^(天|日|day)/.test(unit)) return dayValue(addDays(ref, amount), true)
+  if (/^(周|星期|week)/.test(unit)) return weekValue(addDays(ref, amount * 7), true)
+  if (/^(个月|月|month)/.test(unit)) return monthValue(ref.getFullYear(), ref.getMonth() + 1 + amount, true)
+  if (/^(年|year)/.test(unit)) return yearValue(ref.getFullYear() + amount, true)
+  return null
+}
+
+const parseQuarter = (text: string) => ("一二三四".includes(text) ? "一二三四".indexOf(text) + 1 : Number(text))
+
+/**
+ * 支持的时间表达式，按从具体到笼统的顺序排列
+ */
+const PATTERNS: TemporalPattern[] = [
+  // 2024-03-05、2024/3/5、2024年3月5日，可带时刻
+  {
+    source: "(\\d{4})[-/年](\\d{1,2})[-/月](\\d{1,2})[日号]?(?:[\\sT]*(\\d{1,2}):(\\d{2})(?::\\d{2})?)?",
+    resolve: (m) => {
+      const day = validDay(Number(m[1]), Number(m[2]), Number(m[3]), false)
+      if (!day || m[4] === undefined) return day
+      return dateTimeValue(new Date(`${day.start}T00:00:00`), Number(m[4]), Number(m[5]), false)
+    },
+  },
+  // 2025年第三季度、第3季度、2025 Q3、Q3 2025
+  {
+    source: `(?:(\\d{4})\\s*年?\\s*)?第?([一二三四1-4])季度`,
+    resolve: (m, ref) => quarterValue(m[1] ? Number(m[1]) : ref.getFullYear(), parseQuarter(m[2]), !m[1]),
+  },
+  {
+    source: "(\\d{4})\\s*Q([1-4])\\b",
+    resolve: (m) => quarterValue(Number(m[1]), Number(m[2]), false),
+  },
+  {
+    source: "\\bQ([1-4])(?:\\s+(\\d{4}))?\\b",
+    resolve: (m, ref) => quarterValue(m[2] ? Number(m[2]) : ref.getFullYear(), Number(m[1]), !m[2]),
+  },
+  // 2024年3月
+  {
+    source: "(\\d{4})年(\\d{1,2})月(?![\\d份]*[日号])",
+    resolve: (m) => monthValue(Number(m[1]), Number(m[2]), false),
+  },
+  // 3月5日
+  {
+    source: "(?<![\\d年])(\\d{1,2})月(\\d{1,2})[日号]",
+    resolve: (m, ref) => validDay(ref.getFullYear(), Number(m[1]), Number(m[2]), true),
+  },
+  // 2024年
+  {
+    source: "(?<!\\d)(\\d{4})年(?![\\d第])",
+    resolve: (m) => yearValue(Number(m[1]), false),
+  },
+  // 今天、明天、前天
+  {
+    source: `(${Object.keys(ZH_DAY_OFFSETS).join("|")})`,
+    resolve: (m, ref) => dayValue(addDays(ref, ZH_DAY_OFFSETS[m[1]]), true),
+  },
+  // 上周三、下个星期五、周日
+  {
+    source: `(上上|上|下下|下|本|这)?个?(?:周|星期|礼拜)([${ZH_WEEKDAYS}])`,
+    resolve: (m, ref) => {
+      const weekday = Math.min(ZH_WEEKDAYS.indexOf(m[2]), 6)
+      return dayValue(addDays(startOfWeek(ref), (ZH_WEEK_OFFSETS[m[1] ?? "本"] ?? 0) * 7 + weekday), true)
+    },
+  },
+  // 上周、本星期
+  {
+    source: `(上上|上|下下|下|本|这)个?(?:周|星期|礼拜)(?![${ZH_WEEKDAYS}])`,
+    resolve: (m, ref) => weekValue(addDays(ref, ZH_WEEK_OFFSETS[m[1]] * 7), true),
+  },
+  // 上个月、本月
+  {
+    source: "(上|下|本|这)个?月",
+    resolve: (m, ref) => monthValue(ref.getFullYear(), ref.getMonth() + 1 + (ZH_WEEK_OFFSETS[m[1]] ?? 0), true),
+  },
+  // 去年、明年
+  {
+    source: "(前|去|今|明|后)年",
+    resolve: (m, ref) => yearValue(ref.getFullYear() + ZH_YEAR_OFFSETS[m[1]], true),
+  },
+  // 3天前、两周后、六个月以前
+  {
+    source: `(\\d+|${ZH_NUMBER})\\s*(天|日|周|星期|个月|年)(前|后|以前|以后|之前|之后)`,
+    resolve: (m, ref) => {
+      const amount = parseChineseNumber(m[1])
+      if (Number.isNaN(amount)) return null
+      return shiftValue(ref, m[3].endsWith("前") ? -amount : amount, m[2])
+    },
+  },
+  // today、tomorrow
+  {
+    source: `\\b(${Object.keys(EN_DAY_OFFSETS).join("|")})\\b`,
+    resolve: (m, ref) => dayValue(addDays(ref, EN_DAY_OFFSETS[m[1].toLowerCase()]), true),
+  },
+  // next Friday、last Monday、Friday
+  {
+    source: `\\b(?:(next|last|this)\\s+)?(${EN_WEEKDAYS.join("|")})\\b`,
+    resolve: (m, ref) => {
+      const offset = m[1] ? EN_OFFSETS[m[1].toLowerCase()] : 0
+      return dayValue(addDays(startOfWeek(ref), offset * 7 + EN_WEEKDAYS.indexOf(m[2].toLowerCase())), true)
+    },
+  },
+  // next week、last month、this year
+  {
+    source: "\\b(next|last|this)\\s+(week|month|year)\\b",
+    resolve: (m, ref) => shiftValue(ref, EN_OFFSETS[m[1].toLowerCase()], m[2].toLowerCase()),
+  },
+  // 3 days ago、in 2 weeks
+  {
+    source: "\\b(\\d+)\\s+(day|week|month|year)s?\\s+ago\\b",
+    resolve: (m, ref) => shiftValue(ref, -Number(m[1]), m[2].toLowerCase()),
+  },
+  {
+    source: "\\bin\\s+(\\d+)\\s+(day|week|month|year)s?\\b",
+    resolve: (m, ref) => shiftValue(ref, Number(m[1]), m[2].toLowerCase()),
+  },
+  // March 5, 2024、Mar 5
+  {
+    source: `\\b${EN_MONTH_SOURCE}\\.?\\s+(\\d{1,2})(?:st|nd|rd|th)?(?:,?\\s+(\\d{4}))?\\b`,
+    resolve: (m, ref) => {
+      const month = EN_MONTHS.indexOf(m[1].substring(0, 3).toLowerCase()) + 1
+      return validDay(m[3] ? Number(m[3]) : ref.getFullYear(), month, Number(m[2]), !m[3])
+    },
+  },
+  // March 2024
+  {
+    source: `\\b${EN_MONTH_SOURCE}\\.?\\s+(\\d{4})\\b`,
+    resolve: (m) => monthValue(Number(m[2]), EN_MONTHS.indexOf(m[1].substring(0, 3).toLowerCase()) + 1, false),
+  },
+  // 14:30，日期取参考时间
+  {
+    source: "(?<![\\d:])(\\d{1,2}):(\\d{2})(?::\\d{2})?(?![\\d:])",
+    resolve: (m, ref) => dateTimeValue(ref, Number(m[1]), Number(m[2]), true),
+  },
+]
+
+/**
+ * 时间表达式规范化器
+ * 将绝对和相对的时间表达式解析为 ISO 日期或区间，相对表达式按参考时间（通常是文档创建时间）解析
+ */
+export class TemporalNormalizer {
+  private anchored: Array<[RegExp, TemporalPattern]>
+
+  constructor() {
+    this.anchored = PATTERNS.map((pattern) => [new RegExp(`^(?:${pattern.source})$`, "i"), pattern])
+  }
+
+  /**
+   * 识别时间表达式的规则，用于实体抽取
+   */
+  getRules(): RegExp[] {
+    return PATTERNS.map((pattern) => new RegExp(pattern.source, "gi"))
+  }
+
+  /**
+   * 规范化时间表达式，无法识别时返回 null
+   *
+   * @param text - 时间表达式
+   * @param referenceTime - 参考时间（毫秒），相对表达式以此为准
+   */
+  normalize(text: string, referenceTime: number): TemporalValue | null {
+    const input = (text ?? "").normalize("NFKC").trim()
+    const ref = new Date(referenceTime)
+
+    for (const [regex, pattern] of this.anchored) {
+      const match = regex.exec(input)
+      if (match) {
+        const value = pattern.resolve(match, ref)
+        if (value) return value
+      }
+    }
+    return null
+  }
+}
@@ -1,5 +1,5 @@
-import type { Entity, Relationship } from '../types';
-import { DatabaseManager } from '../db/DatabaseManager';
+import type { CanonicalEntity, Entity, EntityMention, Relationship } from '../types';
+import { DatabaseManagerAdapter } from '../db/DatabaseManagerAdapter';
 
 /**
  * 实体融合策略类型
@@ -24,7 +24,7 @@ export interface FusionConfig {
  * 实体融合器，负责融合相似实体
  */
 export class EntityFusion {
-  private dbManager: DatabaseManager;
+  private dbManager: DatabaseManagerAdapter;
   private defaultConfig: FusionConfig = {
     strategy: FusionStrategy.FUZZY_MATCH,
     threshold: 0.8,
@@ -32,7 +32,7 @@ export class EntityFusion {
     considerContext: false,
   };
 
-  constructor(dbManager: DatabaseManager) {
+  constructor(dbManager: DatabaseManagerAdapter) {
     this.dbManager = dbManager;
   }
 
@@ -484,4 +484,111 @@ export class EntityFusion {
     
     return mergedEntity;
   }
-}
\ No newline at end of file
+
+  /**
+   * 将实体提及解析到规范实体
+   * 文档、块引用等对应思源块的实体按块ID匹配，不同文档同名也不会合并；
+   * 其余实体按名称和别名匹配同类型的规范实体，匹配不到时新建；模糊匹配只用于从文本中抽取的实体
+   */
+  async resolveMentions(entities: Entity[], config?: Partial<FusionConfig>): Promise<EntityMention[]> {
+    // 默认只做精确匹配，避免"2024年1月"和"2024年2月"这类名称被误合并
+    const fusionConfig = { ...this.defaultConfig, strategy: FusionStrategy.EXACT_MATCH, ...config };
+
+    const canonicals = await this.dbManager.getCanonicalEntities();
+    const nameIndex = new Map<string, CanonicalEntity>();
+    const indexCanonical = (canonical: CanonicalEntity) => {
+      if (canonical.blockId) {
+        nameIndex.set(this.getBlockKey(canonical.blockId), canonical);
+        return;
+      }
+      [canonical.name, ...(canonical.aliases || [])].forEach(name => {
+        nameIndex.set(this.getCanonicalKey(canonical.type, name), canonical);
+      });
+    };
+    canonicals.forEach(indexCanonical);
+
+    const mentions: EntityMention[] = [];
+    for (const entity of entities) {
+      if (entity.id === undefined) continue;
+
+      const blockId = this.getBlockIdentity(entity);
+      let canonical = nameIndex.get(blockId ? this.getBlockKey(blockId) : this.getCanonicalKey(entity.type, entity.name));
+
+      // 文档改名后以思源中的标题为准
+      if (canonical && blockId && entity.source === 'siyuan-structure' && canonical.name !== entity.name) {
+        canonical.name = entity.name;
+        await this.dbManager.saveCanonicalEntity(canonical);
+      }
+
+      if (!canonical && !blockId && fusionConfig.strategy !== FusionStrategy.EXACT_MATCH && !entity.source?.startsWith('siyuan-')) {
+        canonical = this.findSimilarCanonical(entity, canonicals, fusionConfig);
+        if (canonical) {
+          canonical.aliases = [...(canonical.aliases || []), entity.name];
+          await this.dbManager.saveCanonicalEntity(canonical);
+          indexCanonical(canonical);
+        }
+      }
+
+      if (!canonical) {
+        canonical = { name: entity.name, type: entity.type, blockId, aliases: [] };
+        canonical.id = await this.dbManager.saveCanonicalEntity(canonical);
+        canonicals.push(canonical);
+        indexCanonical(canonical);
+      }
+
+      mentions.push({ canonicalId: canonical.id!, entityId: entity.id, docId: entity.docId });
+    }
+
+    await this.dbManager.saveEntityMentions(mentions);
+    return mentions;
+  }
+
+  /**
+   * 查找名称或别名与实体最相似的规范实体
+   */
+  private findSimilarCanonical(
+    entity: Entity,
+    canonicals: CanonicalEntity[],
+    config: FusionConfig
+  ): CanonicalEntity | undefined {
+    let best: CanonicalEntity | undefined;
+    let bestScore = config.threshold;
+
+    for (const canonical of canonicals) {
+      if (config.considerType && canonical.type !== entity.type) continue;
+
+      for (const name of [canonical.name, ...(canonical.aliases || [])]) {
+        const score = this.calculateStringSimilarity(entity.name, name);
+        if (score >= bestScore) {
+          best = canonical;
+          bestScore = score;
+        }
+      }
+    }
+
+    return best;
+  }
+
+  /**
+   * 实体对应的思源块：文档和块引用锚点取块ID，笔记本取笔记本ID，词典中的文档标题取文档ID
+   * 标签按名称合并，没有块身份
+   */
+  private getBlockIdentity(entity: Entity): string | undefined {
+    if (entity.source?.startsWith('siyuan-')) {
+      if (entity.type === 'tag') return undefined;
+      return entity.type === 'notebook' ? entity.properties?.notebookId : entity.blockId;
+    }
+    return entity.type === 'document' ? entity.properties?.rootId : undefined;
+  }
+
+  private getBlockKey(blockId: string): string {
+    return `block:${blockId}`;
+  }
+
+  /**
+   * 规范实体的匹配键，忽略大小写和首尾空白
+   */
+  private getCanonicalKey(type: string, name: string): string {
+    return `${type}:${name.trim().toLowerCase()}`;
+  }
+}
@@ -5,20 +5,37 @@ export * from "./types"
 export * from "./db/DatabaseManager"
 
 // 文档处理
+export * from "./processor/BlockSplitter"
 export * from "./processor/DocumentProcessor"
+export * from "./processor/Segmenter"
+export * from "./processor/SpanAligner"
+export * from "./processor/TextChunker"
+export * from "./processor/TextNormalizer"
 export * from "./processor/Tokenizer"
 
 // 实体和关系提取
 export * from "./extractor/EntityExtractor"
+export * from "./extractor/KeywordExtractor"
+export * from "./extractor/ModalityDetector"
 export * from "./extractor/RelationExtractor"
+export * from "./extractor/RelationPatterns"
+export * from "./extractor/RelationTypeRegistry"
+export * from "./extractor/SpanArbiter"
+export * from "./extractor/StructureExtractor"
+export * from "./extractor/StructuredExtractors"
+export * from "./extractor/TemporalNormalizer"
 
 // 实体融合
 export * from "./fusion/EntityFusion"
 
+// 关系推理
+export * from "./inference/InferenceEngine"
+
 // 搜索API
 export * from "./search/SearchAPI"
 
 // 工具类
+export * from "./utils/AhoCorasick"
 export * from "./utils/RequestUtil"
 
 /**
@@ -0,0 +1,334 @@
+import { DatabaseManagerAdapter } from "../db/DatabaseManagerAdapter"
+import { RelationTypeRegistry } from "../extractor/RelationTypeRegistry"
+import type { Relationship } from "../types"
+
+/**
+ * 规则中的关系原子，如 works_at(X, O)，参数均为变量
+ */
+export interface RuleAtom {
+  relation: string
+  subject: string
+  object: string
+}
+
+/**
+ * Horn 规则：前提全部成立时推出结论
+ */
+export interface InferenceRule {
+  name: string
+  premises: RuleAtom[]
+  conclusion: RuleAtom
+  confidence: number // 规则置信度，推理关系的置信度为前提置信度之积再乘以它
+}
+
+/**
+ * 推理选项
+ */
+export interface InferenceOptions {
+  maxIterations?: number // 最大推理轮数，每轮推出的关系会作为下一轮的前提
+  minConfidence?: number // 低于该置信度的推理关系被丢弃
+  materializeInverses?: boolean // 是否为有反向的关系生成反向边，默认否，查询时由关系类型注册表反向读取
+}
+
+/**
+ * 推理结果
+ */
+export interface InferenceResult {
+  pruned: number // 因前提被删除而清除的推理关系数
+  inferred: number // 新推出的关系数
+  iterations: number // 实际推理轮数
+}
+
+const DEFAULT_OPTIONS: Required<InferenceOptions> = {
+  maxIterations: 5,
+  minConfidence: 0.3,
+  materializeInverses: false,
+}
+
+/**
+ * 推理关系的来源
+ */
+export const INFERRED_SOURCE = "inferred"
+
+const ATOM_REGEX = /^([\w\u4e00-\u9fff]+)\s*\(\s*(\w+)\s*,\s*(\w+)\s*\)$/
+
+/**
+ * 变量绑定：node 为实体所属的规范实体，用于跨文档匹配；entityId 为首次绑定时前提中的实体，推出的关系连接到它
+ */
+interface Binding {
+  node: string
+  entityId: number
+}
+
+/**
+ * 关系推理引擎
+ * 对已抽取的关系做前向链推理：传递关系的链条、反向关系以及用户定义的 Horn 规则，
+ * 变量按规范实体匹配，不同文档中同一实体的提及可以串联成推理链，
+ * 推出的关系以 inferred 为来源保存，properties 中记录规则和前提关系ID，前提被删除时由数据库一并清除
+ */
+export class InferenceEngine {
+  private dbManager: DatabaseManagerAdapter
+  private registry: RelationTypeRegistry
+  private options: Required<InferenceOptions>
+  private rules: InferenceRule[] = []
+
+  constructor(dbManager: DatabaseManagerAdapter, registry?: RelationTypeRegistry, options: InferenceOptions = {}) {
+    this.dbManager = dbManager
+    this.registry = registry ?? new RelationTypeRegistry()
+    this.options = { ...DEFAULT_OPTIONS, ...options }
+  }
+
+  /**
+   * 添加用户规则
+   * 字符串写法为 [名称:] works_at(X,O) ∧ located_in(O,L) ⇒ based_in(X,L) [@置信度]，
+   * 前提之间可用 ∧、& 或逗号分隔，箭头可写作 =>
+   */
+  addRule(rule: InferenceRule | string): InferenceRule {
+    const parsed = typeof rule === "string" ? this.parseRule(rule) : rule
+    const bound = new Set(parsed.premises.flatMap((atom) => [atom.subject, atom.object]))
+    if (parsed.premises.length === 0) {
+      throw new Error(`Rule "${parsed.name}" has no premises`)
+    }
+    if (!bound.has(parsed.conclusion.subject) || !bound.has(parsed.conclusion.object)) {
+      throw new Error(`Rule "${parsed.name}" has unbound variables in its conclusion`)
+    }
+    this.rules.push(parsed)
+    return parsed
+  }
+
+  /**
+   * 加载规则文本，每行一条，# 开头为注释，无效的规则会被跳过
+   *
+   * @returns 加载的规则数
+   */
+  loadRules(text: string): number {
+    let count = 0
+    text.split(/\r?\n/).forEach((line) => {
+      const trimmed = line.trim()
+      if (!trimmed || trimmed.startsWith("#")) return
+      try {
+        this.addRule(trimmed)
+        count++
+      } catch (error) {
+        console.warn(`Skipping invalid inference rule "${trimmed}":`, error)
+      }
+    })
+    return count
+  }
+
+  clearRules(): void {
+    this.rules = []
+  }
+
+  /**
+   * 获取全部规则：由关系类型注册表生成的传递和反向规则在前，用户规则在后
+   */
+  getRules(): InferenceRule[] {
+    const builtin: InferenceRule[] = []
+    this.registry.getAll().forEach((definition) => {
+      const { name, inverse } = definition
+      if (this.registry.isTransitive(name)) {
+        builtin.push({
+          name: `transitive:${name}`,
+          premises: [
+            { relation: name, subject: "X", object: "Y" },
+            { relation: name, subject: "Y", object: "Z" },
+          ],
+          conclusion: { relation: name, subject: "X", object: "Z" },
+          confidence: 1,
+        })
+      }
+      if (this.options.materializeInverses && inverse && !definition.symmetric) {
+        builtin.push({
+          name: `inverse:${name}`,
+          premises: [{ relation: name, subject: "X", object: "Y" }],
+          conclusion: { relation: inverse, subject: "Y", object: "X" },
+          confidence: 1,
+        })
+      }
+    })
+    return [...builtin, ...this.rules]
+  }
+
+  /**
+   * 清除悬空的推理关系后推理到不动点并保存
+   * 每轮推出的关系保存后才有ID，下一轮以它为前提时才能记录在推理链中
+   */
+  async run(): Promise<InferenceResult> {
+    const result: InferenceResult = { pruned: 0, inferred: 0, iterations: 0 }
+    result.pruned = await this.dbManager.pruneInferredRelationships()
+
+    const entityTypes = new Map<number, string>()
+    ;(await this.dbManager.getEntities()).forEach((entity) => {
+      if (entity.id !== undefined) {
+        entityTypes.set(entity.id, entity.type)
+      }
+    })
+    const canonicalIds = new Map<number, number>()
+    ;(await this.dbManager.getEntityMentions()).forEach((mention) => {
+      canonicalIds.set(mention.entityId, mention.canonicalId)
+    })
+
+    while (result.iterations < this.options.maxIterations) {
+      const relationships = await this.dbManager.getAllRelationships()
+      const inferred = this.infer(relationships, entityTypes, canonicalIds)
+      result.iterations++
+      if (inferred.length === 0) break
+
+      await this.dbManager.saveRelationships(inferred)
+      result.inferred += inferred.length
+    }
+
+    return result
+  }
+
+  /**
+   * 对已保存的关系推理一轮，返回尚不存在的新关系
+   *
+   * @param relationships - 已保存的关系，须带有ID
+   * @param entityTypes - 实体ID到实体类型，用于校验结论的定义域和值域
+   * @param canonicalIds - 实体ID到规范实体ID，未解析到规范实体的实体只与自身匹配
+   */
+  infer(
+    relationships: Relationship[],
+    entityTypes: Map<number, string> = new Map(),
+    canonicalIds: Map<number, number> = new Map()
+  ): Relationship[] {
+    const nodeOf = (entityId: number) => {
+      const canonicalId = canonicalIds.get(entityId)
+      return canonicalId === undefined ? `e${entityId}` : `c${canonicalId}`
+    }
+    const known = new Set(
+      relationships.map((rel) => this.keyOf(nodeOf(rel.sourceEntityId), nodeOf(rel.targetEntityId), rel.type))
+    )
+    // 按关系类型以及关系类型和源规范实体索引，前提的主语已绑定时只查找该实体的出边；否定的关系不作为前提
+    const byRelation = new Map<string, Relationship[]>()
+    relationships.forEach((rel) => {
+      if (rel.id === undefined || rel.properties?.polarity === "negative") return
+      for (const key of [rel.type, `${rel.type}:${nodeOf(rel.sourceEntityId)}`]) {
+        if (!byRelation.has(key)) byRelation.set(key, [])
+        byRelation.get(key)!.push(rel)
+      }
+    })
+
+    const inferred = new Map<string, Relationship>()
+    this.getRules().forEach((rule) => {
+      this.matchPremises(rule.premises, byRelation, nodeOf, new Map(), []).forEach(({ bindings, premises }) => {
+        const subject = bindings.get(rule.conclusion.subject)!
+        const object = bindings.get(rule.conclusion.object)!
+        const source = subject.entityId
+        const target = object.entityId
+        const type = rule.conclusion.relation
+        const key = this.keyOf(subject.node, object.node, type)
+        if (subject.node === object.node || known.has(key)) return
+        if (!this.registry.accepts(type, entityTypes.get(source), entityTypes.get(target))) return
+
+        const confidence = premises.reduce((product, rel) => product * rel.confidence, rule.confidence)
+        if (confidence < this.options.minConfidence) return
+        if ((inferred.get(key)?.confidence ?? 0) >= confidence) return
+
+        inferred.set(key, {
+          sourceEntityId: source,
+          targetEntityId: target,
+          type,
+          docId: premises[0].docId,
+          confidence,
+          source: INFERRED_SOURCE,
+          properties: {
+            rule: rule.name,
+            premises: premises.map((rel) => rel.id),
+            justification: `${premises.map((rel) => this.formatFact(rel)).join(" ∧ ")} ⇒ ${type}(${source}, ${target})`,
+          },
+        })
+      })
+    })
+
+    return Array.from(inferred.values())
+  }
+
+  /**
+   * 依次匹配前提，返回所有变量绑定及对应的前提关系
+   */
+  private matchPremises(
+    atoms: RuleAtom[],
+    byRelation: Map<string, Relationship[]>,
+    nodeOf: (entityId: number) => string,
+    bindings: Map<string, Binding>,
+    premises: Relationship[]
+  ): Array<{ bindings: Map<string, Binding>; premises: Relationship[] }> {
+    if (atoms.length === 0) {
+      return [{ bindings, premises }]
+    }
+
+    const [atom, ...rest] = atoms
+    const subject = bindings.get(atom.subject)
+    const object = bindings.get(atom.object)
+
+    const candidates = byRelation.get(subject === undefined ? atom.relation : `${atom.relation}:${subject.node}`) ?? []
+    return candidates
+      .filter((rel) => object === undefined || nodeOf(rel.targetEntityId) === object.node)
+      .filter((rel) => atom.subject !== atom.object || nodeOf(rel.sourceEntityId) === nodeOf(rel.targetEntityId))
+      .filter((rel) => !premises.includes(rel))
+      .flatMap((rel) => {
+        const next = new Map(bindings)
+        if (!next.has(atom.subject)) {
+          next.set(atom.subject, { node: nodeOf(rel.sourceEntityId), entityId: rel.sourceEntityId })
+        }
+        if (!next.has(atom.object)) {
+          next.set(atom.object, { node: nodeOf(rel.targetEntityId), entityId: rel.targetEntityId })
+        }
+        return this.matchPremises(rest, byRelation, nodeOf, next, [...premises, rel])
+      })
+  }
+
+  /**
+   * 解析规则字符串
+   */
+  private parseRule(text: string): InferenceRule {
+    let body = text.trim()
+    let confidence = 1
+    const confidenceMatch = body.match(/@\s*([\d.]+)\s*$/)
+    if (confidenceMatch) {
+      confidence = parseFloat(confidenceMatch[1])
+      body = body.substring(0, confidenceMatch.index).trim()
+    }
+
+    let name = ""
+    const nameMatch = body.match(/^([\w\u4e00-\u9fff-]+)\s*:(?!\s*[(,])/)
+    if (nameMatch) {
+      name = nameMatch[1]
+      body = body.substring(nameMatch[0].length).trim()
+    }
+
+    const parts = body.split(/⇒|=>/)
+    if (parts.length !== 2) {
+      throw new Error(`Rule "${text}" must contain exactly one "=>"`)
+    }
+
+    // 原子内部的逗号不作为前提分隔符
+    const premises = parts[0]
+      .split(/∧|&|,(?![^(]*\))/)
+      .map((part) => part.trim())
+      .filter((part) => part.length > 0)
+      .map((part) => this.parseAtom(part, text))
+    const conclusion = this.parseAtom(parts[1].trim(), text)
+
+    return { name: name || text.trim(), premises, conclusion, confidence }
+  }
+
+  private parseAtom(text: string, rule: string): RuleAtom {
+    const match = text.match(ATOM_REGEX)
+    if (!match) {
+      throw new Error(`Invalid atom "${text}" in rule "${rule}"`)
+    }
+    return { relation: match[1], subject: match[2], object: match[3] }
+  }
+
+  private formatFact(rel: Relationship): string {
+    return `${rel.type}(${rel.sourceEntityId}, ${rel.targetEntityId})`
+  }
+
+  private keyOf(source: string, target: string, type: string): string {
+    return `${source}-${target}-${type}`
+  }
+}
@@ -0,0 +1,191 @@
+import type { Document, DocumentBlock, Entity, Relationship } from "../types"
+
+/**
+ * 块属性（IAL）独占一行，例如 {: id="20240101120000-abcdefg" updated="..."}
+ * 引述块中的属性行带有 > 前缀
+ */
+const IAL_LINE_REGEX = /^\s*(>\s*)*\{:\s[^}]*\}\s*$/
+
+/**
+ * 行内的块属性，例如列表项 * {: id="..."}文本
+ */
+const IAL_INLINE_REGEX = /\{:\s[^}]*\}/g
+
+/**
+ * 块分割器，将思源 kramdown 按块切分为纯文本，并记录每个块在纯文本中的位置
+ */
+export class BlockSplitter {
+  /**
+   * 切分文档
+   * 文档已带有 blocks 时按 blocks 重新拼接；内容包含块属性时按 kramdown 解析；否则不切分
+   */
+  split(doc: Document): { content: string; blocks: DocumentBlock[] } {
+    if (doc.blocks && doc.blocks.length > 0) {
+      return this.joinBlocks(
+        doc.blocks.map((block) => ({ blockId: block.blockId, type: block.type, text: block.content }))
+      )
+    }
+
+    if (doc.content && /\{:\s[^}]*\bid="/.test(doc.content)) {
+      return this.joinBlocks(this.parseKramdown(doc.content))
+    }
+
+    return { content: doc.content, blocks: [] }
+  }
+
+  /**
+   * 为实体填充所在的块ID
+   */
+  assignEntityBlocks(entities: Entity[], blocks: DocumentBlock[]): Entity[] {
+    if (blocks.length === 0) return entities
+
+    entities.forEach((entity) => {
+      if (!entity.blockId) {
+        entity.blockId = this.findBlock(blocks, entity.startPos)?.blockId
+      }
+    })
+    return entities
+  }
+
+  /**
+   * 为关系填充证据所在的块ID，取源实体所在的块
+   */
+  assignRelationshipBlocks(relationships: Relationship[], entities: Entity[]): Relationship[] {
+    const entityMap = new Map<number, Entity>()
+    entities.forEach((entity) => {
+      if (entity.id !== undefined) {
+        entityMap.set(entity.id, entity)
+      }
+    })
+
+    relationships.forEach((rel) => {
+      if (!rel.blockId) {
+        rel.blockId = entityMap.get(rel.sourceEntityId)?.blockId || entityMap.get(rel.targetEntityId)?.blockId
+      }
+    })
+    return relationships
+  }
+
+  /**
+   * 二分查找位置所在的块
+   */
+  findBlock(blocks: DocumentBlock[], pos: number): DocumentBlock | undefined {
+    let low = 0
+    let high = blocks.length - 1
+
+    while (low <= high) {
+      const mid = (low + high) >> 1
+      const block = blocks[mid]
+      if (pos < block.start) {
+        high = mid - 1
+      } else if (pos >= block.end) {
+        low = mid + 1
+      } else {
+        return block
+      }
+    }
+
+    return undefined
+  }
+
+  /**
+   * 解析 kramdown，块属性行之前的内容属于该块
+   * 属性行之前没有内容的是容器块（列表、引述、超级块等）或文档本身，跳过
+   */
+  private parseKramdown(kramdown: string): Array<{ blockId: string; type: string; text: string }> {
+    const result: Array<{ blockId: string; type: string; text: string }> = []
+    let buffer: string[] = []
+
+    kramdown.split(/\r?\n/).forEach((line) => {
+      if (!IAL_LINE_REGEX.test(line)) {
+        buffer.push(line.replace(IAL_INLINE_REGEX, ""))
+        return
+      }
+
+      const raw = buffer.join("\n").trim()
+      buffer = []
+      const idMatch = /\bid="([^"]+)"/.exec(line)
+      if (!raw || !idMatch) {
+        return
+      }
+
+      result.push({
+        blockId: idMatch[1],
+        type: this.determineBlockType(raw),
+        text: this.stripMarkdown(raw),
+      })
+    })
+
+    return result.filter((block) => block.text.length > 0)
+  }
+
+  /**
+   * 拼接块文本，块之间以换行分隔
+   */
+  private joinBlocks(items: Array<{ blockId: string; type: string; text: string }>): {
+    content: string
+    blocks: DocumentBlock[]
+  } {
+    const blocks: DocumentBlock[] = []
+    let content = ""
+
+    items.forEach((item, index) => {
+      if (index > 0) {
+        content += "\n"
+      }
+      const start = content.length
+      content += item.text
+      blocks.push({
+        blockId: item.blockId,
+        type: item.type,
+        content: item.text,
+        start,
+        end: content.length,
+      })
+    })
+
+    return { content, blocks }
+  }
+
+  /**
+   * 根据 Markdown 标记推断块类型
+   */
+  private determineBlockType(raw: string): string {
+    const line = raw.replace(/^(\s*(>\s*)*)/, "")
+    if (/^#{1,6}\s/.test(line)) return "h"
+    if (/^```/.test(line)) return "c"
+    if (/^\$\$/.test(line)) return "m"
+    if (/^\|/.test(line)) return "t"
+    return "p"
+  }
+
+  /**
+   * 去掉 Markdown 标记，保留纯文本
+   */
+  stripMarkdown(markdown: string): string {
+    return (
+      (markdown ?? "")
+        // 块属性 {: id="..." }
+        .replace(IAL_INLINE_REGEX, "")
+        // 代码块围栏
+        .replace(/^\s*```.*$/gm, "")
+        // 图片
+        .replace(/!\[([^\]]*)\]\([^)]*\)/g, "$1")
+        // 链接
+        .replace(/\[([^\]]*)\]\([^)]*\)/g, "$1")
+        // 块引用 ((id "锚文本")) 或 ((id '锚文本'))
+        .replace(/\(\(\d{14}-[a-z0-9]{7}\s+["']([^"']*)["']\)\)/g, "$1")
+        .replace(/\(\(\d{14}-[a-z0-9]{7}\)\)/g, "")
+        // 标题、引用、列表标记
+        .replace(/^\s*((>\s*)+|#{1,6}\s+|[-*+]\s+|\d+\.\s+)/gm, "")
+        // 任务列表
+        .replace(/^\[[ xX]\]\s+/gm, "")
+        // 强调、删除线、行内代码、标签
+        .replace(/(\*\*|__|~~|`|==)/g, "")
+        // HTML 标签
+        .replace(/<[^>]+>/g, "")
+        .replace(/\n{3,}/g, "\n\n")
+        .trim()
+    )
+  }
+}
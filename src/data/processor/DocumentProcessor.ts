@@ -1,9 +1,30 @@
+import type KernelApi from "../../api/kernel-api"
 import { DatabaseManagerAdapter } from "../db/DatabaseManagerAdapter"
-import { EntityExtractor } from "../extractor/EntityExtractor"
-import { RelationExtractor } from "../extractor/RelationExtractor"
+import { EntityExtractor, GazetteerEntry } from "../extractor/EntityExtractor"
+import { KeywordExtractor, KeywordOptions } from "../extractor/KeywordExtractor"
+import { RelationExtractor, UnresolvedArgument } from "../extractor/RelationExtractor"
+import { StructureExtractor } from "../extractor/StructureExtractor"
+import { STRUCTURED_ENTITY_TYPES } from "../extractor/StructuredExtractors"
+import { EntityFusion } from "../fusion/EntityFusion"
+import { InferenceEngine } from "../inference/InferenceEngine"
 import type { Document, Entity, LLMConfig, Relationship, Token } from "../types"
+import { BlockSplitter } from "./BlockSplitter"
+import { NormalizerOptions } from "./TextNormalizer"
 import { Tokenizer } from "./Tokenizer"
 
+/**
+ * 不加入实体词典的实体类型：结构实体由思源数据决定，数字、时间和结构化实体由正则识别
+ */
+const NON_GAZETTEER_TYPES = new Set([
+  "document",
+  "block",
+  "tag",
+  "notebook",
+  "number",
+  "time",
+  ...STRUCTURED_ENTITY_TYPES.map((item) => item.type),
+])
+
 /**
  * 文档处理器，负责文档的完整处理流程
  */
@@ -11,13 +32,24 @@ export class DocumentProcessor {
   private tokenizer: Tokenizer
   private entityExtractor: EntityExtractor
   private relationExtractor: RelationExtractor
+  private blockSplitter: BlockSplitter
+  private structureExtractor?: StructureExtractor
+  private keywordExtractor: KeywordExtractor
+  private entityFusion: EntityFusion
+  private inferenceEngine: InferenceEngine
   private dbManager: DatabaseManagerAdapter
+  private gazetteerLoaded: boolean
 
   constructor(dbManager: DatabaseManagerAdapter) {
     this.tokenizer = new Tokenizer()
+    this.blockSplitter = new BlockSplitter()
     this.entityExtractor = new EntityExtractor()
     this.relationExtractor = new RelationExtractor()
+    this.keywordExtractor = new KeywordExtractor()
+    this.entityFusion = new EntityFusion(dbManager)
+    this.inferenceEngine = new InferenceEngine(dbManager, this.relationExtractor.getRelationTypeRegistry())
     this.dbManager = dbManager
+    this.gazetteerLoaded = false
   }
 
   /**
@@ -29,23 +61,127 @@ export class DocumentProcessor {
     this.relationExtractor.configureLLM(config)
   }
 
+  /**
+   * 配置思源API，启用块引用、标签和文档层级等结构化信息的抽取
+   */
+  configureSiyuan(api: KernelApi): void {
+    this.relationExtractor.configureSiyuan(api)
+    this.structureExtractor = new StructureExtractor(api)
+  }
+
+  /**
+   * 配置关键词抽取方法和数量
+   */
+  configureKeywords(options: KeywordOptions): void {
+    this.keywordExtractor.configure(options)
+  }
+
+  /**
+   * 按类型启用或停用内置的结构化实体
+   */
+  configureStructuredTypes(enabled: Record<string, boolean>): void {
+    this.entityExtractor.configureStructuredTypes(enabled)
+  }
+
+  /**
+   * 配置文本归一化选项，分词和实体词典匹配共用，需与搜索使用的选项一致
+   * 应在加载词典之前调用，修改后需要重建索引
+   */
+  configureNormalizer(options: NormalizerOptions): void {
+    this.tokenizer.configureNormalizer(options)
+    this.entityExtractor.configureNormalizer(options)
+  }
+
+  /**
+   * 获取分词器，用于加载用户词典和停用词
+   */
+  getTokenizer(): Tokenizer {
+    return this.tokenizer
+  }
+
+  /**
+   * 获取实体抽取器，用于加载实体词典
+   */
+  getEntityExtractor(): EntityExtractor {
+    return this.entityExtractor
+  }
+
+  /**
+   * 获取关系抽取器，用于加载关系模式
+   */
+  getRelationExtractor(): RelationExtractor {
+    return this.relationExtractor
+  }
+
+  /**
+   * 获取关系推理引擎，与关系抽取器共用关系类型注册表
+   */
+  getInferenceEngine(): InferenceEngine {
+    return this.inferenceEngine
+  }
+
+  /**
+   * 将已有的规范实体名称、别名和实体别名加载到实体词典
+   *
+   * @returns 加载的条目数
+   */
+  async loadGazetteer(): Promise<number> {
+    this.gazetteerLoaded = true
+
+    const [canonicals, aliases] = await Promise.all([
+      this.dbManager.getCanonicalEntities(),
+      this.dbManager.getEntityAliases(),
+    ])
+
+    const entries: GazetteerEntry[] = []
+    canonicals.forEach((canonical) => {
+      const names = [canonical.name, ...(canonical.aliases ?? [])]
+      names.forEach((name) => entries.push({ name, type: canonical.type }))
+    })
+    aliases.forEach((alias) => entries.push({ name: alias.alias, type: alias.type }))
+
+    const filtered = entries.filter((entry) => !NON_GAZETTEER_TYPES.has(entry.type))
+    this.entityExtractor.addGazetteerEntries(filtered)
+    return filtered.length
+  }
+
   /**
    * 处理文档
+   * 结果中的 unresolvedArguments 为关系规则捕获到、但没有对应实体的论元，可作为候选实体
    */
   async processDocument(doc: Document): Promise<{
     tokens: Token[]
     entities: Entity[]
     relationships: Relationship[]
+    unresolvedArguments: UnresolvedArgument[]
   }> {
     try {
-      // 1. 存储文档
+      // 首次处理前加载已知的规范实体和别名
+      if (!this.gazetteerLoaded) {
+        await this.loadGazetteer()
+      }
+
+      // 0. 按思源块切分，得到纯文本和块位置
+      const { content, blocks } = this.blockSplitter.split(doc)
+      doc = { ...doc, content, blocks }
+
+      // 1. 存储文档，并清除上一次处理留下的实体、关系和索引
       await this.dbManager.saveDocument(doc)
+      await this.dbManager.purgeDocumentData(doc.docId)
 
-      // 2. 分词处理
+      // 2. 分词处理，并抽取关键词
       const tokens = await this.tokenizeDocument(doc.content, doc.docId)
+      await this.extractKeywords(doc, tokens)
 
-      // 3. 实体提取
-      let entities = await this.extractEntities(doc.content, doc.docId)
+      // 3. 实体提取（复用分词的词性），并记录实体所在的块
+      let entities = await this.extractEntities(doc, tokens)
+      this.blockSplitter.assignEntityBlocks(entities, blocks)
+      // 块引用只查询一次，锚点实体和引用关系共用
+      const refs = await this.queryRefs(doc)
+      // 结构实体放在最后，与引用锚点同名同位置时以结构实体为准
+      entities.push(...(await this.extractRefEntities(doc, refs)))
+      entities.push(...(await this.extractStructureEntities(doc)))
+      await this.attachAttributes(entities, doc.docId)
 
       // 4. 存储实体并重新加载（获取ID）
       if (entities.length > 0) {
@@ -55,16 +191,23 @@ export class DocumentProcessor {
       }
 
       // 5. 关系提取
-      const relationships = await this.extractRelationships(entities, doc.content, doc.docId)
+      const relationships = await this.extractRelationships(entities, doc, tokens, refs)
+
+      // 6. 实体融合，将提及解析到规范实体
+      await this.resolveMentions(entities)
 
-      // 6. 实体融合 - 简化为不执行融合，直接返回实体
       return {
         tokens,
         entities,
         relationships,
+        unresolvedArguments: this.relationExtractor.getUnresolvedArguments(),
       }
     } catch (error) {
       console.error("Error processing document:", error)
+      // 文档在第 1 步已按新的更新时间保存，删除它，使下次同步不会因更新时间未变而跳过
+      await this.dbManager.deleteDocument(doc.docId).catch((e) => {
+        console.error("Failed to discard partially processed document:", e)
+      })
       throw error
     }
   }
@@ -83,12 +226,36 @@ export class DocumentProcessor {
   }
 
   /**
-   * 提取实体
+   * 抽取并保存文档关键词，文档频率取自倒排索引
    */
-  private async extractEntities(content: string, docId: string): Promise<Entity[]> {
+  private async extractKeywords(doc: Document, tokens: Token[]): Promise<void> {
+    try {
+      const terms = Array.from(new Set(tokens.map((token) => token.normalized ?? token.text)))
+      const [docFrequency, docIds] = await Promise.all([
+        this.dbManager.getDocumentFrequencies(terms),
+        this.dbManager.getAllDocumentIds(),
+      ])
+      const keywords = this.keywordExtractor.extract(doc.docId, doc.content, tokens, {
+        docFrequency,
+        totalDocs: docIds.length,
+      })
+      await this.dbManager.saveDocumentKeywords(doc.docId, keywords)
+    } catch (error) {
+      console.error("Error extracting keywords:", error)
+    }
+  }
+
+  /**
+   * 提取实体，相对时间按文档创建时间解析
+   */
+  private async extractEntities(doc: Document, tokens: Token[]): Promise<Entity[]> {
     try {
       // 提取实体
-      const entities = await this.entityExtractor.extract(content, docId)
+      const referenceTime = doc.createdAt ?? doc.updatedAt ?? Date.now()
+      const entities = await this.entityExtractor.extract(doc.content, doc.docId, tokens, {
+        referenceTime,
+        blocks: doc.blocks,
+      })
 
       return entities
     } catch (error) {
@@ -97,13 +264,88 @@ export class DocumentProcessor {
     }
   }
 
+  /**
+   * 查询文档发出的块引用
+   */
+  private async queryRefs(doc: Document): Promise<any[]> {
+    try {
+      return await this.relationExtractor.queryRefs(doc.docId)
+    } catch (error) {
+      console.error("Error querying refs:", error)
+      return []
+    }
+  }
+
+  /**
+   * 提取块引用的锚点实体
+   */
+  private async extractRefEntities(doc: Document, refs: any[]): Promise<Entity[]> {
+    try {
+      return await this.relationExtractor.extractRefEntities(doc.docId, doc.content, { blocks: doc.blocks, refs })
+    } catch (error) {
+      console.error("Error extracting ref entities:", error)
+      return []
+    }
+  }
+
+  /**
+   * 提取标签、文档和笔记本实体
+   */
+  private async extractStructureEntities(doc: Document): Promise<Entity[]> {
+    if (!this.structureExtractor) return []
+
+    try {
+      return await this.structureExtractor.extractEntities(doc.docId, doc.content)
+    } catch (error) {
+      console.error("Error extracting structure entities:", error)
+      return []
+    }
+  }
+
+  /**
+   * 为实体附加所在块的自定义属性
+   */
+  private async attachAttributes(entities: Entity[], docId: string): Promise<void> {
+    if (!this.structureExtractor || entities.length === 0) return
+
+    try {
+      await this.structureExtractor.attachAttributes(entities, docId)
+    } catch (error) {
+      console.error("Error attaching block attributes:", error)
+    }
+  }
+
+  /**
+   * 将实体提及解析到规范实体
+   */
+  private async resolveMentions(entities: Entity[]): Promise<void> {
+    try {
+      await this.entityFusion.resolveMentions(entities)
+    } catch (error) {
+      console.error("Error resolving entity mentions:", error)
+    }
+  }
+
   /**
    * 提取关系
    */
-  private async extractRelationships(entities: Entity[], content: string, docId: string): Promise<Relationship[]> {
+  private async extractRelationships(
+    entities: Entity[],
+    doc: Document,
+    tokens: Token[],
+    refs: any[]
+  ): Promise<Relationship[]> {
     try {
       // 提取关系
-      const relationships = await this.relationExtractor.extract(entities, content, docId)
+      const relationships = await this.relationExtractor.extract(entities, doc.content, doc.docId, {
+        blocks: doc.blocks,
+        tokens,
+        refs,
+      })
+      if (this.structureExtractor) {
+        relationships.push(...this.structureExtractor.extractRelationships(entities, doc.docId))
+      }
+      this.blockSplitter.assignRelationshipBlocks(relationships, entities)
 
       // 存储关系
       if (relationships.length > 0) {
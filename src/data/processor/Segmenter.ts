@@ -0,0 +1,402 @@
+import dictText from "./dict/jieba.dict.txt?raw"
+import hmmText from "./dict/hmm_model.txt?raw"
+
+/**
+ * 词典数据，前缀的词频为 0
+ */
+interface DictData {
+  freq: Map<string, number>
+  tags: Map<string, string>
+  total: number
+  minFreq: number // 最小词频，不在词典中的单字按它计算概率
+}
+
+/**
+ * HMM 模型，状态依次为 B（词首）、E（词尾）、M（词中）、S（单字词）
+ */
+interface HmmModel {
+  start: number[]
+  trans: number[][]
+  emit: Array<Map<string, number>>
+}
+
+const STATE_B = 0
+const STATE_E = 1
+const STATE_M = 2
+const STATE_S = 3
+
+const MIN_FLOAT = -3.14e100
+
+/**
+ * 带词性的分词结果，与 nodejieba.tag 的返回格式一致
+ */
+export interface TaggedWord {
+  word: string
+  tag: string
+}
+
+/**
+ * 分隔符，文本先按分隔符切开，分隔符单独成词
+ */
+const SEPARATORS = new Set([" ", "\t", "\n", "，", "。"])
+
+/**
+ * HMM 切分时连续的字母数字和数字整体成词，其余 ASCII 字符单独成词
+ */
+const RE_LETTERS = /[a-zA-Z][a-zA-Z0-9]*/y
+const RE_NUMBERS = /[0-9][0-9.]*/y
+
+// 内置词典和 HMM 模型体积较大，所有分词器实例共享，首次使用时解析
+let defaultDict: DictData | null = null
+let defaultHmm: HmmModel | null = null
+
+/**
+ * 纯 TypeScript 实现的中文分词器，算法与 nodejieba 使用的 cppjieba MixSegment 一致
+ * 基于前缀词典构建有向无环图，动态规划求最大概率路径，连续的单字交给 HMM 识别未登录词
+ * 不依赖原生模块，可在桌面端、浏览器和移动端使用，切分结果与桌面端的 nodejieba 相同
+ */
+export class Segmenter {
+  private userFreq: Map<string, number>
+  private userTags: Map<string, string>
+  private userTotal: number
+
+  constructor() {
+    this.userFreq = new Map()
+    this.userTags = new Map()
+    this.userTotal = 0
+  }
+
+  /**
+   * 添加词语，未指定词频时使用能保证该词被切出的词频
+   */
+  addWord(word: string, freq?: number, tag?: string): void {
+    const wordFreq = freq ?? this.suggestFreq(word)
+
+    this.userTotal += wordFreq - (this.getFreq(word) ?? 0)
+    this.userFreq.set(word, wordFreq)
+    if (tag) {
+      this.userTags.set(word, tag)
+    }
+
+    // 补齐前缀，已有的前缀保持原词频
+    for (let i = 1; i < word.length; i++) {
+      const prefix = word.substring(0, i)
+      if (this.getFreq(prefix) === undefined) {
+        this.userFreq.set(prefix, 0)
+      }
+    }
+  }
+
+  /**
+   * 获取词语的词性
+   */
+  getTag(word: string): string | undefined {
+    return this.userTags.get(word) ?? this.getDict().tags.get(word)
+  }
+
+  /**
+   * 分词并标注词性
+   * 词典中的词使用词典词性，未登录词按 cppjieba 的规则取 m、eng 或 x
+   *
+   * @param text - 待分词文本
+   * @param hmm - 是否使用 HMM 识别未登录词
+   */
+  tag(text: string, hmm: boolean = true): TaggedWord[] {
+    return this.cut(text, hmm).map((word) => ({ word, tag: this.getTag(word) ?? guessTag(word) }))
+  }
+
+  /**
+   * 分词
+   *
+   * @param text - 待分词文本
+   * @param hmm - 是否使用 HMM 识别未登录词
+   */
+  cut(text: string, hmm: boolean = true): string[] {
+    const words: string[] = []
+
+    let start = 0
+    for (let i = 0; i <= text.length; i++) {
+      if (i < text.length && !SEPARATORS.has(text[i])) continue
+      if (i > start) {
+        words.push(...this.cutSentence(text.substring(start, i), hmm))
+      }
+      if (i < text.length) {
+        words.push(text[i])
+      }
+      start = i + 1
+    }
+
+    return words
+  }
+
+  /**
+   * 按最大概率路径切分，连续的单字（用户添加的单字词除外）合并后交给 HMM 重新切分
+   */
+  private cutSentence(sentence: string, hmm: boolean): string[] {
+    const route = this.calcRoute(sentence)
+    const words: string[] = []
+    let buf = ""
+
+    const flushBuf = () => {
+      if (!buf) return
+      words.push(...this.cutByHmm(buf))
+      buf = ""
+    }
+
+    let x = 0
+    while (x < sentence.length) {
+      const y = route[x][1] + 1
+      const word = sentence.substring(x, y)
+      if (hmm && y - x === 1 && !this.userFreq.get(word)) {
+        buf += word
+      } else {
+        flushBuf()
+        words.push(word)
+      }
+      x = y
+    }
+    flushBuf()
+
+    return words
+  }
+
+  /**
+   * 构建有向无环图并计算最大概率路径
+   * route[i] 为从位置 i 开始的最大对数概率以及对应词的结束位置，概率相同时取较短的词
+   */
+  private calcRoute(sentence: string): Array<[number, number]> {
+    const n = sentence.length
+    const logTotal = Math.log(this.getTotal())
+    const minWeight = Math.log(this.getDict().minFreq) - logTotal
+
+    // 每个位置都可以单字成词
+    const dag: number[][] = []
+    for (let k = 0; k < n; k++) {
+      const ends = [k]
+      for (let i = k + 1; i < n; i++) {
+        const freq = this.getFreq(sentence.substring(k, i + 1))
+        if (freq === undefined) break
+        if (freq > 0) {
+          ends.push(i)
+        }
+      }
+      dag.push(ends)
+    }
+
+    const route: Array<[number, number]> = new Array(n + 1)
+    route[n] = [0, 0]
+    for (let idx = n - 1; idx >= 0; idx--) {
+      let best: [number, number] = [MIN_FLOAT, idx]
+      for (const end of dag[idx]) {
+        const freq = this.getFreq(sentence.substring(idx, end + 1))
+        const prob = (freq ? Math.log(freq) - logTotal : minWeight) + route[end + 1][0]
+        if (prob > best[0]) {
+          best = [prob, end]
+        }
+      }
+      route[idx] = best
+    }
+
+    return route
+  }
+
+  /**
+   * 使用 HMM 切分未登录词，ASCII 字符不参与 HMM
+   */
+  private cutByHmm(sentence: string): string[] {
+    const words: string[] = []
+
+    let left = 0
+    let right = 0
+    while (right < sentence.length) {
+      if (sentence.charCodeAt(right) >= 0x80) {
+        right++
+        continue
+      }
+      if (left !== right) {
+        words.push(...this.viterbi(sentence.substring(left, right)))
+      }
+      const word = matchAscii(sentence, right)
+      words.push(word)
+      right += word.length
+      left = right
+    }
+    if (left !== right) {
+      words.push(...this.viterbi(sentence.substring(left, right)))
+    }
+
+    return words
+  }
+
+  /**
+   * Viterbi 算法求最可能的状态序列，并按状态切分
+   */
+  private viterbi(sentence: string): string[] {
+    const hmm = this.getHmm()
+    const chars = Array.from(sentence)
+    const emit = (state: number, char: string) => hmm.emit[state].get(char) ?? MIN_FLOAT
+    const states = [STATE_B, STATE_E, STATE_M, STATE_S]
+
+    let probs = states.map((state) => hmm.start[state] + emit(state, chars[0]))
+    let paths = states.map((state) => [state])
+
+    for (let t = 1; t < chars.length; t++) {
+      const nextProbs: number[] = []
+      const nextPaths: number[][] = []
+      for (const state of states) {
+        const em = emit(state, chars[t])
+        let bestProb = MIN_FLOAT
+        let bestPrev = STATE_E
+        for (const prev of states) {
+          const prob = probs[prev] + hmm.trans[prev][state] + em
+          if (prob > bestProb) {
+            bestProb = prob
+            bestPrev = prev
+          }
+        }
+        nextProbs.push(bestProb)
+        nextPaths.push([...paths[bestPrev], state])
+      }
+      probs = nextProbs
+      paths = nextPaths
+    }
+
+    // 最后一个字只能是词尾或单字词
+    const path = probs[STATE_E] >= probs[STATE_S] ? paths[STATE_E] : paths[STATE_S]
+
+    // 词尾和单字词之后切开
+    const words: string[] = []
+    let begin = 0
+    chars.forEach((char, i) => {
+      if (path[i] === STATE_E || path[i] === STATE_S) {
+        words.push(chars.slice(begin, i + 1).join(""))
+        begin = i + 1
+      }
+    })
+
+    return words
+  }
+
+  /**
+   * 计算使词语能被整体切出的最小词频
+   */
+  private suggestFreq(word: string): number {
+    const total = this.getTotal()
+    let prob = 1
+    this.cut(word, false).forEach((seg) => {
+      prob *= (this.getFreq(seg) || 1) / total
+    })
+    return Math.max(Math.floor(prob * total) + 1, this.getFreq(word) ?? 1)
+  }
+
+  private getFreq(word: string): number | undefined {
+    return this.userFreq.get(word) ?? this.getDict().freq.get(word)
+  }
+
+  private getTotal(): number {
+    return this.getDict().total + this.userTotal
+  }
+
+  private getDict(): DictData {
+    if (!defaultDict) {
+      defaultDict = parseDict(dictText)
+    }
+    return defaultDict
+  }
+
+  private getHmm(): HmmModel {
+    if (!defaultHmm) {
+      defaultHmm = parseHmm(hmmText)
+    }
+    return defaultHmm
+  }
+}
+
+/**
+ * 匹配 pos 处的连续字母数字或数字，都不匹配时返回单个字符
+ */
+const matchAscii = (text: string, pos: number): string => {
+  for (const regex of [RE_LETTERS, RE_NUMBERS]) {
+    regex.lastIndex = pos
+    const match = regex.exec(text)
+    if (match) return match[0]
+  }
+  return text[pos]
+}
+
+/**
+ * 未登录词的词性，与 cppjieba 一致：只统计前一半的 ASCII 字符，全为数字时为 m，含字母时为 eng，没有 ASCII 字符时为 x
+ */
+const guessTag = (word: string): string => {
+  const chars = Array.from(word)
+  let ascii = 0
+  let digits = 0
+  for (let i = 0; i < chars.length && ascii < Math.floor(chars.length / 2); i++) {
+    if (chars[i].charCodeAt(0) < 0x80) {
+      ascii++
+      if (/[0-9]/.test(chars[i])) digits++
+    }
+  }
+  if (ascii === 0) return "x"
+  return digits === ascii ? "m" : "eng"
+}
+
+/**
+ * 解析 jieba 格式的词典，每行为 词 词频 词性
+ */
+const parseDict = (text: string): DictData => {
+  const freq = new Map<string, number>()
+  const tags = new Map<string, string>()
+  let total = 0
+  let minFreq = Infinity
+
+  text.split(/\r?\n/).forEach((line) => {
+    const [word, freqText, tag] = line.trim().split(/\s+/)
+    if (!word) return
+
+    const wordFreq = Number(freqText) || 0
+    freq.set(word, wordFreq)
+    total += wordFreq
+    if (wordFreq > 0) {
+      minFreq = Math.min(minFreq, wordFreq)
+    }
+    if (tag) {
+      tags.set(word, tag)
+    }
+
+    for (let i = 1; i < word.length; i++) {
+      const prefix = word.substring(0, i)
+      if (!freq.has(prefix)) {
+        freq.set(prefix, 0)
+      }
+    }
+  })
+
+  return { freq, tags, total, minFreq }
+}
+
+/**
+ * 解析 cppjieba 格式的 HMM 模型
+ * 依次为初始概率、4x4 转移概率矩阵和 4 行发射概率，# 开头为注释
+ */
+const parseHmm = (text: string): HmmModel => {
+  const lines = text.split(/\r?\n/).filter((line) => line.trim() && !line.startsWith("#"))
+  const parseRow = (line: string) => line.trim().split(/\s+/).map(Number)
+
+  const emit = lines.slice(5, 9).map((line) => {
+    const probs = new Map<string, number>()
+    line.split(",").forEach((item) => {
+      const sep = item.lastIndexOf(":")
+      if (sep > 0) {
+        probs.set(item.substring(0, sep), Number(item.substring(sep + 1)))
+      }
+    })
+    return probs
+  })
+
+  return {
+    start: parseRow(lines[0]),
+    trans: lines.slice(1, 5).map(parseRow),
+    emit,
+  }
+}
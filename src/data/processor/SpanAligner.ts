@@ -0,0 +1,158 @@
+/**
+ * 待对齐的片段，通常来自大模型返回的结果，位置仅作参考
+ */
+export interface SpanHint {
+  text: string
+  start?: number
+  end?: number
+}
+
+/**
+ * 对齐后的片段
+ */
+export interface AlignedSpan {
+  index: number // 在输入片段中的下标
+  text: string // 原文中的实际文本
+  start: number
+  end: number
+}
+
+/**
+ * 对齐结果
+ */
+export interface AlignResult {
+  spans: AlignedSpan[]
+  unaligned: SpanHint[] // 在原文中找不到的片段
+}
+
+/**
+ * 对齐方式
+ * sequential 按输入顺序依次匹配，适用于覆盖全文的分词结果
+ * all 匹配片段在原文中的所有出现位置，适用于实体等只返回一次的片段
+ */
+export type AlignMode = "sequential" | "all"
+
+/**
+ * 归一化后的文本及每个字符在原文中的位置
+ */
+interface NormalizedText {
+  text: string
+  starts: number[] // 字符所属原文字符的起始位置
+  ends: number[] // 字符所属原文字符的结束位置
+}
+
+/**
+ * 片段对齐器
+ * 大模型返回的起止位置经常不准确，按片段文本在原文中重新定位
+ * 匹配时忽略空白、全角半角和大小写差异
+ */
+export class SpanAligner {
+  /**
+   * 将片段对齐到原文，找不到的片段放入 unaligned
+   *
+   * @param source - 原文
+   * @param hints - 待对齐的片段
+   * @param mode - 对齐方式
+   */
+  align(source: string, hints: SpanHint[], mode: AlignMode = "sequential"): AlignResult {
+    const normalized = this.normalize(source)
+    const result: AlignResult = { spans: [], unaligned: [] }
+    const used = new Set<string>()
+    const occurrenceCache = new Map<string, Array<[number, number]>>()
+    let cursor = 0
+
+    hints.forEach((hint, index) => {
+      const needle = this.normalize(hint?.text ?? "").text
+      if (!needle) {
+        if (hint) result.unaligned.push(hint)
+        return
+      }
+
+      if (!occurrenceCache.has(needle)) {
+        occurrenceCache.set(needle, this.findAll(normalized, needle))
+      }
+      const occurrences = occurrenceCache.get(needle)!
+      if (occurrences.length === 0) {
+        result.unaligned.push(hint)
+        return
+      }
+
+      if (mode === "all") {
+        occurrences.forEach(([start, end]) => {
+          const key = `${start}-${end}`
+          if (used.has(key)) return
+          used.add(key)
+          result.spans.push({ index, text: source.substring(start, end), start, end })
+        })
+        return
+      }
+
+      // 优先取游标之后的第一处，其次取离参考位置最近的未使用位置，都被占用时复用最近的位置
+      const unused = occurrences.filter(([start, end]) => !used.has(`${start}-${end}`))
+      const chosen =
+        unused.find(([start]) => start >= cursor) ??
+        this.nearest(unused.length > 0 ? unused : occurrences, hint.start ?? cursor)
+      const [start, end] = chosen
+      used.add(`${start}-${end}`)
+      cursor = Math.max(cursor, end)
+      result.spans.push({ index, text: source.substring(start, end), start, end })
+    })
+
+    if (result.unaligned.length > 0) {
+      console.warn(
+        `${result.unaligned.length} span(s) could not be aligned:`,
+        result.unaligned.map((hint) => hint?.text)
+      )
+    }
+    return result
+  }
+
+  /**
+   * 查找归一化后的片段在原文中的所有位置
+   */
+  private findAll(normalized: NormalizedText, needle: string): Array<[number, number]> {
+    const occurrences: Array<[number, number]> = []
+    let pos = normalized.text.indexOf(needle)
+
+    while (pos >= 0) {
+      const start = normalized.starts[pos]
+      const end = normalized.ends[pos + needle.length - 1]
+      occurrences.push([start, end])
+      pos = normalized.text.indexOf(needle, pos + 1)
+    }
+
+    return occurrences
+  }
+
+  private nearest(occurrences: Array<[number, number]>, pos: number): [number, number] {
+    return occurrences.reduce((best, item) => (Math.abs(item[0] - pos) < Math.abs(best[0] - pos) ? item : best))
+  }
+
+  /**
+   * 归一化文本：全角转半角（NFKC）、转小写、去掉空白，并记录每个字符对应的原文位置
+   */
+  private normalize(text: string): NormalizedText {
+    let normalized = ""
+    const starts: number[] = []
+    const ends: number[] = []
+
+    for (let i = 0; i < text.length; i++) {
+      // 代理对作为一个字符处理
+      const code = text.charCodeAt(i)
+      const char = code >= 0xd800 && code <= 0xdbff && i + 1 < text.length ? text.substring(i, i + 2) : text[i]
+      const folded = char.normalize("NFKC").toLowerCase()
+
+      for (const c of folded) {
+        if (/\s/.test(c)) continue
+        normalized += c
+        for (let k = 0; k < c.length; k++) {
+          starts.push(i)
+          ends.push(i + char.length)
+        }
+      }
+      i += char.length - 1
+    }
+
+    return { text: normalized, starts, ends }
+  }
+}
@@ -0,0 +1,211 @@
+import type { ChunkOptions, DocumentBlock } from "../types"
+
+/**
+ * 文本块
+ */
+export interface TextChunk {
+  index: number // 块序号
+  text: string
+  start: number // 在原文中的起始位置
+  end: number // 在原文中的结束位置
+}
+
+/**
+ * 分块的最小单元，块边界只落在单元之间
+ */
+interface ChunkUnit {
+  start: number
+  end: number
+  tokens: number
+  heading: boolean // 是否为标题，标题处优先断开
+}
+
+const DEFAULT_OPTIONS: Required<ChunkOptions> = {
+  maxTokens: 2000,
+  overlapTokens: 200,
+  concurrency: 3,
+}
+
+/**
+ * 中日韩文字，每个字大致对应一个令牌
+ */
+const CJK_REGEX = /[\u3040-\u30ff\u3400-\u9fff\uac00-\ud7af\uf900-\ufaff]/g
+
+/**
+ * 句末标点，超出预算的块按句子继续切分
+ */
+const SENTENCE_END_REGEX = /[。！？!?；;\n]+|\.(?=\s)/g
+
+/**
+ * 文本分块器
+ * 长文档整体放进一个提示词会超出大模型的上下文，按思源块和标题边界切分为不超过令牌预算的文本块，
+ * 相邻块之间保留少量重叠，避免跨越边界的实体和关系丢失
+ */
+export class TextChunker {
+  private options: Required<ChunkOptions>
+
+  constructor(options: ChunkOptions = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options }
+  }
+
+  /**
+   * 修改分块选项
+   */
+  configure(options: ChunkOptions): void {
+    this.options = { ...this.options, ...options }
+  }
+
+  getOptions(): Required<ChunkOptions> {
+    return { ...this.options }
+  }
+
+  /**
+   * 估算令牌数，中日韩文字每字一个令牌，其他文字约四个字符一个令牌
+   */
+  estimateTokens(text: string): number {
+    const cjk = text.match(CJK_REGEX)?.length ?? 0
+    const words = text
+      .replace(CJK_REGEX, " ")
+      .split(/\s+/)
+      .reduce((sum, word) => sum + Math.ceil(word.length / 4), 0)
+    return cjk + words
+  }
+
+  /**
+   * 切分文本，未超出预算的文本作为一个块返回
+   *
+   * @param text - 文档纯文本
+   * @param blocks - 思源块及其在纯文本中的位置，缺省时按行切分
+   */
+  chunk(text: string, blocks: DocumentBlock[] = []): TextChunk[] {
+    if (!text) return []
+
+    const { maxTokens, overlapTokens } = this.options
+    if (this.estimateTokens(text) <= maxTokens) {
+      return [{ index: 0, text, start: 0, end: text.length }]
+    }
+
+    const units = this.buildUnits(text, blocks)
+    const chunks: TextChunk[] = []
+    let first = 0
+
+    while (first < units.length) {
+      let last = first
+      let tokens = units[first].tokens
+
+      while (last + 1 < units.length) {
+        const next = units[last + 1]
+        if (tokens + next.tokens > maxTokens) break
+        // 当前块已用去一半预算时，在标题处另起一块
+        if (next.heading && tokens >= maxTokens / 2) break
+        tokens += next.tokens
+        last++
+      }
+
+      const start = units[first].start
+      const end = units[last].end
+      chunks.push({ index: chunks.length, text: text.substring(start, end), start, end })
+      if (last === units.length - 1) break
+
+      // 下一块从当前块末尾的若干单元开始，重叠部分不超过预算，且至少前进一个单元
+      let next = last + 1
+      let overlap = 0
+      while (next - 1 > first && overlap + units[next - 1].tokens <= overlapTokens) {
+        next--
+        overlap += units[next].tokens
+      }
+      first = next
+    }
+
+    return chunks
+  }
+
+  /**
+   * 以有限的并发依次处理文本块，结果顺序与块的顺序一致
+   */
+  async mapChunks<R>(chunks: TextChunk[], handler: (chunk: TextChunk) => Promise<R>): Promise<R[]> {
+    const results: R[] = new Array(chunks.length)
+    let next = 0
+
+    const worker = async () => {
+      while (next < chunks.length) {
+        const index = next++
+        results[index] = await handler(chunks[index])
+      }
+    }
+
+    const workers = Math.max(1, Math.min(this.options.concurrency, chunks.length))
+    await Promise.all(Array.from({ length: workers }, worker))
+    return results
+  }
+
+  /**
+   * 构建分块单元：有思源块时每块一个单元，否则每行一个单元；超出预算的单元按句子切分
+   */
+  private buildUnits(text: string, blocks: DocumentBlock[]): ChunkUnit[] {
+    const ranges: Array<{ start: number; end: number; heading: boolean }> = []
+
+    if (blocks.length > 0) {
+      blocks
+        .filter((block) => block.end > block.start && block.end <= text.length)
+        .sort((a, b) => a.start - b.start)
+        .forEach((block) => ranges.push({ start: block.start, end: block.end, heading: block.type === "h" }))
+    } else {
+      const lineRegex = /[^\n]+/g
+      let match
+      while ((match = lineRegex.exec(text)) !== null) {
+        const end = match.index + match[0].length
+        ranges.push({ start: match.index, end, heading: /^\s*#{1,6}\s/.test(match[0]) })
+      }
+    }
+
+    return ranges.flatMap((range) => this.splitRange(text, range.start, range.end, range.heading))
+  }
+
+  /**
+   * 超出预算的范围先按句子切分，单句仍超出预算时按长度硬切
+   */
+  private splitRange(text: string, start: number, end: number, heading: boolean): ChunkUnit[] {
+    const { maxTokens } = this.options
+    const tokens = this.estimateTokens(text.substring(start, end))
+    if (tokens <= maxTokens) {
+      return [{ start, end, tokens, heading }]
+    }
+
+    const sentences: Array<[number, number]> = []
+    const regex = new RegExp(SENTENCE_END_REGEX)
+    const segment = text.substring(start, end)
+    let cursor = 0
+    let match
+    while ((match = regex.exec(segment)) !== null) {
+      const sentenceEnd = match.index + match[0].length
+      sentences.push([start + cursor, start + sentenceEnd])
+      cursor = sentenceEnd
+    }
+    if (cursor < segment.length) {
+      sentences.push([start + cursor, end])
+    }
+
+    return sentences.flatMap(([sentenceStart, sentenceEnd], index) => {
+      const sentenceTokens = this.estimateTokens(text.substring(sentenceStart, sentenceEnd))
+      const isHeading = heading && index === 0
+      if (sentenceTokens <= maxTokens) {
+        return [{ start: sentenceStart, end: sentenceEnd, tokens: sentenceTokens, heading: isHeading }]
+      }
+
+      const pieces = Math.ceil(sentenceTokens / maxTokens)
+      const size = Math.ceil((sentenceEnd - sentenceStart) / pieces)
+      const units: ChunkUnit[] = []
+      for (let pieceStart = sentenceStart; pieceStart < sentenceEnd; pieceStart += size) {
+        const pieceEnd = Math.min(pieceStart + size, sentenceEnd)
+        units.push({
+          start: pieceStart,
+          end: pieceEnd,
+          tokens: this.estimateTokens(text.substring(pieceStart, pieceEnd)),
+          heading: isHeading && pieceStart === sentenceStart,
+        })
+      }
+      return units
+    })
+  }
+}
@@ -0,0 +1,294 @@
+import t2sText from "./dict/t2s.txt?raw"
+
+/**
+ * 归一化选项，建索引和查询时必须使用相同的选项
+ */
+export interface NormalizerOptions {
+  traditionalToSimplified?: boolean // 繁体转简体，默认开启
+  foldWidth?: boolean // 全角转半角（NFKC），默认开启
+  caseFold?: boolean // 转小写，默认开启
+  stem?: boolean // 英文词干提取（Porter），默认关闭
+}
+
+const DEFAULT_OPTIONS: Required<NormalizerOptions> = {
+  traditionalToSimplified: true,
+  foldWidth: true,
+  caseFold: true,
+  stem: false,
+}
+
+// 繁简对照表所有实例共享，首次使用时解析
+let t2sMap: Map<string, string> | null = null
+
+/**
+ * 文本归一化器
+ * 将繁简、全角半角、大小写和词形不同的写法归为同一个索引词，原文保持不变用于高亮
+ */
+export class TextNormalizer {
+  private options: Required<NormalizerOptions>
+
+  constructor(options: NormalizerOptions = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options }
+  }
+
+  /**
+   * 修改归一化选项，修改后需要重建索引
+   */
+  configure(options: NormalizerOptions): void {
+    this.options = { ...this.options, ...options }
+  }
+
+  getOptions(): Required<NormalizerOptions> {
+    return { ...this.options }
+  }
+
+  /**
+   * 逐字符归一化，不改变文本长度，结果中每个位置与原文一一对应
+   * 用于分词前的预处理，不做词干提取
+   */
+  fold(text: string): string {
+    let result = ""
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i]
+      const folded = this.foldChar(char)
+      result += folded.length === char.length ? folded : char
+    }
+    return result
+  }
+
+  /**
+   * 归一化索引词，结果可能与原文长度不同
+   */
+  normalize(term: string): string {
+    let result = term ?? ""
+    if (this.options.foldWidth) {
+      result = result.normalize("NFKC")
+    }
+    if (this.options.traditionalToSimplified) {
+      result = Array.from(result, (char) => this.getT2sMap().get(char) ?? char).join("")
+    }
+    if (this.options.caseFold) {
+      result = result.toLowerCase()
+    }
+    if (this.options.stem && /^[a-zA-Z]+$/.test(result)) {
+      result = stem(result)
+    }
+    return result
+  }
+
+  private foldChar(char: string): string {
+    let result = char
+    if (this.options.foldWidth) {
+      result = result.normalize("NFKC")
+    }
+    if (this.options.traditionalToSimplified) {
+      result = this.getT2sMap().get(result) ?? result
+    }
+    if (this.options.caseFold) {
+      result = result.toLowerCase()
+    }
+    return result
+  }
+
+  private getT2sMap(): Map<string, string> {
+    if (!t2sMap) {
+      t2sMap = new Map()
+      t2sText.split(/\r?\n/).forEach((line) => {
+        const [traditional, simplified] = line.trim().split(/\s+/)
+        if (traditional && simplified && !traditional.startsWith("#")) {
+          t2sMap!.set(traditional, simplified)
+        }
+      })
+    }
+    return t2sMap
+  }
+}
+
+//================================================================
+// Porter 词干提取
+//================================================================
+
+const isConsonant = (word: string, i: number): boolean => {
+  const c = word[i]
+  if ("aeiou".includes(c)) return false
+  if (c === "y") return i === 0 || !isConsonant(word, i - 1)
+  return true
+}
+
+/**
+ * 词干的度量值 m，即 [C](VC){m}[V] 中 VC 的个数
+ */
+const measure = (word: string): number => {
+  let m = 0
+  let i = 0
+  while (i < word.length && isConsonant(word, i)) i++
+  for (;;) {
+    while (i < word.length && !isConsonant(word, i)) i++
+    if (i >= word.length) return m
+    while (i < word.length && isConsonant(word, i)) i++
+    m++
+    if (i >= word.length) return m
+  }
+}
+
+const hasVowel = (word: string): boolean => {
+  for (let i = 0; i < word.length; i++) {
+    if (!isConsonant(word, i)) return true
+  }
+  return false
+}
+
+const endsWithDoubleConsonant = (word: string): boolean => {
+  const n = word.length
+  return n >= 2 && word[n - 1] === word[n - 2] && isConsonant(word, n - 1)
+}
+
+/**
+ * 以辅音-元音-辅音结尾，且最后的辅音不是 w、x、y
+ */
+const endsWithCvc = (word: string): boolean => {
+  const n = word.length
+  return (
+    n >= 3 &&
+    isConsonant(word, n - 3) &&
+    !isConsonant(word, n - 2) &&
+    isConsonant(word, n - 1) &&
+    !"wxy".includes(word[n - 1])
+  )
+}
+
+/**
+ * 按后缀表替换，只处理第一个匹配的后缀，词干不满足条件时不再尝试其他后缀
+ */
+const replaceSuffix = (word: string, rules: Array<[string, string]>, minMeasure: number): string => {
+  for (const [suffix, replacement] of rules) {
+    if (word.endsWith(suffix)) {
+      const base = word.substring(0, word.length - suffix.length)
+      return measure(base) > minMeasure ? base + replacement : word
+    }
+  }
+  return word
+}
+
+const STEP2_RULES: Array<[string, string]> = [
+  ["ational", "ate"],
+  ["tional", "tion"],
+  ["enci", "ence"],
+  ["anci", "ance"],
+  ["izer", "ize"],
+  ["abli", "able"],
+  ["alli", "al"],
+  ["entli", "ent"],
+  ["eli", "e"],
+  ["ousli", "ous"],
+  ["ization", "ize"],
+  ["ation", "ate"],
+  ["ator", "ate"],
+  ["alism", "al"],
+  ["iveness", "ive"],
+  ["fulness", "ful"],
+  ["ousness", "ous"],
+  ["aliti", "al"],
+  ["iviti", "ive"],
+  ["biliti", "ble"],
+]
+
+const STEP3_RULES: Array<[string, string]> = [
+  ["icate", "ic"],
+  ["ative", ""],
+  ["alize", "al"],
+  ["iciti", "ic"],
+  ["ical", "ic"],
+  ["ful", ""],
+  ["ness", ""],
+]
+
+const STEP4_SUFFIXES = [
+  "ement",
+  "ance",
+  "ence",
+  "able",
+  "ible",
+  "ment",
+  "ant",
+  "ent",
+  "ion",
+  "ism",
+  "ate",
+  "iti",
+  "ous",
+  "ive",
+  "ize",
+  "al",
+  "er",
+  "ic",
+  "ou",
+]
+
+/**
+ * Porter 词干提取算法，输入为小写英文单词
+ */
+const stem = (input: string): string => {
+  let word = input
+  if (word.length <= 2) return word
+
+  // 1a 复数
+  if (word.endsWith("sses") || word.endsWith("ies")) {
+    word = word.substring(0, word.length - 2)
+  } else if (word.endsWith("s") && !word.endsWith("ss")) {
+    word = word.substring(0, word.length - 1)
+  }
+
+  // 1b 过去式和进行时
+  if (word.endsWith("eed")) {
+    if (measure(word.substring(0, word.length - 3)) > 0) {
+      word = word.substring(0, word.length - 1)
+    }
+  } else {
+    const suffix = word.endsWith("ed") ? "ed" : word.endsWith("ing") ? "ing" : ""
+    const base = word.substring(0, word.length - suffix.length)
+    if (suffix && hasVowel(base)) {
+      word = base
+      if (word.endsWith("at") || word.endsWith("bl") || word.endsWith("iz")) {
+        word += "e"
+      } else if (endsWithDoubleConsonant(word) && !"lsz".includes(word[word.length - 1])) {
+        word = word.substring(0, word.length - 1)
+      } else if (measure(word) === 1 && endsWithCvc(word)) {
+        word += "e"
+      }
+    }
+  }
+
+  // 1c 词尾 y 改为 i
+  if (word.endsWith("y") && hasVowel(word.substring(0, word.length - 1))) {
+    word = word.substring(0, word.length - 1) + "i"
+  }
+
+  // 2、3 派生后缀
+  word = replaceSuffix(word, STEP2_RULES, 0)
+  word = replaceSuffix(word, STEP3_RULES, 0)
+
+  // 4 去掉后缀
+  const suffix = STEP4_SUFFIXES.find((s) => word.endsWith(s))
+  if (suffix) {
+    const base = word.substring(0, word.length - suffix.length)
+    const allowed = suffix !== "ion" || base.endsWith("s") || base.endsWith("t")
+    if (allowed && measure(base) > 1) {
+      word = base
+    }
+  }
+
+  // 5 词尾 e 和 ll
+  if (word.endsWith("e")) {
+    const base = word.substring(0, word.length - 1)
+    const m = measure(base)
+    if (m > 1 || (m === 1 && !endsWithCvc(base))) {
+      word = base
+    }
+  }
+  if (word.endsWith("ll") && measure(word) > 1) {
+    word = word.substring(0, word.length - 1)
+  }
+
+  return word
+}
@@ -1,13 +1,31 @@
 import type { Token, LLMConfig } from "../types"
 import { RequestUtil } from "../utils/RequestUtil"
+import { Segmenter, TaggedWord } from "./Segmenter"
+import { SpanAligner } from "./SpanAligner"
+import { NormalizerOptions, TextNormalizer } from "./TextNormalizer"
+import zhStopwordsText from "./dict/stopwords.zh.txt?raw"
+import enStopwordsText from "./dict/stopwords.en.txt?raw"
+
+/**
+ * 自定义词典条目
+ */
+export interface DictEntry {
+  word: string
+  type: string // 词性或实体类型
+  freq?: number // 词频，未指定时使用能保证该词被切出的词频
+}
 
 /**
  * 分词器类，支持中英文分词和停用词过滤
  */
 export class Tokenizer {
   private nodejieba: any
+  private segmenter: Segmenter | null
+  private spanAligner: SpanAligner
+  private normalizer: TextNormalizer
   private stopwords: Set<string>
   private customDict: Map<string, string>
+  private customFreq: Map<string, number>
   private initialized: boolean
   private initPromise: Promise<void> | null
   private llmConfig?: LLMConfig
@@ -16,40 +34,18 @@ export class Tokenizer {
   constructor() {
     // 懒加载nodejieba，只在需要时导入
     this.nodejieba = null
+    this.segmenter = null
+    this.spanAligner = new SpanAligner()
+    this.normalizer = new TextNormalizer()
     this.stopwords = new Set()
     this.customDict = new Map()
+    this.customFreq = new Map()
     this.initialized = false
     this.initPromise = null
 
-    // 同步初始化停用词
-    this.addStopwords([
-      "的",
-      "了",
-      "和",
-      "是",
-      "在",
-      "我",
-      "有",
-      "个",
-      "这",
-      "那",
-      "而",
-      "与",
-      "或",
-      "但",
-      "就",
-      "都",
-      "要",
-      "也",
-      "很",
-      "更",
-      "不",
-      "在",
-      "了",
-      "吧",
-      "啊",
-      "呢",
-    ])
+    // 内置中英文停用词
+    this.loadStopwords(zhStopwordsText)
+    this.loadStopwords(enStopwordsText)
   }
 
   /**
@@ -95,10 +91,18 @@ export class Tokenizer {
             if (this.nodejieba && typeof this.nodejieba.load === "function") {
               this.nodejieba.load()
             }
+            // 补上初始化之前添加的自定义词
+            this.customDict.forEach((type, word) => this.insertJiebaWord(word, type))
           } catch (error) {
-            console.warn("Nodejieba could not be loaded, falling back to regex分词:", error)
+            console.warn("Nodejieba could not be loaded, falling back to built-in segmenter:", error)
           }
         }
+
+        // 浏览器和移动端无法加载原生模块，使用内置的纯 TypeScript 分词器
+        if (!this.nodejieba) {
+          this.segmenter = new Segmenter()
+          this.customDict.forEach((type, word) => this.segmenter!.addWord(word, this.customFreq.get(word), type))
+        }
       } catch (error) {
         console.error("Error during tokenizer initialization:", error)
       } finally {
@@ -112,35 +116,96 @@ export class Tokenizer {
   /**
    * 添加自定义词典
    */
-  addCustomDict(words: Array<{ word: string; type: string }>): void {
+  addCustomDict(words: DictEntry[]): void {
+    // 分词在归一化后的文本上进行，词条也需归一化
+    words = words.map((item) => ({ ...item, word: this.normalizer.fold(item.word) }))
     words.forEach((item) => {
       this.customDict.set(item.word, item.type)
+      if (item.freq !== undefined) {
+        this.customFreq.set(item.word, item.freq)
+      }
     })
 
     // 如果nodejieba已加载，添加到词典
-    if (this.nodejieba && typeof this.nodejieba.addWord === "function") {
-      words.forEach((item) => {
-        this.nodejieba.addWord(item.word)
-      })
+    if (this.nodejieba) {
+      words.forEach((item) => this.insertJiebaWord(item.word, item.type))
+    }
+
+    if (this.segmenter) {
+      words.forEach((item) => this.segmenter!.addWord(item.word, item.freq, item.type))
     }
   }
 
+  /**
+   * 加载 jieba 格式的用户词典，每行为 词 [词频] [词性]，# 开头为注释
+   * 词频和词性均可省略，未指定词性时为 custom
+   *
+   * @param text - 词典文件内容
+   * @returns 加载的词条数
+   */
+  loadUserDict(text: string): number {
+    const entries: DictEntry[] = []
+    const lines = (text ?? "").split(/\r?\n/)
+
+    lines.forEach((line) => {
+      const trimmed = line.trim()
+      if (!trimmed || trimmed.startsWith("#")) return
+
+      const parts = trimmed.split(/\s+/)
+      const entry: DictEntry = { word: parts[0], type: "custom" }
+      // 词频可省略，第二列不是数字时视为词性
+      if (parts.length > 1 && /^\d+$/.test(parts[1])) {
+        entry.freq = Number(parts[1])
+        entry.type = parts[2] || entry.type
+      } else if (parts.length > 1) {
+        entry.type = parts[1]
+      }
+      entries.push(entry)
+    })
+
+    this.addCustomDict(entries)
+    return entries.length
+  }
+
   /**
    * 添加停用词
    */
   addStopwords(words: string[]): void {
-    words.forEach((word) => this.stopwords.add(word))
+    words.forEach((word) => this.stopwords.add(this.normalizer.fold(word).toLowerCase()))
+  }
+
+  /**
+   * 加载停用词文件，每行一个，# 开头为注释
+   *
+   * @param text - 停用词文件内容
+   * @returns 加载的停用词数
+   */
+  loadStopwords(text: string): number {
+    const words = (text ?? "")
+      .split(/\r?\n/)
+      .map((line) => line.trim())
+      .filter((line) => line && !line.startsWith("#"))
+    this.addStopwords(words)
+    return words.length
   }
 
   /**
    * 移除停用词
    */
   removeStopwords(words: string[]): void {
-    words.forEach((word) => this.stopwords.delete(word))
+    words.forEach((word) => this.stopwords.delete(this.normalizer.fold(word).toLowerCase()))
+  }
+
+  /**
+   * 是否为停用词，英文不区分大小写
+   */
+  isStopword(word: string): boolean {
+    return this.stopwords.has(this.normalizer.fold(word.trim()).toLowerCase())
   }
 
   /**
    * 分词主方法
+   * 词元的 text 和位置对应原文，normalized 为归一化后的索引词
    */
   async tokenize(text: string): Promise<Token[]> {
     if (!text || typeof text !== "string") {
@@ -150,39 +215,69 @@ export class Tokenizer {
     // 确保初始化完成
     await this.init()
 
+    let tokens: Token[] | null = null
+
     // 如果配置了大模型，使用大模型分词
     if (this.llmConfig && this.requestUtil) {
       try {
-        const llmTokens = await this.tokenizeByLLM(text)
-        return llmTokens
+        tokens = await this.tokenizeByLLM(text)
       } catch (error) {
         console.warn("LLM tokenization failed, falling back to traditional method:", error)
       }
     }
 
+    // 逐字符归一化不改变长度，分词结果的位置可直接对应原文
+    if (!tokens) {
+      tokens = await this.segment(this.normalizer.fold(text))
+    }
+
+    return tokens.map((token) => {
+      const surface = text.substring(token.start, token.end)
+      return { ...token, text: surface, normalized: this.normalizer.normalize(surface) }
+    })
+  }
+
+  /**
+   * 配置归一化选项，建索引和查询使用的分词器需保持一致
+   */
+  configureNormalizer(options: NormalizerOptions): void {
+    this.normalizer.configure(options)
+  }
+
+  /**
+   * 获取归一化器
+   */
+  getNormalizer(): TextNormalizer {
+    return this.normalizer
+  }
+
+  /**
+   * 对归一化后的文本分词，中文词元的 type 为 jieba 词性（nr、ns、nt、n、v 等）
+   */
+  private async segment(text: string): Promise<Token[]> {
     const tokens: Token[] = []
 
     // 先检查文本中是否包含中文字符
     const hasChinese = /[\u4e00-\u9fa5]/.test(text)
 
-    if (hasChinese && this.nodejieba && typeof this.nodejieba.cut === "function") {
+    if (hasChinese && this.nodejieba && typeof this.nodejieba.tag === "function") {
       try {
-        // 使用nodejieba进行中文分词
-        const jiebaResult = this.nodejieba.cut(text, true) // true表示启用HMM
+        // 使用nodejieba进行中文分词和词性标注
+        const jiebaResult: TaggedWord[] = this.nodejieba.tag(text)
 
         let currentPos = 0
-        jiebaResult.forEach((word: string) => {
+        jiebaResult.forEach(({ word, tag }) => {
           const start = text.indexOf(word, currentPos)
           if (start !== -1) {
             const token: Token = {
               text: word,
               start: start,
               end: start + word.length,
-              type: this.customDict.get(word) || this.determineTokenType(word),
+              type: this.customDict.get(word) || tag,
             }
 
             // 过滤停用词
-            if (!this.stopwords.has(word)) {
+            if (!this.isStopword(word)) {
               tokens.push(token)
             }
 
@@ -195,6 +290,23 @@ export class Tokenizer {
         // 出错时使用备用方法
         return this.fallbackTokenize(text)
       }
+    } else if (hasChinese && this.segmenter) {
+      // 使用内置分词器，结果按顺序覆盖整个文本，可直接累加位置
+      let currentPos = 0
+      this.segmenter.tag(text).forEach(({ word, tag }) => {
+        const start = currentPos
+        currentPos += word.length
+
+        if (word.trim() && !this.isStopword(word)) {
+          tokens.push({
+            text: word,
+            start: start,
+            end: currentPos,
+            type: this.customDict.get(word) || tag,
+          })
+        }
+      })
+      return tokens
     } else {
       // 使用正则表达式进行英文分词（同时处理混合文本）
       // 匹配中英文单词、数字、中文标点和英文标点
@@ -211,7 +323,7 @@ export class Tokenizer {
         }
 
         // 过滤停用词和空字符串
-        if (word.trim() && !this.stopwords.has(word.trim())) {
+        if (word.trim() && !this.isStopword(word)) {
           tokens.push(token)
         }
       }
@@ -257,11 +369,16 @@ export class Tokenizer {
       const content = response.choices?.[0]?.message?.content || ""
       const parsedTokens = JSON.parse(content)
 
-      llmTokens = parsedTokens.map((token: any) => ({
-        text: token.text,
-        start: token.start,
-        end: token.end,
-        type: this.determineTokenType(token.text),
+      // 大模型返回的位置不可靠，按文本重新定位，找不到的词元丢弃
+      const { spans } = this.spanAligner.align(
+        text,
+        parsedTokens.map((token: any) => ({ text: token.text, start: token.start, end: token.end }))
+      )
+      llmTokens = spans.map((span) => ({
+        text: span.text,
+        start: span.start,
+        end: span.end,
+        type: this.determineTokenType(span.text),
         source: "llm",
       }))
     } catch (error) {
@@ -272,7 +389,17 @@ export class Tokenizer {
   }
 
   /**
-   * 确定词元类型
+   * 向 nodejieba 词典插入词语，nodejieba 不支持指定词频
+   */
+  private insertJiebaWord(word: string, tag?: string): void {
+    if (this.nodejieba && typeof this.nodejieba.insertWord === "function") {
+      this.nodejieba.insertWord(word, tag)
+    }
+  }
+
+  /**
+   * 确定词元词性，用于没有经过词典标注的词元
+   * 与 jieba 一致：数字为 m，英文为 eng，其余为 x
    */
   private determineTokenType(word: string): string {
     // 检查是否在自定义词典中
@@ -282,26 +409,15 @@ export class Tokenizer {
 
     // 数字
     if (/^\d+(\.\d+)?$/.test(word)) {
-      return "number"
+      return "m"
     }
 
     // 英文单词
     if (/^[a-zA-Z]+$/.test(word)) {
-      return "english"
-    }
-
-    // 中文字符
-    if (/^[\u4e00-\u9fa5]+$/.test(word)) {
-      return "chinese"
-    }
-
-    // 标点符号
-    if (/^[^\w\s\u4e00-\u9fa5]+$/.test(word)) {
-      return "punctuation"
+      return "eng"
     }
 
-    // 混合
-    return "mixed"
+    return "x"
   }
 
   /**
@@ -320,12 +436,12 @@ export class Tokenizer {
     let currentPos = 0
     chineseChars.forEach((char) => {
       const start = text.indexOf(char, currentPos)
-      if (start !== -1 && !this.stopwords.has(char)) {
+      if (start !== -1 && !this.isStopword(char)) {
         tokens.push({
           text: char,
           start,
           end: start + 1,
-          type: "unknown",
+          type: "x",
         })
         currentPos = start + 1
       }
@@ -335,7 +451,7 @@ export class Tokenizer {
     currentPos = 0
     englishWords.forEach((word) => {
       const start = text.indexOf(word, currentPos)
-      if (start !== -1 && !this.stopwords.has(word.toLowerCase())) {
+      if (start !== -1 && !this.isStopword(word)) {
         tokens.push({
           text: word,
           start,
@@ -355,7 +471,7 @@ export class Tokenizer {
           text: num,
           start,
           end: start + num.length,
-          type: "number",
+          type: "m",
         })
         currentPos = start + num.length
       }
@@ -1,6 +1,17 @@
 import { DatabaseManagerAdapter } from "../db/DatabaseManagerAdapter"
+import { RelationTypeRegistry } from "../extractor/RelationTypeRegistry"
+import { NormalizerOptions } from "../processor/TextNormalizer"
 import { Tokenizer } from "../processor/Tokenizer"
-import type { Document, Entity, NetworkGraph, Relationship, SearchOptions, SearchResult } from "../types"
+import type {
+  Document,
+  Entity,
+  KeywordFacet,
+  NetworkGraph,
+  Relationship,
+  SearchOptions,
+  SearchResult,
+  Token,
+} from "../types"
 
 /**
  * 搜索API类，提供全文搜索和实体搜索功能
@@ -8,10 +19,26 @@ import type { Document, Entity, NetworkGraph, Relationship, SearchOptions, Searc
 export class SearchAPI {
   private dbManager: DatabaseManagerAdapter
   private tokenizer: Tokenizer
+  private registry: RelationTypeRegistry
 
-  constructor(dbManager: DatabaseManagerAdapter) {
+  constructor(dbManager: DatabaseManagerAdapter, registry?: RelationTypeRegistry) {
     this.dbManager = dbManager
     this.tokenizer = new Tokenizer()
+    this.registry = registry ?? new RelationTypeRegistry()
+  }
+
+  /**
+   * 配置查询的归一化选项，应与文档处理使用相同的选项
+   */
+  configureNormalizer(options: NormalizerOptions): void {
+    this.tokenizer.configureNormalizer(options)
+  }
+
+  /**
+   * 获取查询分词器，应与文档处理使用相同的词典
+   */
+  getTokenizer(): Tokenizer {
+    return this.tokenizer
   }
 
   /**
@@ -37,7 +64,7 @@ export class SearchAPI {
       // 获取文档详情
       const results: SearchResult<Document>[] = []
 
-      for (const { docId, score, highlights } of docScores) {
+      for (const { docId, score, highlights, positions } of docScores) {
         try {
           const doc = await this.dbManager.getDocument(docId)
           if (doc) {
@@ -45,7 +72,7 @@ export class SearchAPI {
               item: doc,
               score,
               highlights,
-              matchPositions: [], // 可以扩展实现
+              matchPositions: positions,
             })
           }
         } catch (error) {
@@ -76,16 +103,22 @@ export class SearchAPI {
         ...options,
       } as SearchOptions
 
-      // 搜索实体
-      const entities = await this.dbManager.getEntities(query, "")
-
-      // 转换为搜索结果格式
-      const results: SearchResult<Entity>[] = entities.map((entity) => ({
-        item: entity,
-        score: 1.0,
-        highlights: [entity.name],
-        matchPositions: [],
-      }))
+      // 搜索实体，名称按与索引相同的规则归一化后匹配
+      const normalizer = this.tokenizer.getNormalizer()
+      const normalizedQuery = normalizer.normalize(query.trim())
+      const entities = (await this.dbManager.getEntities()).filter((entity) =>
+        normalizer.normalize(entity.name).includes(normalizedQuery)
+      )
+
+      // 转换为搜索结果格式，完全匹配的排在前面
+      const results: SearchResult<Entity>[] = entities
+        .map((entity) => ({
+          item: entity,
+          score: normalizer.normalize(entity.name) === normalizedQuery ? 1.0 : 0.5,
+          highlights: [entity.name],
+          matchPositions: [entity.startPos],
+        }))
+        .sort((a, b) => b.score - a.score)
       // 排序和分页
       return this.sortAndPaginate(results, searchOptions)
     } catch (error) {
@@ -123,37 +156,50 @@ export class SearchAPI {
 
   /**
    * 计算文档相关性分数
+   * 查询词按归一化后的索引词匹配，高亮返回文档中的原始写法
    */
   private async calculateDocumentRelevance(
-    queryTokens: any[],
+    queryTokens: Token[],
     options: SearchOptions
-  ): Promise<Array<{ docId: string; score: number; highlights: string[] }>> {
+  ): Promise<Array<{ docId: string; score: number; highlights: string[]; positions: number[] }>> {
     try {
+      const terms = Array.from(new Set(queryTokens.map((token) => token.normalized ?? token.text)))
+      const entries = await this.dbManager.getIndexEntries(terms)
+      if (entries.length === 0) {
+        return []
+      }
+
+      // 文档频率
+      const totalDocs = (await this.dbManager.getAllDocumentIds()).length
+      const docFrequency = new Map<string, number>()
+      entries.forEach((entry) => {
+        docFrequency.set(entry.term, (docFrequency.get(entry.term) || 0) + 1)
+      })
+
       // 文档分数映射
-      const docScoreMap = new Map<string, { score: number; highlights: Set<string> }>()
+      const docScoreMap = new Map<string, { score: number; highlights: Set<string>; positions: number[] }>()
 
       // 计算查询词在文档中的TF-IDF
-      for (const token of queryTokens) {
-        try {
-          // 获取包含该词的倒排索引
-          // 注意：这里需要根据具体的数据库实现调整
-          console.warn("倒排索引功能需要进一步实现")
-
-          // 暂时返回空数组
-          return []
-        } catch (error) {
-          console.error(`Error processing token ${token.text}:`, error)
-        }
-      }
+      entries.forEach((entry) => {
+        const token: Token = { text: entry.term, start: 0, end: 0, weight: entry.frequency }
+        const score = this.tokenizer.calculateTFIDF(token, docFrequency.get(entry.term) || 0, totalDocs)
+
+        const docScore = docScoreMap.get(entry.docId) ?? { score: 0, highlights: new Set<string>(), positions: [] }
+        docScore.score += score
+        entry.surfaces.forEach((surface) => docScore.highlights.add(surface))
+        docScore.positions.push(...entry.positions)
+        docScoreMap.set(entry.docId, docScore)
+      })
 
       // 转换为数组并计算最终分数
-      const results: Array<{ docId: string; score: number; highlights: string[] }> = []
+      const results: Array<{ docId: string; score: number; highlights: string[]; positions: number[] }> = []
 
       docScoreMap.forEach((value, docId) => {
         results.push({
           docId,
           score: value.score,
           highlights: Array.from(value.highlights),
+          positions: value.positions.sort((a, b) => a - b),
         })
       })
 
@@ -195,19 +241,22 @@ export class SearchAPI {
     //     break
     // }
 
-    // 分页
-    const { limit, offset } = options
+    // 分页，未指定时返回全部
+    const { limit = sortedResults.length, offset = 0 } = options
     return sortedResults.slice(offset, offset + limit)
   }
 
   /**
    * 获取实体的知识图谱
+   * 从实体出发按广度优先展开到指定深度，出边总是展开；入边在 includeReverse 时展开，
+   * 对称关系和有反向关系的入边可以反向读取，始终展开；否定的关系默认不展示
    */
   async getEntityGraph(
     entityId: string,
     options: {
       depth?: number
       includeReverse?: boolean
+      includeNegated?: boolean
     } = {}
   ): Promise<NetworkGraph> {
     try {
@@ -215,22 +264,78 @@ export class SearchAPI {
       const graphOptions = {
         depth: 2,
         includeReverse: true,
+        includeNegated: false,
         ...options,
       }
 
+      const entities = await this.dbManager.getEntities()
+      const entityMap = new Map<number, Entity>()
+      entities.forEach((entity) => {
+        if (entity.id !== undefined) {
+          entityMap.set(entity.id, entity)
+        }
+      })
+
+      const rootId = Number(entityId)
+      if (!entityMap.has(rootId)) {
+        return { nodes: [], edges: [] }
+      }
+
+      // 按实体索引出边和入边
+      const outgoing = new Map<number, Relationship[]>()
+      const incoming = new Map<number, Relationship[]>()
+      const relationships = await this.dbManager.getAllRelationships()
+      relationships.forEach((rel) => {
+        if (!graphOptions.includeNegated && rel.properties?.polarity === "negative") return
+        if (!outgoing.has(rel.sourceEntityId)) outgoing.set(rel.sourceEntityId, [])
+        outgoing.get(rel.sourceEntityId)!.push(rel)
+        if (!incoming.has(rel.targetEntityId)) incoming.set(rel.targetEntityId, [])
+        incoming.get(rel.targetEntityId)!.push(rel)
+      })
+
       // 实体节点和关系边
-      const nodes = new Map<string, Entity>()
+      const nodes = new Map<number, Entity>([[rootId, entityMap.get(rootId)!]])
       const edges = new Map<string, Relationship>()
+      let frontier = [rootId]
+
+      for (let depth = 0; depth < graphOptions.depth && frontier.length > 0; depth++) {
+        const nextFrontier: number[] = []
+        const visit = (rel: Relationship, neighborId: number) => {
+          const neighbor = entityMap.get(neighborId)
+          if (!neighbor) return
+          edges.set(`${rel.sourceEntityId}-${rel.targetEntityId}-${rel.type}`, rel)
+          if (!nodes.has(neighborId)) {
+            nodes.set(neighborId, neighbor)
+            nextFrontier.push(neighborId)
+          }
+        }
 
-      // 递归获取关系
-      await this.fetchEntityRelations(entityId, 0, graphOptions, nodes, edges, new Set())
+        frontier.forEach((id) => {
+          outgoing.get(id)?.forEach((rel) => visit(rel, rel.targetEntityId))
+          incoming
+            .get(id)
+            ?.filter((rel) => graphOptions.includeReverse || this.isReadableInReverse(rel))
+            .forEach((rel) => visit(rel, rel.sourceEntityId))
+        })
+        frontier = nextFrontier
+      }
 
-      // 构建图数据结构
-      // return {
-      //   nodes: Array.from(nodes.values()),
-      //   edges: Array.from(edges.values()),
-      // }
-      return {} as any
+      return {
+        nodes: Array.from(nodes.entries()).map(([id, entity]) => ({
+          id,
+          name: entity.name,
+          type: entity.type,
+          docId: entity.docId,
+          blockId: entity.blockId,
+          properties: entity.properties,
+        })),
+        edges: Array.from(edges.values()).map((rel) => ({
+          source: rel.sourceEntityId,
+          target: rel.targetEntityId,
+          type: rel.type,
+          confidence: rel.confidence,
+        })),
+      }
     } catch (error) {
       console.error(`Error getting entity graph for ${entityId}:`, error)
       return { nodes: [], edges: [] }
@@ -238,32 +343,10 @@ export class SearchAPI {
   }
 
   /**
-   * 递归获取实体关系
+   * 关系能否从目标实体反向读取：对称关系、已登记反向的关系或模式中声明了反向名的关系
    */
-  private async fetchEntityRelations(
-    entityId: string,
-    currentDepth: number,
-    options: { depth: number; includeReverse: boolean },
-    nodes: Map<string, Entity>,
-    edges: Map<string, Relationship>,
-    visited: Set<string>
-  ): Promise<void> {
-    // 如果达到最大深度或已访问，停止递归
-    if (currentDepth > options.depth || visited.has(entityId)) {
-      return
-    }
-
-    visited.add(entityId)
-
-    try {
-      // 获取实体信息
-      // 注意：这里需要根据具体的数据库实现调整
-      console.warn("实体关系获取功能需要进一步实现")
-
-      // 暂时不执行任何操作
-    } catch (error) {
-      console.error(`Error fetching entity relations for ${entityId}:`, error)
-    }
+  private isReadableInReverse(rel: Relationship): boolean {
+    return this.registry.getInverse(rel.type) !== undefined || Boolean(rel.properties?.inverse)
   }
 
   /**
@@ -315,34 +398,78 @@ export class SearchAPI {
 
   /**
    * 高级搜索（支持复合条件）
+   * 日期范围默认按文档创建时间过滤，field 为 mention 时按正文中时间实体规范化后的日期过滤
    */
   async advancedSearch(
     query: {
       text?: string
       entityTypes?: string[]
-      dateRange?: { from?: number; to?: number }
+      dateRange?: { from?: number; to?: number; field?: "document" | "mention" } // mention 按正文提到的日期过滤
       tags?: string[]
+      keywords?: string[]
+      properties?: Record<string, string | number | boolean>
     },
     options: SearchOptions = {}
   ): Promise<SearchResult<Document>[]> {
     try {
       // 基础文本搜索
       let results: SearchResult<Document>[] = []
+      const mentionDocIds =
+        query.dateRange?.field === "mention" ? await this.findDocsByMentionDate(query.dateRange) : undefined
 
       if (query.text) {
         results = await this.searchDocuments(query.text, options)
+      } else if (query.properties) {
+        // 只有属性条件时，从匹配的实体反查文档
+        const docIds = new Set((await this.findEntitiesByProperties(query.properties)).map((e) => e.docId))
+        for (const docId of docIds) {
+          const doc = await this.dbManager.getDocument(docId)
+          if (doc) {
+            results.push({ item: doc, score: 1.0, highlights: [], matchPositions: [] })
+          }
+        }
+      } else if (mentionDocIds) {
+        // 只有提及日期条件时，从匹配的时间实体反查文档
+        for (const docId of mentionDocIds) {
+          const doc = await this.dbManager.getDocument(docId)
+          if (doc) {
+            results.push({ item: doc, score: 1.0, highlights: [], matchPositions: [] })
+          }
+        }
       } else {
         // 如果没有文本查询，获取所有文档
         // 注意：这里简化处理，实际应该通过DatabaseManager的适当方法获取
         results = []
       }
 
+      // 属性过滤：文档中至少有一个实体满足全部属性条件
+      if (query.properties && query.text) {
+        const docIds = new Set((await this.findEntitiesByProperties(query.properties)).map((e) => e.docId))
+        results = results.filter((result) => docIds.has(result.item.docId))
+      }
+
+      // 关键词过滤：文档须包含全部选中的关键词
+      if (query.keywords && query.keywords.length > 0) {
+        const normalizer = this.tokenizer.getNormalizer()
+        const wanted = query.keywords.map((keyword) => normalizer.normalize(keyword))
+        const keywords = await this.dbManager.getDocumentKeywords()
+        const docTerms = new Map<string, Set<string>>()
+        keywords.forEach((keyword) => {
+          const terms = docTerms.get(keyword.docId) ?? new Set<string>()
+          terms.add(keyword.term)
+          docTerms.set(keyword.docId, terms)
+        })
+        results = results.filter((result) => wanted.every((term) => docTerms.get(result.item.docId)?.has(term)))
+      }
+
       // 应用过滤条件
       results = results.filter((result) => {
         const doc = result.item
 
         // 日期范围过滤
-        if (query.dateRange) {
+        if (mentionDocIds) {
+          if (!mentionDocIds.has(doc.docId)) return false
+        } else if (query.dateRange) {
           const { from, to } = query.dateRange
           if (from && (doc.createdAt || 0) < from) return false
           if (to && (doc.createdAt || 0) > to) return false
@@ -365,4 +492,72 @@ export class SearchAPI {
       return []
     }
   }
+
+  /**
+   * 统计搜索结果中的关键词分面
+   *
+   * @param docIds - 参与统计的文档，缺省时统计全部文档
+   * @param limit - 返回的分面数
+   */
+  async getKeywordFacets(docIds?: string[], limit: number = 20): Promise<KeywordFacet[]> {
+    try {
+      const scope = docIds ? new Set(docIds) : undefined
+      const facets = new Map<string, KeywordFacet>()
+
+      for (const keyword of await this.dbManager.getDocumentKeywords()) {
+        if (scope && !scope.has(keyword.docId)) continue
+        const facet = facets.get(keyword.term) ?? { term: keyword.term, text: keyword.text, count: 0 }
+        facet.count++
+        facets.set(keyword.term, facet)
+      }
+
+      return Array.from(facets.values())
+        .sort((a, b) => b.count - a.count)
+        .slice(0, limit)
+    } catch (error) {
+      console.error("Error in getKeywordFacets:", error)
+      return []
+    }
+  }
+
+  /**
+   * 查找提及日期与范围相交的文档
+   * 时间实体的 start、end 为本地日期，按整天与范围比较
+   */
+  private async findDocsByMentionDate(range: { from?: number; to?: number }): Promise<Set<string>> {
+    const entities = await this.dbManager.getEntities()
+    const docIds = new Set<string>()
+
+    entities.forEach((entity) => {
+      const start = entity.properties?.start
+      const end = entity.properties?.end
+      if (typeof start !== "string" || typeof end !== "string") return
+
+      const startTime = new Date(`${start}T00:00:00`).getTime()
+      const endTime = new Date(`${end}T23:59:59.999`).getTime()
+      if (Number.isNaN(startTime) || Number.isNaN(endTime)) return
+      if (range.from && endTime < range.from) return
+      if (range.to && startTime > range.to) return
+      docIds.add(entity.docId)
+    })
+
+    return docIds
+  }
+
+  /**
+   * 查找属性满足全部条件的实体，字符串比较不区分大小写
+   */
+  private async findEntitiesByProperties(properties: Record<string, string | number | boolean>): Promise<Entity[]> {
+    const entities = await this.dbManager.getEntities()
+    return entities.filter((entity) =>
+      Object.entries(properties).every(([key, expected]) => {
+        const actual = entity.properties?.[key]
+        if (actual === undefined || actual === null) return false
+        if (typeof expected === "string") {
+          return String(actual).toLowerCase() === expected.toLowerCase()
+        }
+        return actual === expected
+      })
+    )
+  }
 }
@@ -9,6 +9,16 @@ export interface Document {
   content: string
   createdAt?: number
   updatedAt?: number
+  blocks?: DocumentBlock[] // 文档按思源块切分后的结果（可选）
+}
+
+// 文档块类型
+export interface DocumentBlock {
+  blockId: string // 思源块ID
+  type: string // 块类型（如'p'段落, 'h'标题, 'c'代码块）
+  content: string // 块的纯文本
+  start: number // 在文档纯文本中的起始位置
+  end: number // 在文档纯文本中的结束位置
 }
 
 // 分词结果类型
@@ -18,6 +28,24 @@ export interface Token {
   end: number // 在原文本中的结束位置
   type?: string // 词类型（可选）
   weight?: number // 权重（可选）
+  normalized?: string // 归一化后的索引词（可选）
+}
+
+// 倒排索引条目类型
+export interface IndexEntry {
+  term: string // 归一化后的索引词
+  docId: string // 文档ID
+  frequency: number // 词频
+  positions: number[] // 在文档中的起始位置
+  surfaces: string[] // 文档中的原始写法，用于高亮
+}
+
+// 文档关键词类型
+export interface DocumentKeyword {
+  docId: string // 文档ID
+  term: string // 归一化后的关键词或短语
+  text: string // 文档中的原始写法
+  score: number // 关键词分数
 }
 
 // 实体类型
@@ -28,11 +56,32 @@ export interface Entity {
   docId: string // 所属文档ID
   startPos: number // 在文档中的起始位置
   endPos: number // 在文档中的结束位置
+  blockId?: string // 所在的思源块ID
   properties?: Record<string, any> // 额外属性
   source?: string // 实体来源（如'rule', 'dict', 'llm'）
   confidence?: number // 置信度
 }
 
+// 规范实体类型，同一实体在各文档中的提及都指向它
+export interface CanonicalEntity {
+  id?: number // 规范实体ID
+  name: string // 规范名称
+  type: string // 实体类型
+  blockId?: string // 思源块ID，文档、块引用等对应思源块的实体按块区分，不按名称合并
+  aliases?: string[] // 别名
+  description?: string // 描述
+  createdAt?: number // 创建时间
+  updatedAt?: number // 更新时间
+}
+
+// 实体提及类型，将文档中的一次提及（Entity）关联到规范实体
+export interface EntityMention {
+  id?: number // 提及ID
+  canonicalId: number // 规范实体ID
+  entityId: number // 提及对应的实体ID
+  docId: string // 所属文档ID
+}
+
 // 关系类型
 export interface Relationship {
   id?: number // 关系ID
@@ -40,12 +89,20 @@ export interface Relationship {
   targetEntityId: number // 目标实体ID
   type: string // 关系类型
   docId: string // 所属文档ID
+  blockId?: string // 证据所在的思源块ID
   confidence: number // 置信度
   properties?: Record<string, any> // 额外属性
   source?: string // 关系来源（如'rule', 'cooccur', 'llm'）
   evidenceText?: string // 支持该关系的文本证据
 }
 
+// 实体别名类型
+export interface EntityAlias {
+  entityId: number // 实体ID
+  alias: string // 别名
+  type: string // 实体类型
+}
+
 // 相似实体类型
 export interface SimilarEntity {
   entityId: number
@@ -54,6 +111,13 @@ export interface SimilarEntity {
   type: string
 }
 
+// 长文本分块选项
+export interface ChunkOptions {
+  maxTokens?: number // 每块的令牌预算
+  overlapTokens?: number // 相邻块重叠部分的令牌数
+  concurrency?: number // 同时请求大模型的块数
+}
+
 // 大模型配置类型
 export interface LLMConfig {
   apiKey?: string
@@ -63,6 +127,7 @@ export interface LLMConfig {
   promptTemplate?: string
   headers?: Record<string, string>
   filters?: Array<(url: string, options: RequestInit) => void>
+  chunk?: ChunkOptions // 长文本分块抽取选项
 }
 
 // 搜索选项类型
@@ -80,12 +145,23 @@ export interface SearchResult<T = any> {
   highlights: string[]
   matchPositions: number[]
 }
+
+// 关键词分面，按包含该关键词的文档数统计
+export interface KeywordFacet {
+  term: string
+  text: string
+  count: number
+}
 // 网络图类型
 export interface NetworkGraph {
   nodes: Array<{
     id: number
     name: string
     type: string
+    docId?: string
+    blockId?: string
+    properties?: Record<string, any>
+    mentionCount?: number
   }>
   edges: Array<{
     source: number
@@ -0,0 +1,155 @@
+/**
+ * 匹配结果
+ */
+export interface AhoCorasickMatch<T> {
+  start: number
+  end: number
+  value: T
+}
+
+/**
+ * 自动机节点
+ */
+interface AcNode {
+  next: Map<string, number>
+  fail: number
+  output: number // 以该节点结尾的模式串下标，-1 表示没有
+  outputLink: number // 沿失败链最近的带输出节点，-1 表示没有
+  length: number // 从根到该节点的字符串长度（UTF-16）
+}
+
+/**
+ * Aho-Corasick 多模式匹配自动机
+ * 构建后对任意文本的一次扫描即可找出所有模式串的出现位置，耗时与文本长度和匹配数成正比
+ */
+export class AhoCorasick<T> {
+  private nodes: AcNode[]
+  private values: T[]
+  private built: boolean
+
+  constructor() {
+    this.nodes = [this.createNode(0)]
+    this.values = []
+    this.built = true
+  }
+
+  /**
+   * 模式串数量
+   */
+  get size(): number {
+    return this.values.length
+  }
+
+  /**
+   * 添加模式串，同一模式串再次添加时覆盖原来的值
+   */
+  add(pattern: string, value: T): void {
+    if (!pattern) return
+
+    let current = 0
+    for (const char of pattern) {
+      let child = this.nodes[current].next.get(char)
+      if (child === undefined) {
+        child = this.nodes.length
+        this.nodes.push(this.createNode(this.nodes[current].length + char.length))
+        this.nodes[current].next.set(char, child)
+      }
+      current = child
+    }
+
+    const node = this.nodes[current]
+    if (node.output >= 0) {
+      this.values[node.output] = value
+    } else {
+      node.output = this.values.length
+      this.values.push(value)
+    }
+    this.built = false
+  }
+
+  /**
+   * 查找文本中所有模式串的出现位置，位置为 UTF-16 下标
+   */
+  search(text: string): AhoCorasickMatch<T>[] {
+    this.build()
+
+    const matches: AhoCorasickMatch<T>[] = []
+    let state = 0
+    let pos = 0
+
+    for (const char of text) {
+      pos += char.length
+      while (state > 0 && !this.nodes[state].next.has(char)) {
+        state = this.nodes[state].fail
+      }
+      state = this.nodes[state].next.get(char) ?? 0
+
+      let hit = this.nodes[state].output >= 0 ? state : this.nodes[state].outputLink
+      while (hit >= 0) {
+        const node = this.nodes[hit]
+        matches.push({ start: pos - node.length, end: pos, value: this.values[node.output] })
+        hit = node.outputLink
+      }
+    }
+
+    return matches
+  }
+
+  /**
+   * 按最左最长原则选出互不重叠的匹配
+   *
+   * @param text - 文本
+   * @param accept - 过滤条件，未通过的匹配不参与选择
+   */
+  searchLeftmostLongest(text: string, accept?: (match: AhoCorasickMatch<T>) => boolean): AhoCorasickMatch<T>[] {
+    const matches = this.search(text)
+      .filter((match) => !accept || accept(match))
+      .sort((a, b) => a.start - b.start || b.end - a.end)
+
+    const selected: AhoCorasickMatch<T>[] = []
+    let lastEnd = 0
+    matches.forEach((match) => {
+      if (match.start >= lastEnd) {
+        selected.push(match)
+        lastEnd = match.end
+      }
+    })
+    return selected
+  }
+
+  /**
+   * 广度优先计算失败指针和输出链接
+   */
+  private build(): void {
+    if (this.built) return
+
+    const queue: number[] = []
+    this.nodes[0].next.forEach((child) => {
+      this.nodes[child].fail = 0
+      this.nodes[child].outputLink = -1
+      queue.push(child)
+    })
+
+    for (let head = 0; head < queue.length; head++) {
+      const current = queue[head]
+      this.nodes[current].next.forEach((child, char) => {
+        let fail = this.nodes[current].fail
+        while (fail > 0 && !this.nodes[fail].next.has(char)) {
+          fail = this.nodes[fail].fail
+        }
+        const target = this.nodes[fail].next.get(char)
+        const failNode = target !== undefined && target !== child ? target : 0
+
+        this.nodes[child].fail = failNode
+        this.nodes[child].outputLink = this.nodes[failNode].output >= 0 ? failNode : this.nodes[failNode].outputLink
+        queue.push(child)
+      })
+    }
+
+    this.built = true
+  }
+
+  private createNode(length: number): AcNode {
+    return { next: new Map(), fail: 0, output: -1, outputLink: -1, length }
+  }
+}
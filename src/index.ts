@@ -26,6 +26,8 @@
 import { App, IObject, Plugin } from "siyuan"
 import { ILogger, simpleLogger } from "zhi-lib-base"
 import { Topbar } from "./topbar"
+import { LiveIndexer } from "./indexer"
+import { SettingPanel } from "./setting"
 import { dataDir, isDev } from "./Constants"
 import pkg from "../package.json"
 
@@ -34,12 +36,16 @@ import "../index.styl"
 export default class AiGraphPlugin extends Plugin {
   private logger: ILogger
   private topbar: Topbar
+  private liveIndexer: LiveIndexer
+  private settingPanel: SettingPanel
 
   constructor(options: { app: App; id: string; name: string; i18n: IObject }) {
     super(options)
 
     this.logger = simpleLogger("index", "ai-graph", isDev)
     this.topbar = new Topbar(this)
+    this.liveIndexer = new LiveIndexer(this)
+    this.settingPanel = new SettingPanel(this, (settings) => this.liveIndexer.applySettings(settings))
   }
 
   async onload() {
@@ -49,14 +55,22 @@ export default class AiGraphPlugin extends Plugin {
       // 初始化顶栏
       await this.topbar.initTopbar()
       this.logger.info("顶栏初始化完成")
+      // 初始化设置面板
+      await this.settingPanel.initSetting()
       // 初始化 Zhi Infra
       await this.initZhiInfra()
+      // 开始实时索引
+      this.liveIndexer.start()
     } catch (error) {
       this.logger.error("智能图谱插件初始化失败:", error)
     }
   }
 
   onunload() {
+    // 处理完队列中剩余的文档后再释放数据库
+    this.liveIndexer.stop(true).catch((e) => {
+      this.logger.error("实时索引停止出错", e)
+    })
     this.logger.info("智能图谱插件已卸载")
   }
 
@@ -0,0 +1,236 @@
+/*
+ * Copyright (c) 2023, Terwer . All rights reserved.
+ * DO NOT ALTER OR REMOVE COPYRIGHT NOTICES OR THIS FILE HEADER.
+ *
+ * This code is free software; you can redistribute it and/or modify it
+ * under the terms of the GNU General Public License version 2 only, as
+ * published by the Free Software Foundation.  Terwer designates this
+ * particular file as subject to the "Classpath" exception as provided
+ * by Terwer in the LICENSE file that accompanied this code.
+ *
+ * This code is distributed in the hope that it will be useful, but WITHOUT
+ * ANY WARRANTY; without even the implied warranty of MERCHANTABILITY or
+ * FITNESS FOR A PARTICULAR PURPOSE.  See the GNU General Public License
+ * version 2 for more details (a copy is included in the LICENSE file that
+ * accompanied this code).
+ *
+ * You should have received a copy of the GNU General Public License version
+ * 2 along with this work; if not, write to the Free Software Foundation,
+ * Inc., 51 Franklin St, Fifth Floor, Boston, MA 02110-1301 USA.
+ *
+ * Please contact Terwer, Shenzhen, Guangdong, China, youweics@163.com
+ * or visit www.terwer.space if you need additional information or have any
+ * questions.
+ */
+
+import type { IWebSocketData } from "siyuan"
+import { ILogger, simpleLogger } from "zhi-lib-base"
+import { isDev } from "./Constants"
+import { IngestAPIService } from "./api/ingest-api"
+import type { AiGraphSettings } from "./api/settings-api"
+import KernelApi from "./api/kernel-api"
+import { DatabaseManagerAdapter } from "./data/db/DatabaseManagerAdapter"
+
+/**
+ * 编辑器变更后等待多久再重新索引（毫秒），给思源的 SQL 索引留出落盘时间
+ */
+const REINDEX_DELAY = 5000
+
+/**
+ * 实时索引，监听思源的 ws-main 事务消息，防抖后重新处理被修改的文档
+ *
+ * @author terwer
+ * @version 0.0.1
+ * @since 0.0.1
+ */
+class LiveIndexer {
+  protected pluginInstance: any
+  private logger: ILogger
+  private kernelApi: KernelApi
+  private dbManager: DatabaseManagerAdapter | null
+  private ingestAPIService: IngestAPIService | null
+  private pendingBlockIds: Set<string>
+  private timer: ReturnType<typeof setTimeout> | null
+  private running: Promise<void> | null
+  private readonly onWsMain: (event: CustomEvent<IWebSocketData>) => void
+
+  /**
+   * 构造函数
+   * @param pluginInstance 插件实例
+   */
+  constructor(pluginInstance: any) {
+    this.pluginInstance = pluginInstance
+    this.logger = simpleLogger("indexer", "ai-graph", isDev)
+    this.kernelApi = new KernelApi()
+    this.dbManager = null
+    this.ingestAPIService = null
+    this.pendingBlockIds = new Set()
+    this.timer = null
+    this.running = null
+    this.onWsMain = (event) => this.handleWsMain(event.detail)
+  }
+
+  /**
+   * 开始监听编辑器变更
+   */
+  public start() {
+    this.dbManager = new DatabaseManagerAdapter("indexeddb")
+    this.ingestAPIService = new IngestAPIService(this.dbManager, this.kernelApi)
+    // 词典按归一化后的形式加载，需在应用设置之后
+    this.ingestAPIService
+      .loadSettings()
+      .catch((e) => {
+        this.logger.error("设置加载失败", e)
+      })
+      .then(() => {
+        this.ingestAPIService.loadDictionaries().catch((e) => {
+          this.logger.error("用户词典加载失败", e)
+        })
+        this.ingestAPIService.loadGazetteer().catch((e) => {
+          this.logger.error("实体词典加载失败", e)
+        })
+      })
+    this.ingestAPIService.loadRelationPatterns().catch((e) => {
+      this.logger.error("关系模式加载失败", e)
+    })
+    this.ingestAPIService.loadInferenceRules().catch((e) => {
+      this.logger.error("推理规则加载失败", e)
+    })
+    this.pluginInstance.eventBus.on("ws-main", this.onWsMain)
+    this.logger.info("实时索引已启动")
+  }
+
+  /**
+   * 应用修改后的设置，之后索引的文档按新设置处理
+   *
+   * @param settings 插件设置
+   */
+  public applySettings(settings: AiGraphSettings) {
+    this.ingestAPIService?.applySettings(settings)
+  }
+
+  /**
+   * 停止监听，并处理或丢弃尚未执行的索引任务
+   *
+   * @param flush 为 true 时立即处理队列中的文档，否则直接丢弃
+   */
+  public async stop(flush: boolean = true) {
+    this.pluginInstance.eventBus.off("ws-main", this.onWsMain)
+    if (this.timer) {
+      clearTimeout(this.timer)
+      this.timer = null
+    }
+
+    if (flush) {
+      await this.flush()
+    } else {
+      this.pendingBlockIds.clear()
+      // 等待正在执行的任务结束，避免关闭数据库后继续写入
+      await this.running
+    }
+
+    this.dbManager?.close()
+    this.dbManager = null
+    this.ingestAPIService = null
+    this.logger.info("实时索引已停止")
+  }
+
+  /**
+   * 立即处理队列中的文档
+   */
+  public async flush() {
+    // 串行执行，上一次任务结束后再处理新的队列
+    while (this.running) {
+      await this.running
+    }
+    if (this.pendingBlockIds.size === 0 || !this.ingestAPIService) {
+      return
+    }
+
+    const blockIds = Array.from(this.pendingBlockIds)
+    this.pendingBlockIds.clear()
+
+    this.running = this.reindex(blockIds)
+    try {
+      await this.running
+    } finally {
+      this.running = null
+    }
+  }
+
+  /**
+   * 处理 ws-main 消息，收集事务中涉及的块以及被删除的文档
+   *
+   * @param data 思源推送的消息
+   */
+  private handleWsMain(data: IWebSocketData) {
+    if (data?.cmd === "removeDoc") {
+      // 文档已从思源删除，重新索引时查不到所在文档，由 reindex 按已删除处理
+      ;(data.data?.ids || []).forEach((id: string) => this.pendingBlockIds.add(id))
+      this.schedule()
+      return
+    }
+    if (!data || data.cmd !== "transactions" || !Array.isArray(data.data)) {
+      return
+    }
+
+    data.data.forEach((transaction: any) => {
+      ;(transaction.doOperations || []).forEach((op: any) => {
+        // 删除块时块本身已不存在，通过父块定位所在文档
+        ;[op.id, op.parentID, op.previousID].forEach((id: string) => {
+          if (id) {
+            this.pendingBlockIds.add(id)
+          }
+        })
+      })
+    })
+
+    if (this.pendingBlockIds.size > 0) {
+      this.schedule()
+    }
+  }
+
+  /**
+   * 防抖调度
+   */
+  private schedule() {
+    if (this.timer) {
+      clearTimeout(this.timer)
+    }
+    this.timer = setTimeout(() => {
+      this.timer = null
+      this.flush().catch((e) => this.logger.error("实时索引出错", e))
+    }, REINDEX_DELAY)
+  }
+
+  /**
+   * 找到块所在的文档并重新处理
+   * 查不到的块如果是已索引的文档，说明文档已被删除，一并交给 syncDocuments 清除
+   *
+   * @param blockIds 块ID列表
+   */
+  private async reindex(blockIds: string[]) {
+    const ids = blockIds.map((id) => `'${id}'`).join(",")
+    const res = await this.kernelApi.sql(`SELECT id, root_id FROM blocks WHERE id IN (${ids}) LIMIT ${blockIds.length}`)
+    if (res.code !== 0) {
+      throw new Error(`思源请求失败：${res.msg}`)
+    }
+    const rows = (res.data as any[]) ?? []
+    const rootIds = new Set(rows.map((row) => row.root_id as string))
+
+    const found = new Set(rows.map((row) => row.id as string))
+    for (const id of blockIds) {
+      if (!found.has(id) && (await this.dbManager!.getDocument(id))) {
+        rootIds.add(id)
+      }
+    }
+    if (rootIds.size === 0) {
+      return
+    }
+
+    this.logger.info(`重新索引 ${rootIds.size} 篇文档`)
+    await this.ingestAPIService!.syncDocuments(Array.from(rootIds))
+  }
+}
+
+export { LiveIndexer }
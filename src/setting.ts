@@ -0,0 +1,139 @@
+import { Setting, showMessage } from "siyuan"
+import { ILogger, simpleLogger } from "zhi-lib-base"
+import { isDev } from "./Constants"
+import { AiGraphSettings, SettingsAPIService } from "./api/settings-api"
+import { KeywordMethod } from "./data/extractor/KeywordExtractor"
+import { STRUCTURED_ENTITY_TYPES } from "./data/extractor/StructuredExtractors"
+import { NormalizerOptions } from "./data/processor/TextNormalizer"
+
+/**
+ * 设置面板中可切换的归一化选项
+ */
+const NORMALIZER_OPTIONS: Array<keyof NormalizerOptions> = ["traditionalToSimplified", "foldWidth", "caseFold", "stem"]
+
+/**
+ * 关键词打分方法
+ */
+const KEYWORD_METHODS: KeywordMethod[] = ["tfidf", "textrank"]
+
+/**
+ * 设置面板管理类
+ * 在插件设置中按类型启用或停用结构化实体抽取，并配置文本归一化和关键词抽取选项
+ */
+class SettingPanel {
+  protected pluginInstance: any
+  private logger: ILogger
+  private settingsService: SettingsAPIService
+  private settings: AiGraphSettings
+  private readonly onSaved: (settings: AiGraphSettings) => void
+
+  /**
+   * 构造函数
+   * @param pluginInstance 插件实例
+   * @param onSaved 设置保存后的回调
+   */
+  constructor(pluginInstance: any, onSaved: (settings: AiGraphSettings) => void) {
+    this.pluginInstance = pluginInstance
+    this.logger = simpleLogger("setting", "ai-graph", isDev)
+    this.settingsService = new SettingsAPIService()
+    this.settings = this.settingsService.getDefaults()
+    this.onSaved = onSaved
+  }
+
+  /**
+   * 初始化设置面板
+   */
+  public async initSetting() {
+    this.settings = await this.settingsService.load()
+    const i18n = this.pluginInstance.i18n
+    const checkboxes = new Map<string, HTMLInputElement>()
+    const normalizerCheckboxes = new Map<keyof NormalizerOptions, HTMLInputElement>()
+    const keywordMethodSelect = document.createElement("select")
+    const keywordCountInput = document.createElement("input")
+
+    const setting = new Setting({
+      confirmCallback: () => {
+        checkboxes.forEach((checkbox, type) => {
+          this.settings.structuredEntityTypes[type] = checkbox.checked
+        })
+        normalizerCheckboxes.forEach((checkbox, option) => {
+          this.settings.normalizer[option] = checkbox.checked
+        })
+        this.settings.keywords.method = keywordMethodSelect.value as KeywordMethod
+        const topN = parseInt(keywordCountInput.value, 10)
+        if (topN > 0) {
+          this.settings.keywords.topN = topN
+        }
+        this.settingsService
+          .save(this.settings)
+          .then(() => {
+            this.onSaved(this.settings)
+            showMessage(i18n.settingSaved, 3000, "info")
+          })
+          .catch((e) => this.logger.error("保存设置失败", e))
+      },
+    })
+
+    STRUCTURED_ENTITY_TYPES.forEach((item) => {
+      setting.addItem({
+        title: i18n[`entityType_${item.type}`] ?? item.type,
+        description: i18n.structuredEntityDescription,
+        createActionElement: () => {
+          const checkbox = document.createElement("input")
+          checkbox.type = "checkbox"
+          checkbox.className = "b3-switch fn__flex-center"
+          checkbox.checked = this.settings.structuredEntityTypes[item.type] ?? item.enabledByDefault
+          checkboxes.set(item.type, checkbox)
+          return checkbox
+        },
+      })
+    })
+
+    NORMALIZER_OPTIONS.forEach((option) => {
+      setting.addItem({
+        title: i18n[`normalizer_${option}`] ?? option,
+        description: i18n.normalizerDescription,
+        createActionElement: () => {
+          const checkbox = document.createElement("input")
+          checkbox.type = "checkbox"
+          checkbox.className = "b3-switch fn__flex-center"
+          checkbox.checked = this.settings.normalizer[option]
+          normalizerCheckboxes.set(option, checkbox)
+          return checkbox
+        },
+      })
+    })
+
+    setting.addItem({
+      title: i18n.keywordMethod,
+      description: i18n.keywordMethodDescription,
+      createActionElement: () => {
+        keywordMethodSelect.className = "b3-select fn__flex-center fn__size200"
+        KEYWORD_METHODS.forEach((method) => {
+          const option = document.createElement("option")
+          option.value = method
+          option.textContent = i18n[`keywordMethod_${method}`] ?? method
+          keywordMethodSelect.appendChild(option)
+        })
+        keywordMethodSelect.value = this.settings.keywords.method
+        return keywordMethodSelect
+      },
+    })
+
+    setting.addItem({
+      title: i18n.keywordCount,
+      description: i18n.keywordCountDescription,
+      createActionElement: () => {
+        keywordCountInput.type = "number"
+        keywordCountInput.min = "1"
+        keywordCountInput.className = "b3-text-field fn__flex-center fn__size200"
+        keywordCountInput.value = String(this.settings.keywords.topN)
+        return keywordCountInput
+      },
+    })
+
+    this.pluginInstance.setting = setting
+  }
+}
+
+export { SettingPanel }
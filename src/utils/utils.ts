@@ -22,3 +22,17 @@
  * or visit www.terwer.space if you need additional information or have any
  * questions.
  */
+
+/**
+ * 将思源的时间字符串（yyyyMMddHHmmss，本地时间）转换为毫秒时间戳
+ *
+ * @param time - 思源时间字符串，例如 20240102150405
+ */
+export const parseSiyuanTime = (time: string): number => {
+  const m = /^(\d{4})(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})$/.exec(time ?? "")
+  if (!m) {
+    return 0
+  }
+  const [year, month, day, hour, minute, second] = m.slice(1).map((v) => parseInt(v, 10))
+  return new Date(year, month - 1, day, hour, minute, second).getTime()
+}
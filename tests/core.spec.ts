@@ -1,6 +1,29 @@
-import { DatabaseManager, Document, DocumentProcessor, EntityExtractor, LLMConfig, Tokenizer } from "../src/data"
+import {
+  AhoCorasick,
+  BlockSplitter,
+  DatabaseManager,
+  Document,
+  DocumentProcessor,
+  EntityExtractor,
+  EntityFusion,
+  InferenceEngine,
+  KeywordExtractor,
+  LLMConfig,
+  ModalityDetector,
+  RelationExtractor,
+  RelationTypeRegistry,
+  SearchAPI,
+  Segmenter,
+  SpanArbiter,
+  SpanAligner,
+  StructureExtractor,
+  TemporalNormalizer,
+  TextChunker,
+  TextNormalizer,
+  Tokenizer,
+} from "../src/data"
 
-import { afterAll, beforeAll, describe, it, expect } from "vitest"
+import { afterAll, beforeAll, describe, it, expect, vi } from "vitest"
 
 const llmConfig: LLMConfig = {
   endpoint: "http://localhost:8000/v1/chat/completions",
@@ -64,6 +87,190 @@ describe("AI Graph Core Tests", () => {
       expect(tokens.some((t) => t.text === "Artificial")).toBeTruthy()
       expect(tokens.some((t) => t.text === "intelligence")).toBeTruthy()
     })
+
+    it("should load user dictionaries and stopwords", async () => {
+      const customTokenizer = new Tokenizer()
+      const words = customTokenizer.loadUserDict("# 用户词典\n杭研大厦 100 nt\n智能图谱 nz\n\n")
+      const stopwords = customTokenizer.loadStopwords("# 停用词\n网易\n")
+      expect(words).toBe(2)
+      expect(stopwords).toBe(1)
+
+      const tokens = await customTokenizer.tokenize("The 智能图谱 来自网易杭研大厦")
+      console.log("tokens:", tokens)
+      expect(tokens.find((t) => t.text === "杭研大厦")?.type).toBe("nt")
+      expect(tokens.find((t) => t.text === "智能图谱")?.type).toBe("nz")
+      expect(tokens.some((t) => t.text === "网易")).toBeFalsy()
+      // 内置英文停用词不区分大小写
+      expect(tokens.some((t) => t.text === "The")).toBeFalsy()
+    })
+  })
+
+  describe("Segmenter Tests", () => {
+    it("should segment Chinese text without nodejieba", () => {
+      const segmenter = new Segmenter()
+      expect(segmenter.cut("我来到北京清华大学")).toEqual(["我", "来到", "北京", "清华大学"])
+      // 未登录词由 HMM 识别
+      expect(segmenter.cut("他来到了网易杭研大厦")).toEqual(["他", "来到", "了", "网易", "杭研", "大厦"])
+
+      segmenter.addWord("杭研大厦")
+      expect(segmenter.cut("他来到了网易杭研大厦")).toContain("杭研大厦")
+    })
+
+    it("should match nodejieba segmentation and tags", async () => {
+      const nodejieba = (await import("nodejieba")).default
+      const segmenter = new Segmenter()
+      const sentences = [
+        "区块链技术正在改变金融行业",
+        "小明硕士毕业于中国科学院计算所，后在日本京都大学深造",
+        "工信处女干事每月经过下属科室都要亲口交代24口交换机等技术性器件的安装工作",
+        "他说：“明天可能会下雨。”",
+        "Python 3.11 比 3.10 快了 25%",
+        "北京时间2024年1月1日上午10点",
+        "在Vue3中使用TypeScript编写组件",
+      ]
+      sentences.forEach((sentence) => expect(segmenter.tag(sentence)).toEqual(nodejieba.tag(sentence)))
+    })
+  })
+
+  describe("Span Aligner Tests", () => {
+    it("should re-anchor LLM spans to the source text", () => {
+      const aligner = new SpanAligner()
+      const text = "ＡＩ 图谱连接 Open AI 与思源，思源是笔记软件。"
+
+      // 位置错误、全角半角和空白差异
+      const { spans, unaligned } = aligner.align(text, [
+        { text: "AI图谱", start: 5, end: 9 },
+        { text: "openai", start: 0, end: 6 },
+        { text: "思源" },
+        { text: "思源" },
+        { text: "不存在" },
+      ])
+      expect(spans.map((s) => [s.text, s.start, s.end])).toEqual([
+        ["ＡＩ 图谱", 0, 5],
+        ["Open AI", 8, 15],
+        ["思源", 17, 19],
+        ["思源", 20, 22],
+      ])
+      expect(unaligned.map((s) => s.text)).toEqual(["不存在"])
+
+      // 实体匹配所有出现位置
+      const all = aligner.align(text, [{ text: "思源", start: 0, end: 2 }], "all")
+      expect(all.spans.map((s) => s.start)).toEqual([17, 20])
+    })
+  })
+
+  describe("Normalization Tests", () => {
+    it("should fold traditional, full-width and case variants", () => {
+      const normalizer = new TextNormalizer()
+      expect(normalizer.normalize("數據庫")).toBe("数据库")
+      expect(normalizer.normalize("ＡＩ")).toBe("ai")
+      expect(normalizer.normalize("GraphQL")).toBe("graphql")
+      expect(normalizer.fold("ＡＩ與數據庫")).toBe("ai与数据库")
+
+      normalizer.configure({ stem: true })
+      expect(normalizer.normalize("Indexing")).toBe(normalizer.normalize("indexes"))
+    })
+
+    it("should match normalized terms at query time and keep surface forms", async () => {
+      const documentProcessor = new DocumentProcessor(dbManager as any)
+      await documentProcessor.processDocument({
+        docId: "test_doc_normalize",
+        title: "繁體文檔",
+        content: "圖數據庫支持ＧｒａｐｈＱＬ查詢",
+      })
+
+      const searchAPI = new SearchAPI(dbManager as any)
+      const results = await searchAPI.searchDocuments("数据库 graphql")
+      const result = results.find((r) => r.item.docId === "test_doc_normalize")
+      expect(result).toBeDefined()
+      expect(result!.highlights).toContain("數據庫")
+      expect(result!.highlights).toContain("ＧｒａｐｈＱＬ")
+    }, 60000)
+
+    it("should index and query with the same non-default normalizer options", async () => {
+      const options = { stem: true }
+      const documentProcessor = new DocumentProcessor(dbManager as any)
+      documentProcessor.configureNormalizer(options)
+      await documentProcessor.processDocument({
+        docId: "test_doc_stem",
+        title: "Indexer",
+        content: "The indexer keeps running in the background",
+      })
+
+      const searchAPI = new SearchAPI(dbManager as any)
+      searchAPI.configureNormalizer(options)
+      const results = await searchAPI.searchDocuments("runs")
+      expect(results.find((r) => r.item.docId === "test_doc_stem")).toBeDefined()
+
+      // 默认选项不做词干提取，查询词与索引词不一致
+      const defaultResults = await new SearchAPI(dbManager as any).searchDocuments("runs")
+      expect(defaultResults.find((r) => r.item.docId === "test_doc_stem")).toBeUndefined()
+    }, 60000)
+  })
+
+  describe("Keyword Extraction Tests", () => {
+    it("should rank keywords and merge repeated phrases", async () => {
+      const content = "knowledge graph helps search. knowledge graph links notes. search notes daily."
+      const tokens = await tokenizer.tokenize(content)
+
+      const extractor = new KeywordExtractor({ topN: 3 })
+      const stats = { docFrequency: new Map([["search", 5]]), totalDocs: 5 }
+      const byTfIdf = extractor.extract("doc_kw", content, tokens, stats)
+      expect(byTfIdf[0].term).toBe("knowledge graph")
+      expect(byTfIdf.some((k) => k.term === "knowledge")).toBe(false)
+
+      extractor.configure({ method: "textrank" })
+      const byTextRank = extractor.extract("doc_kw", content, tokens)
+      expect(byTextRank).toHaveLength(3)
+      expect(byTextRank.every((k) => k.docId === "doc_kw" && k.score > 0)).toBe(true)
+    })
+
+    it("should filter documents by keyword facets", async () => {
+      const documentProcessor = new DocumentProcessor(dbManager as any)
+      await documentProcessor.processDocument({
+        docId: "test_doc_keywords",
+        title: "关键词",
+        content: "Vector index speeds up vector search. Vector index needs memory.",
+      })
+
+      const searchAPI = new SearchAPI(dbManager as any)
+      const facets = await searchAPI.getKeywordFacets(["test_doc_keywords"])
+      expect(facets.map((f) => f.term)).toContain("vector index")
+
+      const results = await searchAPI.advancedSearch({ text: "memory", keywords: ["Vector Index"] })
+      expect(results.map((r) => r.item.docId)).toContain("test_doc_keywords")
+    }, 60000)
+  })
+
+  describe("Block Splitter Tests", () => {
+    it("should split kramdown into blocks with offsets", () => {
+      const kramdown = [
+        "## 北京",
+        '{: id="20240101120000-aaaaaaa" updated="20240101120000"}',
+        "",
+        "北京是**中国**的首都。",
+        '{: id="20240101120000-bbbbbbb"}',
+        "",
+        '* {: id="20240101120000-ccccccc"}上海',
+        '  {: id="20240101120000-ddddddd"}',
+        '{: id="20240101120000-eeeeeee"}',
+        "",
+        '{: id="20240101120000-fffffff" type="doc"}',
+      ].join("\n")
+
+      const splitter = new BlockSplitter()
+      const { content, blocks } = splitter.split({ docId: "doc", title: "doc", content: kramdown })
+
+      expect(content).toBe("北京\n北京是中国的首都。\n上海")
+      expect(blocks.map((b) => b.blockId)).toEqual([
+        "20240101120000-aaaaaaa",
+        "20240101120000-bbbbbbb",
+        "20240101120000-ddddddd",
+      ])
+      expect(blocks[0].type).toBe("h")
+      expect(content.slice(blocks[1].start, blocks[1].end)).toBe("北京是中国的首都。")
+      expect(splitter.findBlock(blocks, content.indexOf("上海"))?.blockId).toBe("20240101120000-ddddddd")
+    })
   })
 
   describe("Database Tests", () => {
@@ -85,6 +292,99 @@ describe("AI Graph Core Tests", () => {
       expect(retrievedDoc).toBeDefined()
       expect(retrievedDoc?.title).toBe(testDoc.title)
     })
+
+    it("should persist sync cursor", async () => {
+      expect(await dbManager.getSyncCursor("test.cursor")).toBeNull()
+      await dbManager.setSyncCursor("test.cursor", "20240102150405")
+      await dbManager.setSyncCursor("test.cursor", "20240103150405")
+      expect(await dbManager.getSyncCursor("test.cursor")).toBe("20240103150405")
+    })
+
+    it("should purge derived data of a document", async () => {
+      const testDoc: Document = {
+        docId: "test_doc_purge",
+        title: "Purge Document",
+        content: "北京和上海",
+        updatedAt: 1700000000000,
+      }
+      await dbManager.saveDocument(testDoc)
+      await dbManager.saveEntities([
+        { name: "北京", type: "location", docId: testDoc.docId, startPos: 0, endPos: 2 },
+        { name: "上海", type: "location", docId: testDoc.docId, startPos: 3, endPos: 5 },
+      ])
+      await dbManager.buildInvertedIndex(testDoc.docId, [{ text: "北京", start: 0, end: 2 }])
+
+      await dbManager.purgeDocumentData(testDoc.docId)
+
+      expect(await dbManager.getEntities(testDoc.docId)).toHaveLength(0)
+      expect((await dbManager.getDocument(testDoc.docId))?.updatedAt).toBe(testDoc.updatedAt)
+      expect(await dbManager.getAllDocumentIds()).toContain(testDoc.docId)
+    })
+
+    it("should resolve mentions to canonical entities", async () => {
+      for (const docId of ["test_doc_canonical_1", "test_doc_canonical_2"]) {
+        await dbManager.saveDocument({ docId, title: docId, content: "阿里巴巴" })
+        await dbManager.saveEntities([{ name: "阿里巴巴", type: "organization", docId, startPos: 0, endPos: 4 }])
+      }
+      const entities = [
+        ...(await dbManager.getEntities("test_doc_canonical_1")),
+        ...(await dbManager.getEntities("test_doc_canonical_2")),
+      ]
+
+      const entityFusion = new EntityFusion(dbManager as any)
+      const mentions = await entityFusion.resolveMentions(entities)
+
+      expect(mentions).toHaveLength(2)
+      expect(mentions[0].canonicalId).toBe(mentions[1].canonicalId)
+      expect(await dbManager.getEntityMentions(mentions[0].canonicalId)).toHaveLength(2)
+
+      await dbManager.purgeDocumentData("test_doc_canonical_2")
+      expect(await dbManager.getEntityMentions(mentions[0].canonicalId)).toHaveLength(1)
+    })
+
+    it("should keep same-titled documents apart and drop canonicals without mentions", async () => {
+      const docIds = ["20240101120000-readme1", "20240101120000-readme2"]
+      for (const docId of docIds) {
+        await dbManager.saveDocument({ docId, title: "README", content: "README" })
+        await dbManager.saveEntities([
+          {
+            name: "README",
+            type: "document",
+            docId,
+            startPos: 0,
+            endPos: 0,
+            blockId: docId,
+            source: "siyuan-structure",
+          },
+          {
+            name: "周报",
+            type: "tag",
+            docId,
+            startPos: 0,
+            endPos: 0,
+            blockId: `${docId}-b`,
+            source: "siyuan-structure",
+          },
+        ])
+      }
+      const entities = (await dbManager.getEntities()).filter((e) => docIds.includes(e.docId))
+      const mentions = await new EntityFusion(dbManager as any).resolveMentions(entities)
+      const canonicalOf = (docId: string, type: string) =>
+        mentions.find((m) => m.entityId === entities.find((e) => e.docId === docId && e.type === type)!.id)!.canonicalId
+
+      // 同名文档按块ID区分，标签仍按名称合并
+      expect(canonicalOf(docIds[0], "document")).not.toBe(canonicalOf(docIds[1], "document"))
+      expect(canonicalOf(docIds[0], "tag")).toBe(canonicalOf(docIds[1], "tag"))
+      const readme = (await dbManager.getCanonicalEntities()).find((c) => c.id === canonicalOf(docIds[0], "document"))
+      expect(readme?.blockId).toBe(docIds[0])
+
+      // 文档的提及全部清除后，只属于它的规范实体被删除
+      await dbManager.purgeDocumentData(docIds[0])
+      const remaining = (await dbManager.getCanonicalEntities()).map((c) => c.id)
+      expect(remaining).not.toContain(canonicalOf(docIds[0], "document"))
+      expect(remaining).toContain(canonicalOf(docIds[1], "document"))
+      expect(remaining).toContain(canonicalOf(docIds[0], "tag"))
+    })
   })
 
   describe("Entity Extraction Tests", () => {
@@ -100,6 +400,624 @@ describe("AI Graph Core Tests", () => {
       expect(entities.some((e) => e.name.includes("上海"))).toBeTruthy()
       expect(entities.some((e) => e.name.includes("中国"))).toBeTruthy()
     })
+
+    it("should map POS tags to entity types", async () => {
+      const text = "李四在北京大学工作，住在北京市海淀区。"
+      expect(new Segmenter().tag("李四在北京大学工作")).toContainEqual({ word: "北京大学", tag: "nt" })
+
+      const tokens = await tokenizer.tokenize(text)
+      expect(tokens.find((t) => t.text === "李四")?.type).toBe("nr")
+
+      const entities = await new EntityExtractor().extract(text, "test_doc_pos", tokens)
+      const types = Object.fromEntries(entities.map((e) => [e.name, e.type]))
+      expect(types["李四"]).toBe("person")
+      expect(types["北京大学"]).toBe("organization")
+      expect(types["北京市海淀区"]).toBe("location")
+      expect(types["工作"]).toBeUndefined()
+    })
+
+    it("should match gazetteer entries leftmost-longest", async () => {
+      const automaton = new AhoCorasick<string>()
+      automaton.add("he", "he")
+      automaton.add("she", "she")
+      automaton.add("hers", "hers")
+      expect(automaton.search("ushers").map((m) => [m.value, m.start, m.end])).toEqual([
+        ["she", 1, 4],
+        ["he", 2, 4],
+        ["hers", 2, 6],
+      ])
+
+      const extractor = new EntityExtractor()
+      extractor.addGazetteerEntries([
+        { name: "思源", type: "product" },
+        { name: "思源笔记", type: "product" },
+        { name: "知識圖譜", type: "concept" },
+        { name: "Go", type: "language" },
+      ])
+      const entities = await extractor.extractByDictionary("思源笔记用知识图谱关联笔记，Go 写成，与 Google 无关。", "d")
+      expect(entities.map((e) => [e.name, e.type, e.startPos])).toEqual([
+        ["思源笔记", "product", 0],
+        ["知识图谱", "concept", 5],
+        ["Go", "language", 14],
+      ])
+    })
+
+    it("should extract and normalize structured entities", async () => {
+      const text =
+        "修复 PROJ-42，见 HTTPS://Example.com:443/docs/?utm_source=x&b=2&a=1#top。" +
+        "联系 Dev.Team@Example.COM，升级到 v1.2.3-beta.1，改了 src/data/types.ts 里的 parseConfig() 和 MAX_RETRY_COUNT。"
+      const extractor = new EntityExtractor()
+      const entities = await extractor.extract(text, "test_doc_structured", [])
+      const byType = (type: string) => entities.find((e) => e.type === type)
+
+      expect(byType("issue_key")?.properties).toMatchObject({ project: "PROJ", number: 42 })
+      expect(byType("url")?.properties?.canonical).toBe("https://example.com/docs?a=1&b=2")
+      expect(byType("email")?.properties?.canonical).toBe("dev.team@example.com")
+      expect(byType("version")?.properties).toMatchObject({ major: 1, minor: 2, patch: 3, prerelease: "beta.1" })
+      expect(byType("file_path")?.properties).toMatchObject({ dir: "src/data", name: "types.ts", ext: "ts" })
+      expect(entities.filter((e) => e.type === "code_identifier").map((e) => e.properties?.style)).toEqual([
+        "camel",
+        "constant",
+      ])
+      expect(entities.some((e) => e.type === "number")).toBe(false)
+
+      extractor.configureStructuredTypes({ url: false })
+      expect((await extractor.extract(text, "test_doc_structured", [])).some((e) => e.type === "url")).toBe(false)
+    })
+
+    it("should normalize temporal expressions against the reference time", async () => {
+      // 2024-03-06 为周三
+      const reference = new Date(2024, 2, 6, 10, 0).getTime()
+      const normalizer = new TemporalNormalizer()
+      const iso = (text: string) => normalizer.normalize(text, reference)?.iso
+
+      expect(iso("上周三")).toBe("2024-02-28")
+      expect(iso("next Friday")).toBe("2024-03-15")
+      expect(iso("明天")).toBe("2024-03-07")
+      expect(iso("3天前")).toBe("2024-03-03")
+      expect(iso("上周")).toBe("2024-W09")
+      expect(iso("2024/3/5 14:30")).toBe("2024-03-05T14:30")
+      expect(normalizer.normalize("Q3 2025", reference)).toMatchObject({
+        start: "2025-07-01",
+        end: "2025-09-30",
+        granularity: "quarter",
+        relative: false,
+      })
+      expect(normalizer.normalize("下个月", reference)).toMatchObject({ iso: "2024-04", end: "2024-04-30" })
+      expect(iso("2024-13-01")).toBeUndefined()
+
+      const documentProcessor = new DocumentProcessor(dbManager as any)
+      await documentProcessor.processDocument({
+        docId: "test_doc_temporal",
+        title: "排期",
+        content: "评审定在下周三，上线在2024年5月。",
+        createdAt: reference,
+      })
+
+      const searchAPI = new SearchAPI(dbManager as any)
+      const mentioned = async (from: Date, to: Date) =>
+        (
+          await searchAPI.advancedSearch({
+            dateRange: { from: from.getTime(), to: to.getTime(), field: "mention" },
+          })
+        ).map((r) => r.item.docId)
+      expect(await mentioned(new Date(2024, 2, 13), new Date(2024, 2, 13, 12))).toContain("test_doc_temporal")
+      expect(await mentioned(new Date(2024, 4, 20), new Date(2024, 5, 1))).toContain("test_doc_temporal")
+      expect(await mentioned(new Date(2024, 3, 1), new Date(2024, 3, 30))).not.toContain("test_doc_temporal")
+    }, 60000)
+
+    it("should extract entities from long text chunk by chunk", async () => {
+      const { content, blocks } = new BlockSplitter().split({
+        docId: "doc_chunks",
+        title: "doc_chunks",
+        content: "",
+        blocks: [
+          ["h", "第一章"],
+          ["p", "张三在北京工作，负责图谱项目的研发。"],
+          ["p", "李四也在北京，和张三是同事。"],
+          ["h", "第二章"],
+          ["p", "王五去了上海。"],
+        ].map(([type, text], i) => ({ blockId: `b${i}`, type, content: text, start: 0, end: 0 })),
+      })
+
+      const chunkOptions = { maxTokens: 25, overlapTokens: 10, concurrency: 2 }
+      const chunker = new TextChunker(chunkOptions)
+      const chunks = chunker.chunk(content, blocks)
+      expect(chunks.length).toBeGreaterThan(1)
+      expect(chunks.every((c) => c.text === content.slice(c.start, c.end))).toBe(true)
+      expect(chunks.every((c) => chunker.estimateTokens(c.text) <= 25)).toBe(true)
+      expect(chunks.every((c) => blocks.some((b) => b.start === c.start))).toBe(true)
+      expect(chunks.some((c) => c.text.startsWith("第二章"))).toBe(true)
+
+      // 模拟大模型：返回块中出现的人名和地名，并记录并发数
+      let running = 0
+      let maxRunning = 0
+      let calls = 0
+      const fakeRequest = {
+        post: async (_url: string, body: any) => {
+          calls++
+          running++
+          maxRunning = Math.max(maxRunning, running)
+          await new Promise((resolve) => setTimeout(resolve, 5))
+          running--
+          const prompt: string = body.messages[1].content
+          const found = ["张三", "李四", "王五", "北京", "上海"].filter((name) => prompt.includes(name))
+          const entities = found.map((name) => ({ name, type: /北京|上海/.test(name) ? "location" : "person" }))
+          return { choices: [{ message: { content: JSON.stringify(entities) } }] }
+        },
+      }
+
+      const extractor = new EntityExtractor()
+      extractor.configureLLM({ ...llmConfig, chunk: chunkOptions }, fakeRequest as any)
+      const entities = (await extractor.extract(content, "doc_chunks", [], { blocks })).filter(
+        (e) => e.source === "llm"
+      )
+
+      expect(calls).toBe(chunks.length)
+      expect(maxRunning).toBeLessThanOrEqual(2)
+      expect(entities.every((e) => content.slice(e.startPos, e.endPos) === e.name)).toBe(true)
+      expect(entities.filter((e) => e.name === "北京")).toHaveLength(2)
+      expect(entities.filter((e) => e.name === "张三")).toHaveLength(2)
+      expect(entities.some((e) => e.name === "上海")).toBe(true)
+    })
+
+    it("should arbitrate overlapping spans by priority", () => {
+      const span = (name: string, type: string, source: string, startPos: number, confidence = 0.7) => ({
+        name,
+        type,
+        docId: "d",
+        startPos,
+        endPos: startPos + name.length,
+        source,
+        confidence,
+      })
+      const candidates = [
+        span("北京", "location", "rule", 0),
+        span("北京大学", "person", "rule", 0),
+        span("北京大学", "organization", "dict", 0, 0.85),
+        span("大学", "organization", "llm", 2, 0.9),
+        span("2024", "number", "rule", 6),
+      ]
+
+      const arbiter = new SpanArbiter()
+      const { entities, rejected } = arbiter.arbitrate(candidates)
+      expect(entities.map((e) => [e.name, e.type])).toEqual([
+        ["北京大学", "organization"],
+        ["2024", "number"],
+      ])
+      expect(rejected).toHaveLength(3)
+      expect(rejected.every((r) => r.winner.type === "organization")).toBe(true)
+      expect(rejected.map((r) => [r.entity.name, r.reason])).toEqual([
+        ["北京大学", "source"],
+        ["大学", "length"],
+        ["北京", "length"],
+      ])
+
+      arbiter.configure({ order: ["confidence", "length"] })
+      expect(arbiter.arbitrate(candidates).entities.map((e) => e.name)).toEqual(["北京", "大学", "2024"])
+    })
+
+    it("should keep longer spans that contain a dictionary entry", async () => {
+      const text = "他毕业于北京大学，访问 https://example.com/北京/index.html 获取资料。"
+      const extractor = new EntityExtractor()
+      extractor.addGazetteerEntries([{ name: "北京", type: "location" }])
+      const tokens = await new Tokenizer().tokenize(text)
+      const entities = await extractor.extract(text, "test_doc_arbitrate", tokens)
+
+      expect(entities.map((e) => [e.name, e.type, e.source])).toContainEqual(["北京大学", "organization", "rule"])
+      expect(entities.some((e) => e.type === "url")).toBe(true)
+      expect(entities.filter((e) => e.name === "北京")).toEqual([])
+
+      // 两处词典匹配都因长度落选
+      const rejected = extractor.getRejectedSpans().filter((r) => r.entity.source === "dict")
+      expect(rejected.map((r) => [r.entity.name, r.reason])).toEqual([
+        ["北京", "length"],
+        ["北京", "length"],
+      ])
+    })
+  })
+
+  describe("Relation Extraction Tests", () => {
+    it("should turn SiYuan refs into relationships", async () => {
+      const ref = (blockId: string, defId: string, content: string) => ({
+        block_id: blockId,
+        def_block_id: defId,
+        def_block_root_id: defId,
+        content,
+        markdown: `((${defId} '${content}'))`,
+      })
+      const refs = [
+        ref("20240101120000-aaaaaaa", "20240101120000-bbbbbbb", "项目计划"),
+        ref("20240101120000-ccccccc", "20240101120000-bbbbbbb", "项目计划"),
+        ref("20240101120000-ccccccc", "20240101120000-ddddddd", "已删除的锚点"),
+      ]
+      const sql = vi.fn(async () => ({ code: 0, msg: "", data: refs }))
+      const relationExtractor = new RelationExtractor()
+      relationExtractor.configureSiyuan({ sql } as any)
+
+      const text = "参见项目计划。会议纪要：项目计划已更新"
+      const blocks = [
+        { blockId: "20240101120000-aaaaaaa", type: "p", content: "参见项目计划。", start: 0, end: 7 },
+        { blockId: "20240101120000-ccccccc", type: "p", content: "会议纪要：项目计划已更新", start: 7, end: 19 },
+      ]
+      const options = { blocks, refs: await relationExtractor.queryRefs("ref_doc") }
+      const anchors = await relationExtractor.extractRefEntities("ref_doc", text, options)
+      // 锚点按引用所在的块定位，找不到锚点文本的引用不创建实体
+      expect(anchors.map((e) => [e.name, e.startPos, e.endPos])).toEqual([
+        ["项目计划", 2, 6],
+        ["项目计划", 12, 16],
+      ])
+
+      // 文档实体由结构抽取提供
+      const docEntity = { name: "周报", type: "document", docId: "ref_doc", startPos: 0, endPos: 0, blockId: "ref_doc" }
+      const entities = [docEntity, ...anchors].map((e, i) => ({ ...e, id: i + 1 }))
+      const relationships = await relationExtractor.extract(entities, text, "ref_doc", options)
+      // 每处引用连接到所在块中的锚点
+      expect(relationships.filter((r) => r.source === "siyuan-ref")).toMatchObject([
+        { sourceEntityId: 1, targetEntityId: 2, type: "reference", blockId: "20240101120000-aaaaaaa", confidence: 1.0 },
+        { sourceEntityId: 1, targetEntityId: 3, type: "reference", blockId: "20240101120000-ccccccc", confidence: 1.0 },
+      ])
+      // 块引用只查询一次
+      expect(sql).toHaveBeenCalledTimes(1)
+    })
+
+    it("should resolve pattern arguments to entities by span", async () => {
+      const text = "张三是阿里巴巴集团的员工。北京李四与王五相关。"
+      const entity = (id: number, name: string, type: string) => ({
+        id,
+        name,
+        type,
+        docId: "span_doc",
+        startPos: text.indexOf(name),
+        endPos: text.indexOf(name) + name.length,
+      })
+      const entities = [
+        entity(1, "张三", "person"),
+        entity(2, "阿里巴巴", "organization"),
+        entity(3, "北京", "location"),
+        entity(4, "李四", "person"),
+      ]
+
+      const relationExtractor = new RelationExtractor()
+      const relationships = await relationExtractor.extract(entities, text, "span_doc")
+      const ruleRelations = relationships.filter((r) => r.source === "rule")
+      expect(ruleRelations.map((r) => [r.sourceEntityId, r.targetEntityId, r.type])).toEqual([[1, 2, "describe"]])
+
+      // 李四离触发词“与”最近，王五不是实体，记为候选
+      expect(relationExtractor.getUnresolvedArguments()).toEqual([
+        expect.objectContaining({ text: "王五", relationType: "associate", startPos: text.indexOf("王五") }),
+      ])
+    })
+
+    it("should match declarative relation patterns with typed slots", async () => {
+      const text = "张三曾经任职于阿里巴巴。阿里巴巴聘请了李四。王五任职于北京。"
+      const entity = (id: number, name: string, type: string, from = 0) => ({
+        id,
+        name,
+        type,
+        docId: "pattern_doc",
+        startPos: text.indexOf(name, from),
+        endPos: text.indexOf(name, from) + name.length,
+      })
+      const entities = [
+        entity(1, "张三", "person"),
+        entity(2, "阿里巴巴", "organization"),
+        entity(3, "阿里巴巴", "organization", 10),
+        entity(4, "李四", "person"),
+        entity(5, "王五", "person"),
+        entity(6, "北京", "location"),
+      ]
+
+      const yaml = [
+        "patterns:",
+        "  # 任职",
+        '  - "{person} 曾经? 任职于|就职于 {organization} => works_at / employs"',
+        "  - pattern: '{organization} 聘请了? {person}'",
+        "    relation: works_at",
+        "    direction: backward",
+        "    confidence: 0.9",
+      ].join("\n")
+      const relationExtractor = new RelationExtractor()
+      expect(relationExtractor.loadRelationPatterns(yaml, "yaml")).toBe(2)
+      // 只有一个槽位的模式无效，被跳过
+      expect(relationExtractor.loadRelationPatterns('[{"pattern": "{person} 任职于 => works_at"}]', "json")).toBe(0)
+
+      const tokens = await tokenizer.tokenize(text)
+      const relationships = await relationExtractor.extract(entities, text, "pattern_doc", { tokens })
+      const patternRelations = relationships.filter((r) => r.properties?.pattern)
+      // 王五任职于北京：北京不是组织，不满足类型约束
+      expect(patternRelations.map((r) => [r.sourceEntityId, r.targetEntityId, r.type, r.confidence])).toEqual([
+        [1, 2, "works_at", 0.8],
+        [4, 3, "works_at", 0.9],
+      ])
+      expect(patternRelations[0]).toMatchObject({
+        evidenceText: "张三曾经任职于阿里巴巴",
+        properties: { inverse: "employs" },
+      })
+    })
+
+    it("should apply relation type semantics when merging and traversing", async () => {
+      const registry = new RelationTypeRegistry()
+      registry.register({ name: "works_at", label: "任职", domain: ["person"], range: ["organization"] })
+      expect(registry.getInverse("contain")).toBe("belong_to")
+      expect(registry.getInverse("associate")).toBe("associate")
+      expect(registry.describeForPrompt()).toContain("任职(works_at)：源实体类型：person；目标实体类型：organization")
+      expect(registry.describeForPrompt()).not.toContain("contain)")
+
+      const text = "公司包含研发部。张三任职于北京。"
+      const entities = [
+        { id: 1, name: "公司", type: "organization", docId: "ontology_doc", startPos: 0, endPos: 2 },
+        { id: 2, name: "研发部", type: "organization", docId: "ontology_doc", startPos: 4, endPos: 7 },
+        { id: 3, name: "张三", type: "person", docId: "ontology_doc", startPos: 8, endPos: 10 },
+        { id: 4, name: "北京", type: "location", docId: "ontology_doc", startPos: 13, endPos: 15 },
+      ]
+      const relationExtractor = new RelationExtractor(registry)
+      relationExtractor.addRelationPattern("{organization} 包含 {organization} => contain")
+      relationExtractor.addRelationPattern("{*} 任职于 {*} => works_at")
+      const tokens = await tokenizer.tokenize(text)
+      const relationships = await relationExtractor.extract(entities, text, "ontology_doc", { tokens })
+      const ruleRelations = relationships.filter((r) => r.source === "rule")
+      // contain 统一为反向的 belong_to，北京不满足 works_at 的值域
+      expect(ruleRelations.map((r) => [r.sourceEntityId, r.targetEntityId, r.type])).toEqual([[2, 1, "belong_to"]])
+
+      await dbManager.saveDocument({ docId: "ontology_doc", title: "ontology_doc", content: text })
+      await dbManager.saveEntities(entities.map(({ id, ...entity }) => entity))
+      const saved = await dbManager.getEntities("ontology_doc")
+      const idOf = (name: string) => saved.find((e) => e.name === name)!.id!
+      await dbManager.saveRelationships([
+        {
+          sourceEntityId: idOf("研发部"),
+          targetEntityId: idOf("公司"),
+          type: "belong_to",
+          docId: "ontology_doc",
+          confidence: 0.8,
+        },
+        {
+          sourceEntityId: idOf("张三"),
+          targetEntityId: idOf("研发部"),
+          type: "mentor_of",
+          docId: "ontology_doc",
+          confidence: 0.8,
+        },
+      ])
+
+      const searchAPI = new SearchAPI(dbManager as any, registry)
+      const names = (graph: { nodes: Array<{ name: string }> }) => graph.nodes.map((n) => n.name).sort()
+      // belong_to 有反向关系，从公司出发也能到达研发部；mentor_of 未登记，只有 includeReverse 时才反向展开
+      const forward = await searchAPI.getEntityGraph(String(idOf("公司")), { depth: 2, includeReverse: false })
+      expect(names(forward)).toEqual(["公司", "研发部"])
+      const full = await searchAPI.getEntityGraph(String(idOf("公司")), { depth: 2, includeReverse: true })
+      expect(names(full)).toEqual(["公司", "张三", "研发部"])
+      expect(full.edges).toHaveLength(2)
+      const shallow = await searchAPI.getEntityGraph(String(idOf("公司")), { depth: 1 })
+      expect(names(shallow)).toEqual(["公司", "研发部"])
+    })
+
+    it("should infer implied relationships and drop them with their premises", async () => {
+      const save = async (docId: string, names: Array<[string, string]>) => {
+        await dbManager.saveDocument({ docId, title: docId, content: names.map(([name]) => name).join("") })
+        await dbManager.saveEntities(
+          names.map(([name, type], i) => ({ name, type, docId, startPos: i * 10, endPos: i * 10 + name.length }))
+        )
+        const saved = await dbManager.getEntities(docId)
+        return (name: string) => saved.find((e) => e.name === name)!.id!
+      }
+      const a = await save("infer_doc_a", [
+        ["赵六", "person"],
+        ["图谱组", "organization"],
+        ["研究院", "organization"],
+      ])
+      const b = await save("infer_doc_b", [["杭州", "location"]])
+      await dbManager.saveRelationships([
+        {
+          sourceEntityId: a("赵六"),
+          targetEntityId: a("图谱组"),
+          type: "works_at",
+          docId: "infer_doc_a",
+          confidence: 0.9,
+        },
+        {
+          sourceEntityId: a("图谱组"),
+          targetEntityId: a("研究院"),
+          type: "belong_to",
+          docId: "infer_doc_a",
+          confidence: 1,
+        },
+        {
+          sourceEntityId: a("研究院"),
+          targetEntityId: b("杭州"),
+          type: "located_in",
+          docId: "infer_doc_b",
+          confidence: 1,
+        },
+      ])
+
+      const engine = new InferenceEngine(dbManager as any, new RelationTypeRegistry(), { materializeInverses: false })
+      const rules = [
+        "# 任职单位的上级单位也是任职单位",
+        "works_at(X,O) ∧ belong_to(O,P) => works_at(X,P)",
+        "based_in: works_at(X,O) & located_in(O,L) ⇒ based_in(X,L) @0.9",
+        "invalid(X) => nothing(X,Y)",
+      ].join("\n")
+      expect(engine.loadRules(rules)).toBe(2)
+
+      const result = await engine.run()
+      const inferred = () =>
+        dbManager
+          .getAllRelationships()
+          .then((rels) => rels.filter((r) => r.source === "inferred" && r.docId.startsWith("infer_doc")))
+      const facts = (await inferred()).map((r) => [r.sourceEntityId, r.targetEntityId, r.type, r.confidence])
+      // 第二轮以推出的 works_at(赵六, 研究院) 为前提推出 based_in
+      expect(facts).toEqual([
+        [a("赵六"), a("研究院"), "works_at", 0.9],
+        [a("赵六"), b("杭州"), "based_in", 0.9 * 0.9],
+      ])
+      expect(result.iterations).toBe(3)
+      const basedIn = (await inferred()).find((r) => r.type === "based_in")!
+      expect(basedIn.properties?.rule).toBe("based_in")
+      expect(basedIn.properties?.justification).toContain(`located_in(${a("研究院")}, ${b("杭州")})`)
+      expect(await engine.run()).toMatchObject({ inferred: 0, pruned: 0 })
+
+      // 删除 located_in 所在文档，依赖它的 based_in 一并删除
+      await dbManager.deleteDocument("infer_doc_b")
+      expect((await inferred()).map((r) => r.type)).toEqual(["works_at"])
+      // 重新处理文档 a 时前提被清除，推理关系随之清除
+      await dbManager.purgeDocumentData("infer_doc_a")
+      expect(await inferred()).toHaveLength(0)
+    })
+
+    it("should chain premises across documents through canonical entities", async () => {
+      const save = async (docId: string, names: Array<[string, string]>) => {
+        await dbManager.saveDocument({ docId, title: docId, content: names.map(([name]) => name).join("") })
+        await dbManager.saveEntities(
+          names.map(([name, type], i) => ({ name, type, docId, startPos: i * 10, endPos: i * 10 + name.length }))
+        )
+        const saved = await dbManager.getEntities(docId)
+        await new EntityFusion(dbManager as any).resolveMentions(saved)
+        return (name: string) => saved.find((e) => e.name === name)!.id!
+      }
+      const x = await save("chain_doc_x", [
+        ["钱七", "person"],
+        ["星河研究院", "organization"],
+      ])
+      const y = await save("chain_doc_y", [
+        ["星河研究院", "organization"],
+        ["苏州", "location"],
+      ])
+      await dbManager.saveRelationships([
+        {
+          sourceEntityId: x("钱七"),
+          targetEntityId: x("星河研究院"),
+          type: "works_at",
+          docId: "chain_doc_x",
+          confidence: 1,
+        },
+        {
+          sourceEntityId: y("星河研究院"),
+          targetEntityId: y("苏州"),
+          type: "located_in",
+          docId: "chain_doc_y",
+          confidence: 1,
+        },
+      ])
+
+      const engine = new InferenceEngine(dbManager as any, new RelationTypeRegistry())
+      engine.addRule("works_at(X,O) ∧ located_in(O,L) => based_in(X,L)")
+      await engine.run()
+      const inferred = (await dbManager.getAllRelationships()).filter(
+        (r) => r.source === "inferred" && r.docId.startsWith("chain_doc")
+      )
+      // 两个文档中的“星河研究院”解析到同一规范实体，前提可以串联；默认不生成反向边
+      expect(inferred.map((r) => [r.sourceEntityId, r.targetEntityId, r.type])).toEqual([
+        [x("钱七"), y("苏州"), "based_in"],
+      ])
+
+      await dbManager.deleteDocument("chain_doc_x")
+      await dbManager.deleteDocument("chain_doc_y")
+    })
+
+    it("should detect negated and speculative relations", async () => {
+      const detector = new ModalityDetector()
+      expect(detector.detect("不是不属于")).toMatchObject({ polarity: "positive", certainty: "certain" })
+      expect(detector.detect("很可能属于")).toMatchObject({ polarity: "positive", certainty: "probable" })
+      expect(detector.detect("It may not be part of")).toMatchObject({ polarity: "negative", certainty: "possible" })
+      expect(detector.detect("不同部门都属于").polarity).toBe("positive")
+
+      const text = "研发部不属于无锡分部，测试部可能属于无锡分部。市场部属于无锡分部。"
+      const names = ["研发部", "无锡分部", "测试部", "无锡分部", "市场部", "无锡分部"]
+      let from = 0
+      const entities = names.map((name, i) => {
+        const startPos = text.indexOf(name, from)
+        from = startPos + name.length
+        return { id: i + 1, name, type: "organization", docId: "modality_doc", startPos, endPos: from }
+      })
+      const relationExtractor = new RelationExtractor()
+      const relationships = await relationExtractor.extract(entities, text, "modality_doc")
+      const belongTo = relationships.filter((r) => r.type === "belong_to")
+      expect(belongTo.map((r) => [r.sourceEntityId, r.properties?.polarity, r.properties?.certainty])).toEqual([
+        [1, "negative", "certain"],
+        [3, "positive", "possible"],
+        [5, "positive", "certain"],
+      ])
+      expect(belongTo[1].confidence).toBeCloseTo(belongTo[2].confidence * 0.5)
+
+      // 否定的关系保存下来，但图谱默认不展示
+      await dbManager.saveDocument({ docId: "modality_doc", title: "modality_doc", content: text })
+      await dbManager.saveEntities(entities.map(({ id, ...entity }) => entity))
+      const saved = await dbManager.getEntities("modality_doc")
+      const idOf = (pos: number) => saved.find((e) => e.startPos === pos)!.id!
+      await dbManager.saveRelationships(
+        belongTo.map((r) => ({
+          ...r,
+          sourceEntityId: idOf(entities[r.sourceEntityId - 1].startPos),
+          targetEntityId: idOf(entities[r.targetEntityId - 1].startPos),
+        }))
+      )
+      const searchAPI = new SearchAPI(dbManager as any)
+      const graph = await searchAPI.getEntityGraph(String(idOf(0)))
+      expect(graph.nodes.map((n) => n.name)).toEqual(["研发部"])
+      const negated = await searchAPI.getEntityGraph(String(idOf(0)), { includeNegated: true })
+      expect(negated.nodes.map((n) => n.name)).toEqual(["研发部", "无锡分部"])
+    })
+  })
+
+  describe("Structure Extraction Tests", () => {
+    it("should turn tags and hierarchy into entities and relationships", async () => {
+      const kernelApi = {
+        sql: async (stmt: string) => ({
+          code: 0,
+          msg: "",
+          data: stmt.includes("FROM spans")
+            ? [{ block_id: "20240101120000-ccccccc", content: "周报" }]
+            : [
+                {
+                  id: "20240101120000-bbbbbbb",
+                  content: "第一周",
+                  hpath: "/工作/第一周",
+                  path: "/20240101120000-aaaaaaa/20240101120000-bbbbbbb.sy",
+                  box: "20240101120000-nnnnnnn",
+                },
+              ],
+        }),
+        lsNotebooks: async () => [],
+      }
+      const structureExtractor = new StructureExtractor(kernelApi as any)
+
+      const entities = await structureExtractor.extractEntities("20240101120000-bbbbbbb", "本周 #周报#")
+      expect(entities.map((e) => `${e.type}:${e.name}`)).toEqual(["document:第一周", "document:工作", "tag:周报"])
+      entities.forEach((e, i) => (e.id = i + 1))
+
+      const relationships = structureExtractor.extractRelationships(entities, "20240101120000-bbbbbbb")
+      expect(relationships.map((r) => `${r.sourceEntityId}-${r.type}-${r.targetEntityId}`)).toEqual([
+        "1-child_of-2",
+        "1-tagged_with-3",
+      ])
+    })
+
+    it("should attach custom block attributes as typed properties", async () => {
+      const kernelApi = {
+        sql: async () => ({
+          code: 0,
+          msg: "",
+          data: [
+            { block_id: "20240101120000-ccccccc", name: "custom-status", value: "进行中" },
+            { block_id: "20240101120000-ccccccc", name: "custom-priority", value: "2" },
+            { block_id: "20240101120000-ccccccc", name: "custom-archived", value: "false" },
+          ],
+        }),
+      }
+      const structureExtractor = new StructureExtractor(kernelApi as any)
+
+      const entities = await structureExtractor.attachAttributes(
+        [
+          { name: "张三", type: "person", docId: "doc", startPos: 0, endPos: 2, blockId: "20240101120000-ccccccc" },
+          { name: "李四", type: "person", docId: "doc", startPos: 3, endPos: 5, blockId: "20240101120000-ddddddd" },
+        ],
+        "doc"
+      )
+      expect(entities[0].properties).toEqual({ status: "进行中", priority: 2, archived: false })
+      expect(entities[1].properties).toBeUndefined()
+    })
   })
 
   describe("Document Processor Tests", () => {
@@ -125,5 +1043,153 @@ describe("AI Graph Core Tests", () => {
       expect(result).toHaveProperty("entities")
       expect(result).toHaveProperty("relationships")
     }, 60000)
+
+    it("should return relation arguments that matched no entity", async () => {
+      const documentProcessor = new DocumentProcessor(dbManager)
+      const result = await documentProcessor.processDocument({
+        docId: "unresolved_doc",
+        title: "unresolved_doc",
+        content: "张三与这件事相关。李四在阿里巴巴工作。",
+      })
+      expect(result.unresolvedArguments).toContainEqual(
+        expect.objectContaining({ text: "这件事", relationType: "associate", docId: "unresolved_doc" })
+      )
+      await dbManager.deleteDocument("unresolved_doc")
+    })
+
+    it("should not turn recognized entities into dictionary entries", async () => {
+      const documentProcessor = new DocumentProcessor(dbManager)
+      const first = await documentProcessor.processDocument({
+        docId: "gazetteer_doc_1",
+        title: "gazetteer_doc_1",
+        content: "王小明在杭州工作。",
+      })
+      const learned = first.entities.filter((entity) => entity.source !== "dict")
+      expect(learned.length).toBeGreaterThan(0)
+
+      // 词性识别的实体不加入实体词典，后续文档仍按原来的来源识别
+      const second = await documentProcessor.processDocument({
+        docId: "gazetteer_doc_2",
+        title: "gazetteer_doc_2",
+        content: "王小明在杭州工作。",
+      })
+      expect(second.entities.filter((entity) => entity.source === "dict")).toEqual([])
+
+      await dbManager.deleteDocument("gazetteer_doc_1")
+      await dbManager.deleteDocument("gazetteer_doc_2")
+    })
+
+    it("should retry a document whose processing failed on the next sync", async () => {
+      // 服务层读取思源的全局配置
+      vi.stubGlobal("window", { siyuan: { config: { system: { workspaceDir: "", dataDir: "" } } } })
+      const { IngestAPIService } = await import("../src/api/ingest-api")
+
+      const docId = "20240301120000-retryaa"
+      const kernelApi = {
+        sql: async (stmt: string) => {
+          let data: any[] = []
+          if (stmt.startsWith("SELECT id FROM blocks WHERE type = 'd'")) {
+            data = [{ id: docId }]
+          } else if (stmt.startsWith("SELECT root_id AS id")) {
+            data = [{ id: docId, updated: "20240301120000" }]
+          } else if (stmt.startsWith("SELECT d.id, d.content")) {
+            data = [{ id: docId, content: "重试", created: "20240301120000", updated: "20240301120000" }]
+          }
+          return { code: 0, msg: "", data }
+        },
+        getBlockKramdown: async () => ({ id: docId, kramdown: "张三在北京工作。" }),
+      }
+      const ingestAPIService = new IngestAPIService(dbManager as any, kernelApi as any)
+      const tokenizeSpy = vi
+        .spyOn((ingestAPIService as any).documentProcessor.getTokenizer(), "tokenize")
+        .mockRejectedValueOnce(new Error("tokenizer failed"))
+
+      const first = await ingestAPIService.syncWorkspace()
+      expect(first).toMatchObject({ processed: 0, failed: 1 })
+      expect(await dbManager.getDocument(docId)).toBeNull()
+
+      const second = await ingestAPIService.syncWorkspace()
+      expect(second).toMatchObject({ processed: 1, failed: 0, skipped: 0 })
+      expect(await dbManager.getDocument(docId)).not.toBeNull()
+
+      tokenizeSpy.mockRestore()
+      vi.unstubAllGlobals()
+    }, 60000)
+  })
+
+  describe("Write Back Tests", () => {
+    it("should tag only paragraphs and headings and detect attribute conflicts", async () => {
+      vi.stubGlobal("window", { siyuan: { config: { system: { workspaceDir: "", dataDir: "" } } } })
+      const { WriteBackAPIService } = await import("../src/api/writeback-api")
+
+      const blocks: Record<string, { type: string; kramdown: string; attrs: Record<string, string> }> = {
+        "20240401120000-para001": { type: "p", kramdown: '张三来了\n{: id="20240401120000-para001"}', attrs: {} },
+        "20240401120000-table01": { type: "t", kramdown: '|张三|\n{: id="20240401120000-table01"}', attrs: {} },
+      }
+      const kernelApi = {
+        getBlockKramdown: async (id: string) => ({ id, kramdown: blocks[id].kramdown }),
+        getBlockAttrs: async (id: string) => ({ ...blocks[id].attrs }),
+        setBlockAttrs: vi.fn(async () => {}),
+        updateBlock: vi.fn(async () => {}),
+        sql: async (stmt: string) => ({
+          code: 0,
+          msg: "",
+          data: [{ type: blocks[stmt.match(/id = '([^']+)'/)![1]].type }],
+        }),
+      }
+      const entity = (blockId: string) => ({
+        name: "张三",
+        type: "person",
+        docId: "wb_doc",
+        startPos: 0,
+        endPos: 2,
+        blockId,
+      })
+      const dbManager = { getEntities: async () => Object.keys(blocks).map(entity) }
+
+      const service = new WriteBackAPIService(dbManager as any, kernelApi as any)
+      const changes = await service.preview("wb_doc", { entityTypes: ["person"], modes: ["tag", "attribute"] })
+      // 表格块不追加标签，只写属性
+      expect(changes.map((c) => c.after.includes("#张三#"))).toEqual([true, false])
+
+      // 预览之后用户修改了段落块的属性
+      blocks["20240401120000-para001"].attrs["custom-ai-entities"] = "李四:person"
+      const result = await service.apply(changes)
+      expect(result).toEqual({ applied: 1, failed: 0, conflicts: ["20240401120000-para001"] })
+      expect(kernelApi.updateBlock).not.toHaveBeenCalled()
+
+      vi.unstubAllGlobals()
+    })
+
+    it("should not turn mentions inside URLs or math into refs", async () => {
+      vi.stubGlobal("window", { siyuan: { config: { system: { workspaceDir: "", dataDir: "" } } } })
+      const { WriteBackAPIService } = await import("../src/api/writeback-api")
+
+      const blockId = "20240401120000-urlpara"
+      const kramdown =
+        "见 https://example.com/北京/index.html 和 <https://北京.example.com> 以及 $北京$，北京很好\n" +
+        `{: id="${blockId}"}`
+      const kernelApi = {
+        getBlockKramdown: async () => ({ id: blockId, kramdown }),
+        sql: async (stmt: string) => ({
+          code: 0,
+          msg: "",
+          data: stmt.includes("type = 'd'") ? [{ id: "20240401120000-beijing" }] : [{ type: "p" }],
+        }),
+      }
+      const dbManager = {
+        getEntities: async () => [
+          { name: "北京", type: "location", docId: "wb_url_doc", startPos: 0, endPos: 2, blockId },
+        ],
+      }
+
+      const service = new WriteBackAPIService(dbManager as any, kernelApi as any)
+      const [change] = await service.preview("wb_url_doc", { entityTypes: ["location"], modes: ["ref"] })
+      expect(change.after.split("\n")[0]).toBe(
+        "见 https://example.com/北京/index.html 和 <https://北京.example.com> 以及 $北京$，((20240401120000-beijing '北京'))很好"
+      )
+
+      vi.unstubAllGlobals()
+    })
   })
 })